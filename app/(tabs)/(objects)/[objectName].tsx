@@ -11,11 +11,11 @@ import {
   Platform,
 } from "react-native";
 import { Stack, router, useLocalSearchParams } from "expo-router";
-import { ChevronRight, Type, Hash, Calendar, ToggleLeft, Filter, Link, List, ExternalLink, Star, ChevronDown, ChevronUp } from "lucide-react-native";
+import { ChevronRight, Type, Hash, Calendar, ToggleLeft, Filter, Link, List, ExternalLink, Star, ChevronDown, ChevronUp, Network } from "lucide-react-native";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/providers/auth-provider";
-import { fetchObjectFields } from "@/services/salesforce";
-import type { SalesforceField } from "@/types/salesforce";
+import { fetchObjectDescribe } from "@/services/salesforce";
+import type { ChildRelationship, SalesforceField } from "@/types/salesforce";
 import { hasStandardValues, getStandardValueSetName } from "@/constants/standard-field-values";
 
 interface FilterState {
@@ -33,6 +33,7 @@ export default function ObjectFieldsScreen() {
   const headerTitle = displayName;
   const [searchQuery, setSearchQuery] = useState("");
   const [showAllFilters, setShowAllFilters] = useState(false);
+  const [activeTab, setActiveTab] = useState<'fields' | 'children'>('fields');
 
   const [filters, setFilters] = useState<FilterState>({
     required: false,
@@ -42,13 +43,25 @@ export default function ObjectFieldsScreen() {
     masterDetail: false,
     fieldType: 'all',
   });
-  const { accessToken, instanceUrl } = useAuth();
+  const { client, instanceUrl, activeOrgId } = useAuth();
 
-  const { data: fields = [], isLoading, error, refetch } = useQuery({
-    queryKey: ["salesforce-fields", displayName, instanceUrl, accessToken],
-    queryFn: () => fetchObjectFields(instanceUrl!, accessToken!, displayName),
-    enabled: !!accessToken && !!instanceUrl && !!objectName,
+  const { data: describe, isLoading, error, refetch } = useQuery({
+    queryKey: ["salesforce-describe", activeOrgId, displayName, instanceUrl],
+    queryFn: ({ signal }) => fetchObjectDescribe(client!.withSignal(signal), displayName),
+    enabled: !!client && !!objectName,
   });
+  const fields = useMemo(() => describe?.fields ?? [], [describe]);
+  const childRelationships = useMemo(() => describe?.childRelationships ?? [], [describe]);
+
+  const filteredChildRelationships = useMemo(() => {
+    if (!searchQuery) return childRelationships;
+    const query = searchQuery.toLowerCase();
+    return childRelationships.filter(rel =>
+      rel.childSObject.toLowerCase().includes(query) ||
+      rel.field.toLowerCase().includes(query) ||
+      (rel.relationshipName || '').toLowerCase().includes(query)
+    );
+  }, [childRelationships, searchQuery]);
 
   const filteredFields = useMemo(() => {
     let filtered = fields;
@@ -154,7 +167,6 @@ export default function ObjectFieldsScreen() {
     const isLookup = item.referenceTo && item.referenceTo.length > 0;
     const isMasterDetail = isLookup && !item.nillable && item.cascadeDelete;
     const hasPicklistValues = item.picklistValues && item.picklistValues.length > 0;
-    const hasChildRelationships = item.childRelationships && item.childRelationships.length > 0;
     const hasStandardFieldValues = hasStandardValues(Array.isArray(objectName) ? objectName[0] : objectName!, item.name);
     const standardValueSetName = getStandardValueSetName(Array.isArray(objectName) ? objectName[0] : objectName!, item.name);
 
@@ -290,18 +302,6 @@ export default function ObjectFieldsScreen() {
               )}
             </View>
           )}
-          {hasChildRelationships && (
-            <View style={styles.childRelationshipsContainer}>
-              <Text style={styles.childRelationshipsLabel}>Child Relationships:</Text>
-              {item.childRelationships!.map((rel, index) => (
-                <View key={index} style={styles.childRelationshipItem}>
-                  <Text style={styles.childRelationshipText}>
-                    {rel.childSObject} ({rel.relationshipName})
-                  </Text>
-                </View>
-              ))}
-            </View>
-          )}
         </View>
         <View style={styles.chevronContainer}>
           <ChevronRight size={20} color="#706E6B" />
@@ -311,6 +311,43 @@ export default function ObjectFieldsScreen() {
     );
   };
 
+  const renderChildRelationship = ({ item }: { item: ChildRelationship }) => (
+    <TouchableOpacity
+      style={styles.childRelationshipCard}
+      onPress={() => router.push(`/(tabs)/(objects)/${item.childSObject}`)}
+      testID={`child-${item.childSObject}-${item.field}`}
+      activeOpacity={0.9}
+    >
+      <View style={styles.fieldIcon}>
+        <Link size={16} color="#F57F17" />
+      </View>
+      <View style={styles.fieldInfo}>
+        <Text style={styles.fieldLabel}>{item.childSObject}</Text>
+        <Text style={styles.fieldName}>{item.childSObject}.{item.field}</Text>
+        <View style={styles.fieldMeta}>
+          <View style={styles.childRelationshipBadge}>
+            <Text style={styles.childRelationshipText}>
+              {item.relationshipName || 'No relationship name'}
+            </Text>
+          </View>
+          {item.cascadeDelete && (
+            <View style={styles.requiredBadge}>
+              <Text style={styles.requiredText}>Cascade delete</Text>
+            </View>
+          )}
+          {item.restrictedDelete && (
+            <View style={styles.requiredBadge}>
+              <Text style={styles.requiredText}>Restricted delete</Text>
+            </View>
+          )}
+        </View>
+      </View>
+      <View style={styles.chevronContainer}>
+        <ChevronRight size={20} color="#706E6B" />
+      </View>
+    </TouchableOpacity>
+  );
+
   if (error) {
     return (
       <View style={styles.centerContainer}>
@@ -331,12 +368,20 @@ export default function ObjectFieldsScreen() {
         },
         headerTintColor: "#FFFFFF",
         headerBackTitle: "",
+        headerRight: () => (
+          <TouchableOpacity
+            onPress={() => router.push({ pathname: "/(tabs)/(objects)/erd", params: { objectName: displayName } })}
+            testID="open-erd"
+          >
+            <Network size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        ),
       }} />
       <View style={styles.container}>
         <View style={styles.searchContainer}>
           <TextInput
             style={styles.searchInput}
-            placeholder="Search fields..."
+            placeholder={activeTab === 'fields' ? "Search fields..." : "Search child relationships..."}
             value={searchQuery}
             onChangeText={setSearchQuery}
             autoCapitalize="none"
@@ -344,144 +389,199 @@ export default function ObjectFieldsScreen() {
           />
         </View>
         
+        <View style={styles.tabBar}>
+          <TouchableOpacity
+            style={[styles.tab, activeTab === 'fields' && styles.tabActive]}
+            onPress={() => setActiveTab('fields')}
+            testID="tab-fields"
+          >
+            <Text style={[styles.tabText, activeTab === 'fields' && styles.tabTextActive]}>
+              Fields ({fields.length})
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tab, activeTab === 'children' && styles.tabActive]}
+            onPress={() => setActiveTab('children')}
+            testID="tab-child-relationships"
+          >
+            <Text style={[styles.tabText, activeTab === 'children' && styles.tabTextActive]}>
+              Child Relationships ({childRelationships.length})
+            </Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.statsContainer}>
           <Text style={styles.statsText}>
             {fields.length} fields • {fields.filter(f => f.custom).length} custom • {fields.filter(f => !f.custom).length} standard
           </Text>
+          {describe && (
+            <Text style={styles.statsSubtext}>
+              {[
+                describe.keyPrefix ? `Key prefix ${describe.keyPrefix}` : null,
+                describe.internalSharingModel
+                  ? `Sharing ${describe.internalSharingModel} / ${describe.externalSharingModel ?? 'n/a'}`
+                  : null,
+                `${describe.recordTypes.filter(rt => !rt.master).length} record types`,
+              ].filter(Boolean).join(' • ')}
+            </Text>
+          )}
         </View>
 
-        <View style={styles.filtersContainer}>
-          {/* Primary Filters Row */}
-          <View style={styles.primaryFiltersRow}>
-            <TouchableOpacity
-              style={[styles.filterButton, filters.fieldType === 'all' && styles.filterButtonActive]}
-              onPress={() => setFieldTypeFilter('all')}
-              testID="filter-all-fields"
-            >
-              <Text style={[styles.filterButtonText, filters.fieldType === 'all' && styles.filterButtonTextActive]}>
-                All
-              </Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity
-              style={[styles.filterButton, filters.fieldType === 'standard' && styles.filterButtonActive]}
-              onPress={() => setFieldTypeFilter('standard')}
-              testID="filter-standard-fields"
-            >
-              <Text style={[styles.filterButtonText, filters.fieldType === 'standard' && styles.filterButtonTextActive]}>
-                Standard
-              </Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity
-              style={[styles.filterButton, filters.fieldType === 'custom' && styles.filterButtonActive]}
-              onPress={() => setFieldTypeFilter('custom')}
-              testID="filter-custom-fields"
-            >
-              <Text style={[styles.filterButtonText, filters.fieldType === 'custom' && styles.filterButtonTextActive]}>
-                Custom
-              </Text>
-            </TouchableOpacity>
+        {activeTab === 'fields' && (
+          <View style={styles.filtersContainer}>
+            {/* Primary Filters Row */}
+            <View style={styles.primaryFiltersRow}>
+              <TouchableOpacity
+                style={[styles.filterButton, filters.fieldType === 'all' && styles.filterButtonActive]}
+                onPress={() => setFieldTypeFilter('all')}
+                testID="filter-all-fields"
+              >
+                <Text style={[styles.filterButtonText, filters.fieldType === 'all' && styles.filterButtonTextActive]}>
+                  All
+                </Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={[styles.filterButton, filters.fieldType === 'standard' && styles.filterButtonActive]}
+                onPress={() => setFieldTypeFilter('standard')}
+                testID="filter-standard-fields"
+              >
+                <Text style={[styles.filterButtonText, filters.fieldType === 'standard' && styles.filterButtonTextActive]}>
+                  Standard
+                </Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={[styles.filterButton, filters.fieldType === 'custom' && styles.filterButtonActive]}
+                onPress={() => setFieldTypeFilter('custom')}
+                testID="filter-custom-fields"
+              >
+                <Text style={[styles.filterButtonText, filters.fieldType === 'custom' && styles.filterButtonTextActive]}>
+                  Custom
+                </Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={styles.moreFiltersButton}
+                onPress={() => setShowAllFilters(!showAllFilters)}
+                testID="toggle-more-filters"
+              >
+                <Filter size={16} color="#1A73E8" />
+                <Text style={styles.moreFiltersText}>Filters</Text>
+                {showAllFilters ? (
+                  <ChevronUp size={16} color="#1A73E8" />
+                ) : (
+                  <ChevronDown size={16} color="#1A73E8" />
+                )}
+                {hasActiveFilters && (
+                  <View style={styles.activeFilterIndicator}>
+                    <Text style={styles.activeFilterCount}>
+                      {Object.entries(filters).filter(([key, value]) => 
+                        key === 'fieldType' ? value !== 'all' : Boolean(value)
+                      ).length}
+                    </Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            </View>
             
-            <TouchableOpacity
-              style={styles.moreFiltersButton}
-              onPress={() => setShowAllFilters(!showAllFilters)}
-              testID="toggle-more-filters"
-            >
-              <Filter size={16} color="#1A73E8" />
-              <Text style={styles.moreFiltersText}>Filters</Text>
-              {showAllFilters ? (
-                <ChevronUp size={16} color="#1A73E8" />
-              ) : (
-                <ChevronDown size={16} color="#1A73E8" />
-              )}
-              {hasActiveFilters && (
-                <View style={styles.activeFilterIndicator}>
-                  <Text style={styles.activeFilterCount}>
-                    {Object.entries(filters).filter(([key, value]) => 
-                      key === 'fieldType' ? value !== 'all' : Boolean(value)
-                    ).length}
-                  </Text>
+            {/* Expandable Filters Grid */}
+            {showAllFilters && (
+              <View style={styles.expandedFiltersContainer}>
+                <View style={styles.filtersGrid}>
+                  <TouchableOpacity
+                    style={[styles.gridFilterButton, filters.required && styles.gridFilterButtonActive]}
+                    onPress={() => toggleFilter('required')}
+                    testID="filter-required"
+                  >
+                    <Text style={[styles.gridFilterButtonText, filters.required && styles.gridFilterButtonTextActive]}>
+                      Required
+                    </Text>
+                  </TouchableOpacity>
+                  
+                  <TouchableOpacity
+                    style={[styles.gridFilterButton, filters.unique && styles.gridFilterButtonActive]}
+                    onPress={() => toggleFilter('unique')}
+                    testID="filter-unique"
+                  >
+                    <Text style={[styles.gridFilterButtonText, filters.unique && styles.gridFilterButtonTextActive]}>
+                      Unique
+                    </Text>
+                  </TouchableOpacity>
+                  
+                  <TouchableOpacity
+                    style={[styles.gridFilterButton, filters.lookup && styles.gridFilterButtonActive]}
+                    onPress={() => toggleFilter('lookup')}
+                    testID="filter-lookup"
+                  >
+                    <Link size={14} color={filters.lookup ? "#FFFFFF" : "#1A73E8"} />
+                    <Text style={[styles.gridFilterButtonText, filters.lookup && styles.gridFilterButtonTextActive]}>
+                      Lookup
+                    </Text>
+                  </TouchableOpacity>
+                  
+                  <TouchableOpacity
+                    style={[styles.gridFilterButton, filters.picklist && styles.gridFilterButtonActive]}
+                    onPress={() => toggleFilter('picklist')}
+                    testID="filter-picklist"
+                  >
+                    <List size={14} color={filters.picklist ? "#FFFFFF" : "#1A73E8"} />
+                    <Text style={[styles.gridFilterButtonText, filters.picklist && styles.gridFilterButtonTextActive]}>
+                      Picklist
+                    </Text>
+                  </TouchableOpacity>
+                  
+                  <TouchableOpacity
+                    style={[styles.gridFilterButton, filters.masterDetail && styles.gridFilterButtonActive]}
+                    onPress={() => toggleFilter('masterDetail')}
+                    testID="filter-master-detail"
+                  >
+                    <Text style={[styles.gridFilterButtonText, filters.masterDetail && styles.gridFilterButtonTextActive]}>
+                      Master-Detail
+                    </Text>
+                  </TouchableOpacity>
                 </View>
-              )}
-            </TouchableOpacity>
-          </View>
-          
-          {/* Expandable Filters Grid */}
-          {showAllFilters && (
-            <View style={styles.expandedFiltersContainer}>
-              <View style={styles.filtersGrid}>
-                <TouchableOpacity
-                  style={[styles.gridFilterButton, filters.required && styles.gridFilterButtonActive]}
-                  onPress={() => toggleFilter('required')}
-                  testID="filter-required"
-                >
-                  <Text style={[styles.gridFilterButtonText, filters.required && styles.gridFilterButtonTextActive]}>
-                    Required
-                  </Text>
-                </TouchableOpacity>
-                
-                <TouchableOpacity
-                  style={[styles.gridFilterButton, filters.unique && styles.gridFilterButtonActive]}
-                  onPress={() => toggleFilter('unique')}
-                  testID="filter-unique"
-                >
-                  <Text style={[styles.gridFilterButtonText, filters.unique && styles.gridFilterButtonTextActive]}>
-                    Unique
-                  </Text>
-                </TouchableOpacity>
                 
-                <TouchableOpacity
-                  style={[styles.gridFilterButton, filters.lookup && styles.gridFilterButtonActive]}
-                  onPress={() => toggleFilter('lookup')}
-                  testID="filter-lookup"
-                >
-                  <Link size={14} color={filters.lookup ? "#FFFFFF" : "#1A73E8"} />
-                  <Text style={[styles.gridFilterButtonText, filters.lookup && styles.gridFilterButtonTextActive]}>
-                    Lookup
-                  </Text>
-                </TouchableOpacity>
-                
-                <TouchableOpacity
-                  style={[styles.gridFilterButton, filters.picklist && styles.gridFilterButtonActive]}
-                  onPress={() => toggleFilter('picklist')}
-                  testID="filter-picklist"
-                >
-                  <List size={14} color={filters.picklist ? "#FFFFFF" : "#1A73E8"} />
-                  <Text style={[styles.gridFilterButtonText, filters.picklist && styles.gridFilterButtonTextActive]}>
-                    Picklist
-                  </Text>
-                </TouchableOpacity>
-                
-                <TouchableOpacity
-                  style={[styles.gridFilterButton, filters.masterDetail && styles.gridFilterButtonActive]}
-                  onPress={() => toggleFilter('masterDetail')}
-                  testID="filter-master-detail"
-                >
-                  <Text style={[styles.gridFilterButtonText, filters.masterDetail && styles.gridFilterButtonTextActive]}>
-                    Master-Detail
-                  </Text>
-                </TouchableOpacity>
+                {hasActiveFilters && (
+                  <TouchableOpacity
+                    style={styles.clearAllFiltersButton}
+                    onPress={clearAllFilters}
+                    testID="clear-filters"
+                  >
+                    <Text style={styles.clearAllFiltersText}>Clear All Filters</Text>
+                  </TouchableOpacity>
+                )}
               </View>
-              
-              {hasActiveFilters && (
-                <TouchableOpacity
-                  style={styles.clearAllFiltersButton}
-                  onPress={clearAllFilters}
-                  testID="clear-filters"
-                >
-                  <Text style={styles.clearAllFiltersText}>Clear All Filters</Text>
-                </TouchableOpacity>
-              )}
-            </View>
-          )}
-        </View>
+            )}
+          </View>
+        )}
 
         {isLoading ? (
           <View style={styles.centerContainer}>
             <ActivityIndicator size="large" color="#0176D3" />
             <Text style={styles.loadingText}>Loading fields...</Text>
           </View>
+        ) : activeTab === 'children' ? (
+          <FlatList
+            data={filteredChildRelationships}
+            renderItem={renderChildRelationship}
+            keyExtractor={(item) => `${item.childSObject}.${item.field}`}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl
+                refreshing={false}
+                onRefresh={() => refetch()}
+                tintColor="#0176D3"
+              />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>
+                  {searchQuery ? "No child relationships found" : "No objects look up to this object"}
+                </Text>
+              </View>
+            }
+          />
         ) : (
           <FlatList
             data={filteredFields}
@@ -557,6 +657,11 @@ const styles = StyleSheet.create({
     color: "#5F6368",
     fontWeight: "500",
   },
+  statsSubtext: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 4,
+  },
   listContent: {
     paddingVertical: 12,
   },
@@ -763,26 +868,22 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     alignSelf: "flex-start",
   },
-  childRelationshipsContainer: {
-    marginTop: 8,
+  childRelationshipCard: {
+    flexDirection: "row",
+    alignItems: "center",
     backgroundColor: "#FFF8E1",
-    padding: 10,
-    borderRadius: 10,
+    marginHorizontal: 16,
+    marginVertical: 6,
+    padding: 16,
+    borderRadius: 16,
     borderWidth: 1,
     borderColor: "#FFE082",
   },
-  childRelationshipsLabel: {
-    fontSize: 12,
-    color: "#F57F17",
-    fontWeight: "600",
-    marginBottom: 6,
-  },
-  childRelationshipItem: {
+  childRelationshipBadge: {
     backgroundColor: "#FFFDE7",
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderRadius: 6,
-    marginBottom: 4,
     borderWidth: 1,
     borderColor: "#FFF176",
   },
@@ -791,6 +892,30 @@ const styles = StyleSheet.create({
     color: "#E65100",
     fontWeight: "500",
   },
+  tabBar: {
+    flexDirection: "row",
+    backgroundColor: "#FFFFFF",
+    borderBottomWidth: 1,
+    borderBottomColor: "#E8EAED",
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: "center",
+    borderBottomWidth: 2,
+    borderBottomColor: "transparent",
+  },
+  tabActive: {
+    borderBottomColor: "#1B96FF",
+  },
+  tabText: {
+    fontSize: 14,
+    color: "#5F6368",
+    fontWeight: "600",
+  },
+  tabTextActive: {
+    color: "#1B96FF",
+  },
   filtersContainer: {
     backgroundColor: "#FFFFFF",
     borderBottomWidth: 1,
@@ -42,6 +42,61 @@ export default function ObjectsLayout() {
           headerBackTitle: "",
         }} 
       />
+      <Stack.Screen 
+        name="erd" 
+        options={{ 
+          title: "Relationships",
+          headerStyle: {
+            backgroundColor: "#1B96FF",
+          },
+          headerTintColor: "#FFFFFF",
+          headerBackTitle: "",
+        }} 
+      />
+      <Stack.Screen 
+        name="compare" 
+        options={{ 
+          title: "Compare Orgs",
+          headerStyle: {
+            backgroundColor: "#1B96FF",
+          },
+          headerTintColor: "#FFFFFF",
+          headerBackTitle: "",
+        }} 
+      />
+      <Stack.Screen 
+        name="snapshots" 
+        options={{ 
+          title: "Snapshots",
+          headerStyle: {
+            backgroundColor: "#1B96FF",
+          },
+          headerTintColor: "#FFFFFF",
+          headerBackTitle: "",
+        }} 
+      />
+      <Stack.Screen 
+        name="change-history" 
+        options={{ 
+          title: "Change History",
+          headerStyle: {
+            backgroundColor: "#1B96FF",
+          },
+          headerTintColor: "#FFFFFF",
+          headerBackTitle: "",
+        }} 
+      />
+      <Stack.Screen 
+        name="limits" 
+        options={{ 
+          title: "API Limits",
+          headerStyle: {
+            backgroundColor: "#1B96FF",
+          },
+          headerTintColor: "#FFFFFF",
+          headerBackTitle: "",
+        }} 
+      />
       <Stack.Screen 
         name="metadata-reference" 
         options={{ 
@@ -0,0 +1,388 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Stack, router } from "expo-router";
+import { ChevronRight, History } from "lucide-react-native";
+import { useInfiniteQuery, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/providers/auth-provider";
+import { fetchObjectDescribe, fetchSalesforceObjects, fetchSetupAuditTrail } from "@/services/salesforce";
+import { resolveAuditField, resolveAuditObject } from "@/services/audit-trail";
+import type { SalesforceObject, SetupAuditEntry, SetupAuditFilters } from "@/types/salesforce";
+
+const DATE_RANGES = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "All", days: null },
+] as const;
+
+export default function ChangeHistoryScreen() {
+  const { client, instanceUrl, activeOrgId } = useAuth();
+  const queryClient = useQueryClient();
+  const [userInput, setUserInput] = useState("");
+  const [sectionInput, setSectionInput] = useState("");
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+  // Text filters are applied on submit so typing does not fire a query per keystroke
+  const [applied, setApplied] = useState({ user: "", section: "" });
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const filters = useMemo<SetupAuditFilters>(() => ({
+    user: applied.user,
+    section: applied.section,
+    since: rangeDays ? new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString() : undefined,
+  }), [applied, rangeDays]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+    isRefetching,
+  } = useInfiniteQuery({
+    queryKey: ["setup-audit-trail", activeOrgId, applied, rangeDays, instanceUrl],
+    queryFn: ({ pageParam, signal }) => fetchSetupAuditTrail(client!.withSignal(signal), filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextRecordsUrl ?? undefined,
+    enabled: !!client,
+  });
+
+  // Same key as the objects list, so it is usually already cached
+  const { data: objects = [] } = useQuery({
+    queryKey: ["salesforce-objects", activeOrgId, instanceUrl],
+    queryFn: ({ signal }) => fetchSalesforceObjects(client!.withSignal(signal)),
+    enabled: !!client,
+  });
+
+  const entries = useMemo(() => data?.pages.flatMap(page => page.entries) || [], [data]);
+
+  const resolvedObjects = useMemo(() => {
+    const resolved = new Map<string, SalesforceObject>();
+    entries.forEach(entry => {
+      const obj = resolveAuditObject(entry, objects);
+      if (obj) resolved.set(entry.id, obj);
+    });
+    return resolved;
+  }, [entries, objects]);
+
+  const applyTextFilters = () => {
+    setApplied({ user: userInput.trim(), section: sectionInput.trim() });
+  };
+
+  // Opens the field when the entry names one of the object's fields, otherwise the object
+  const handleOpen = async (entry: SetupAuditEntry, obj: SalesforceObject) => {
+    setOpeningId(entry.id);
+    try {
+      const describe = await queryClient.fetchQuery({
+        queryKey: ["salesforce-describe", activeOrgId, obj.name, instanceUrl],
+        queryFn: ({ signal }) => fetchObjectDescribe(client!.withSignal(signal), obj.name),
+      });
+      const field = resolveAuditField(entry, describe.fields);
+      if (field) {
+        router.push({
+          pathname: "/(tabs)/(objects)/field-details",
+          params: {
+            objectName: obj.name,
+            fieldName: field.name,
+            fieldLabel: field.label,
+            fieldType: field.type,
+          },
+        });
+        return;
+      }
+    } catch (e) {
+      console.warn("Could not resolve audit entry field:", e);
+    } finally {
+      setOpeningId(null);
+    }
+    router.push(`/(tabs)/(objects)/${obj.name}`);
+  };
+
+  const renderEntry = ({ item }: { item: SetupAuditEntry }) => {
+    const obj = resolvedObjects.get(item.id);
+    const content = (
+      <>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryDisplay}>{item.display}</Text>
+          <Text style={styles.entryMeta}>
+            {new Date(item.createdDate).toLocaleString()} · {item.createdBy || "Unknown user"}
+            {item.delegateUser ? ` (as ${item.delegateUser})` : ""}
+          </Text>
+          <View style={styles.entryTags}>
+            {item.section && <Text style={styles.sectionTag}>{item.section}</Text>}
+            {obj && <Text style={styles.objectTag}>{obj.label}</Text>}
+          </View>
+        </View>
+        {obj && (openingId === item.id ? (
+          <ActivityIndicator size="small" color="#1B96FF" />
+        ) : (
+          <ChevronRight size={18} color="#5F6368" />
+        ))}
+      </>
+    );
+
+    if (!obj) {
+      return <View style={styles.entryRow}>{content}</View>;
+    }
+    return (
+      <TouchableOpacity
+        style={styles.entryRow}
+        onPress={() => handleOpen(item, obj)}
+        disabled={openingId !== null}
+        activeOpacity={0.7}
+      >
+        {content}
+      </TouchableOpacity>
+    );
+  };
+
+  const header = (
+    <View style={styles.filterCard}>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="User"
+          value={userInput}
+          onChangeText={setUserInput}
+          onSubmitEditing={applyTextFilters}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Section"
+          value={sectionInput}
+          onChangeText={setSectionInput}
+          onSubmitEditing={applyTextFilters}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+      </View>
+      <View style={styles.rangeRow}>
+        {DATE_RANGES.map(range => (
+          <TouchableOpacity
+            key={range.label}
+            style={[styles.rangeChip, rangeDays === range.days && styles.rangeChipActive]}
+            onPress={() => setRangeDays(range.days)}
+          >
+            <Text style={[styles.rangeText, rangeDays === range.days && styles.rangeTextActive]}>
+              {range.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {(userInput.trim() !== applied.user || sectionInput.trim() !== applied.section) && (
+        <TouchableOpacity style={styles.applyButton} onPress={applyTextFilters}>
+          <Text style={styles.applyText}>Apply filters</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  if (!client) {
+    return (
+      <View style={styles.centerContainer}>
+        <Stack.Screen options={{ title: "Change History" }} />
+        <History size={40} color="#C4C7C5" />
+        <Text style={styles.emptyTitle}>Not signed in</Text>
+        <Text style={styles.emptyText}>Log in to an org to see its Setup Audit Trail.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Change History" }} />
+      <FlatList
+        data={entries}
+        keyExtractor={item => item.id}
+        renderItem={renderEntry}
+        ListHeaderComponent={header}
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+        }}
+        onEndReachedThreshold={0.5}
+        onRefresh={refetch}
+        refreshing={isRefetching && !isFetchingNextPage}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator size="large" color="#1B96FF" style={styles.loading} />
+          ) : error ? (
+            <View style={styles.messageContainer}>
+              <Text style={styles.errorText}>Failed to load the Setup Audit Trail</Text>
+              <Text style={styles.emptyText}>
+                {error instanceof Error ? error.message : "Unknown error"}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.messageContainer}>
+              <Text style={styles.emptyText}>No setup changes match these filters</Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          isFetchingNextPage ? <ActivityIndicator size="small" color="#1B96FF" style={styles.loading} /> : null
+        }
+        contentContainerStyle={styles.listContent}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#F8F9FA",
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#16325C",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#5F6368",
+    textAlign: "center",
+  },
+  errorText: {
+    fontSize: 16,
+    color: "#D32F2F",
+    textAlign: "center",
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  messageContainer: {
+    padding: 24,
+  },
+  filterCard: {
+    backgroundColor: "#FFFFFF",
+    margin: 16,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#E8EAED",
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: "#202124",
+  },
+  rangeRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  rangeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    backgroundColor: "#FFFFFF",
+  },
+  rangeChipActive: {
+    backgroundColor: "#1B96FF",
+    borderColor: "#1B96FF",
+  },
+  rangeText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  rangeTextActive: {
+    color: "#FFFFFF",
+  },
+  applyButton: {
+    alignSelf: "flex-end",
+    marginTop: 10,
+  },
+  applyText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1B96FF",
+  },
+  entryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#FFFFFF",
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 10,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#E8EAED",
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryDisplay: {
+    fontSize: 14,
+    color: "#202124",
+    lineHeight: 20,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 4,
+  },
+  entryTags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 6,
+  },
+  sectionTag: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#5F6368",
+    backgroundColor: "#F1F3F4",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: "hidden",
+  },
+  objectTag: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#1565C0",
+    backgroundColor: "#E3F2FD",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: "hidden",
+  },
+});
@@ -0,0 +1,254 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+} from "react-native";
+import { Stack } from "expo-router";
+import { GitCompare } from "lucide-react-native";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/providers/auth-provider";
+import { MetadataDiffList } from "@/components/metadata-diff-list";
+import { captureOrgSchema, diffOrgSchemas, getSkippedCategories, type CaptureOptions } from "@/services/org-compare";
+import type { MetadataDiffResult, SearchProgress } from "@/types/salesforce";
+
+export default function CompareOrgsScreen() {
+  const { connections, activeOrgId, getOrgClient } = useAuth();
+  const [sourceId, setSourceId] = useState<string | null>(activeOrgId);
+  const [targetId, setTargetId] = useState<string | null>(
+    connections.find(connection => connection.id !== activeOrgId)?.id ?? null
+  );
+  const [includeStandardObjects, setIncludeStandardObjects] = useState(false);
+  const [progress, setProgress] = useState<(SearchProgress & { orgName: string }) | null>(null);
+
+  const getName = (orgId: string) => connections.find(connection => connection.id === orgId)?.name || orgId;
+
+  // The org's client refreshes a revoked token on its own, so inactive orgs need no extra handling
+  const captureOrg = async (orgId: string, options: CaptureOptions) => {
+    const orgName = getName(orgId);
+    const client = await getOrgClient(orgId);
+    return captureOrgSchema(client, options, update => setProgress({ ...update, orgName }));
+  };
+
+  const comparison = useMutation({
+    mutationFn: async (): Promise<MetadataDiffResult> => {
+      if (!sourceId || !targetId) throw new Error("Pick two orgs to compare");
+      const options = { includeStandardObjects };
+      // One org at a time keeps the request rate and the progress readout sane
+      const source = await captureOrg(sourceId, options);
+      const target = await captureOrg(targetId, options);
+      return {
+        sourceName: getName(sourceId),
+        targetName: getName(targetId),
+        comparedAt: new Date().toISOString(),
+        items: diffOrgSchemas(source, target),
+        skippedCategories: getSkippedCategories(source, target),
+      };
+    },
+    onSettled: () => setProgress(null),
+  });
+
+  const renderOrgPicker = (label: string, selectedId: string | null, onSelect: (orgId: string) => void, otherId: string | null) => (
+    <View style={styles.pickerSection}>
+      <Text style={styles.pickerLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {connections.map(connection => {
+          const isSelected = connection.id === selectedId;
+          const isOther = connection.id === otherId;
+          return (
+            <TouchableOpacity
+              key={connection.id}
+              style={[styles.chip, isSelected && styles.chipActive, isOther && styles.chipDisabled]}
+              onPress={() => onSelect(connection.id)}
+              disabled={isOther || comparison.isPending}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{connection.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
+  if (connections.length < 2) {
+    return (
+      <View style={styles.centerContainer}>
+        <Stack.Screen options={{ title: "Compare Orgs" }} />
+        <GitCompare size={40} color="#C4C7C5" />
+        <Text style={styles.emptyTitle}>Add a second org</Text>
+        <Text style={styles.emptyText}>Comparing needs at least two org connections. Add one in Settings.</Text>
+      </View>
+    );
+  }
+
+  const header = (
+    <View style={styles.setupCard}>
+      {renderOrgPicker("Source", sourceId, setSourceId, targetId)}
+      {renderOrgPicker("Target", targetId, setTargetId, sourceId)}
+      <View style={styles.optionRow}>
+        <View style={styles.optionInfo}>
+          <Text style={styles.optionTitle}>Include standard objects</Text>
+          <Text style={styles.optionSubtitle}>Compare fields of every object, not only custom ones. Much slower.</Text>
+        </View>
+        <Switch
+          value={includeStandardObjects}
+          onValueChange={setIncludeStandardObjects}
+          disabled={comparison.isPending}
+        />
+      </View>
+      <TouchableOpacity
+        style={[styles.compareButton, (comparison.isPending || !sourceId || !targetId) && styles.compareButtonDisabled]}
+        onPress={() => comparison.mutate()}
+        disabled={comparison.isPending || !sourceId || !targetId}
+      >
+        {comparison.isPending ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <GitCompare size={18} color="#FFFFFF" />
+        )}
+        <Text style={styles.compareButtonText}>{comparison.isPending ? "Comparing..." : "Compare"}</Text>
+      </TouchableOpacity>
+      {progress && (
+        <Text style={styles.progressText}>
+          {progress.orgName}: {progress.label}
+          {progress.total > 1 ? ` ${progress.scanned}/${progress.total}` : ""}
+        </Text>
+      )}
+      {comparison.error && (
+        <Text style={styles.errorText}>
+          {comparison.error instanceof Error ? comparison.error.message : "Comparison failed"}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Compare Orgs" }} />
+      <MetadataDiffList result={comparison.data} header={header} filenamePrefix="org_compare" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#F8F9FA",
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#16325C",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#5F6368",
+    textAlign: "center",
+  },
+  setupCard: {
+    backgroundColor: "#FFFFFF",
+    margin: 16,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E8EAED",
+  },
+  pickerSection: {
+    marginBottom: 12,
+  },
+  pickerLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5F6368",
+    textTransform: "uppercase",
+    marginBottom: 6,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    backgroundColor: "#FFFFFF",
+  },
+  chipActive: {
+    backgroundColor: "#1B96FF",
+    borderColor: "#1B96FF",
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  optionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#202124",
+  },
+  optionSubtitle: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 2,
+  },
+  compareButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#1B96FF",
+    borderRadius: 10,
+    paddingVertical: 12,
+  },
+  compareButtonDisabled: {
+    opacity: 0.6,
+  },
+  compareButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  progressText: {
+    fontSize: 13,
+    color: "#5F6368",
+    textAlign: "center",
+    marginTop: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#D32F2F",
+    textAlign: "center",
+    marginTop: 10,
+  },
+});
@@ -0,0 +1,609 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+} from "react-native";
+import { Stack, router, useLocalSearchParams } from "expo-router";
+import { Minus, Plus, ZoomIn, ZoomOut, ExternalLink, Crosshair, X } from "lucide-react-native";
+import { useQueries } from "@tanstack/react-query";
+import Svg, { Circle, G, Line, Rect, Text as SvgText } from "react-native-svg";
+import { useAuth } from "@/providers/auth-provider";
+import { fetchObjectRelationships } from "@/services/salesforce";
+import type { ObjectRelationship, ObjectRelationships } from "@/types/salesforce";
+
+const NODE_HEIGHT = 32;
+// Distance between rings, and the minimum arc between two nodes on a ring
+const RING_SPACING = 170;
+const NODE_SPACING = 140;
+const CANVAS_PADDING = 40;
+const MAX_NEIGHBOURS = 16;
+const MAX_NODES = 80;
+const MAX_DEPTH = 2;
+
+// Audit lookups and platform tables that every object has
+const SYSTEM_FIELDS = ['CreatedById', 'LastModifiedById'];
+const SYSTEM_CHILD_OBJECTS = [
+  'AttachedContentDocument',
+  'Attachment',
+  'CombinedAttachment',
+  'ContentDocumentLink',
+  'ContentDistribution',
+  'ContentVersion',
+  'DuplicateRecordItem',
+  'EntitySubscription',
+  'FeedComment',
+  'FlowRecordRelation',
+  'Note',
+  'NoteAndAttachment',
+  'ProcessException',
+  'ProcessInstance',
+  'ProcessInstanceHistory',
+  'RecordAction',
+  'TopicAssignment',
+];
+
+interface GraphNode {
+  name: string;
+  x: number;
+  y: number;
+  depth: number;
+  angle: number;
+  radius: number;
+  width: number;
+  expanded: boolean;
+  loading: boolean;
+  hiddenCount: number;
+}
+
+interface GraphEdge {
+  key: string;
+  // The object holding the reference field, and the object it points to
+  child: string;
+  parent: string;
+  field: string;
+  kind: ObjectRelationship['kind'];
+}
+
+function isSystemRelationship(rel: ObjectRelationship): boolean {
+  if (SYSTEM_FIELDS.includes(rel.field)) return true;
+  return rel.direction === 'child'
+    && (SYSTEM_CHILD_OBJECTS.includes(rel.objectName) || /(History|Share|Feed|ChangeEvent)$/.test(rel.objectName));
+}
+
+const getNodeWidth = (name: string) => Math.max(80, name.length * 7 + 24);
+
+// Radial layout: the centre object in the middle, each expanded object's neighbours on the next ring
+function layoutGraph(
+  center: string,
+  depth: number,
+  toggled: string[],
+  data: Record<string, ObjectRelationships>,
+  showSystem: boolean
+) {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const wanted: string[] = [];
+
+  nodes.set(center, {
+    name: center,
+    x: 0,
+    y: 0,
+    depth: 0,
+    angle: 0,
+    radius: 0,
+    width: getNodeWidth(center),
+    expanded: false,
+    loading: false,
+    hiddenCount: 0,
+  });
+
+  const queue = [center];
+  while (queue.length > 0) {
+    const node = nodes.get(queue.shift()!)!;
+    // Nodes inside the depth are expanded unless toggled closed, and vice versa
+    node.expanded = (node.depth < depth) !== toggled.includes(node.name);
+    if (!node.expanded) continue;
+
+    wanted.push(node.name);
+    const info = data[node.name];
+    if (!info) {
+      node.loading = true;
+      continue;
+    }
+
+    const visible = info.relationships.filter(
+      rel => rel.objectName !== node.name && (showSystem || !isSystemRelationship(rel))
+    );
+    const neighbours = Array.from(new Set(
+      [...visible]
+        .sort((a, b) => (a.kind === b.kind ? a.objectName.localeCompare(b.objectName) : a.kind === 'master-detail' ? -1 : 1))
+        .map(rel => rel.objectName)
+    ));
+    const shown = neighbours.slice(0, MAX_NEIGHBOURS);
+    node.hiddenCount = neighbours.length - shown.length;
+
+    const added = shown.filter(name => !nodes.has(name)).slice(0, Math.max(0, MAX_NODES - nodes.size));
+    const radius = node.depth === 0
+      ? Math.max(RING_SPACING, (added.length * NODE_SPACING) / (2 * Math.PI))
+      : node.radius + RING_SPACING;
+    const step = node.depth === 0 ? (2 * Math.PI) / Math.max(1, added.length) : NODE_SPACING / radius;
+    const start = node.depth === 0 ? -Math.PI / 2 : node.angle - (step * (added.length - 1)) / 2;
+
+    added.forEach((name, i) => {
+      const angle = start + step * i;
+      nodes.set(name, {
+        name,
+        x: Math.cos(angle) * radius,
+        y: Math.sin(angle) * radius,
+        depth: node.depth + 1,
+        angle,
+        radius,
+        width: getNodeWidth(name),
+        expanded: false,
+        loading: false,
+        hiddenCount: 0,
+      });
+      queue.push(name);
+    });
+
+    visible
+      .filter(rel => nodes.has(rel.objectName))
+      .forEach(rel => {
+        const child = rel.direction === 'child' ? rel.objectName : node.name;
+        const parent = rel.direction === 'child' ? node.name : rel.objectName;
+        const key = `${child}.${rel.field}->${parent}`;
+        edges.set(key, { key, child, parent, field: rel.field, kind: rel.kind });
+      });
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()), wanted };
+}
+
+// Where the line from a node's centre towards another point leaves the node's box
+function clipToNode(node: GraphNode, towardsX: number, towardsY: number) {
+  const dx = towardsX - node.x;
+  const dy = towardsY - node.y;
+  if (dx === 0 && dy === 0) return { x: node.x, y: node.y };
+  const scale = Math.min(
+    dx !== 0 ? node.width / 2 / Math.abs(dx) : Infinity,
+    dy !== 0 ? NODE_HEIGHT / 2 / Math.abs(dy) : Infinity
+  );
+  return { x: node.x + dx * scale, y: node.y + dy * scale };
+}
+
+export default function ObjectErdScreen() {
+  const { objectName } = useLocalSearchParams<{ objectName: string }>();
+  const { client, instanceUrl, activeOrgId } = useAuth();
+
+  const [center, setCenter] = useState(objectName);
+  const [depth, setDepth] = useState(1);
+  const [toggled, setToggled] = useState<string[]>([]);
+  const [showSystem, setShowSystem] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [selected, setSelected] = useState<string | null>(null);
+  // Objects whose relationships are needed by the current layout; grows as describes come back
+  const [wanted, setWanted] = useState<string[]>([objectName]);
+
+  // Combined into plain objects so React Query keeps them referentially stable between renders
+  const { data, errors } = useQueries({
+    queries: wanted.map(name => ({
+      queryKey: ["object-relationships", activeOrgId, name, instanceUrl],
+      queryFn: ({ signal }) => fetchObjectRelationships(client!.withSignal(signal), name),
+      enabled: !!client,
+    })),
+    combine: results => ({
+      data: Object.fromEntries(
+        results.flatMap((result, i) => (result.data ? [[wanted[i], result.data]] : []))
+      ) as Record<string, ObjectRelationships>,
+      errors: Object.fromEntries(
+        results.flatMap((result, i) => (result.error ? [[wanted[i], result.error]] : []))
+      ) as Record<string, Error>,
+    }),
+  });
+
+  const graph = useMemo(
+    () => layoutGraph(center, depth, toggled, data, showSystem),
+    [center, depth, toggled, data, showSystem]
+  );
+
+  useEffect(() => {
+    const missing = graph.wanted.filter(name => !wanted.includes(name));
+    if (missing.length > 0) {
+      setWanted(prev => [...prev, ...missing.filter(name => !prev.includes(name))]);
+    }
+  }, [graph.wanted, wanted]);
+
+  const centerError = errors[center];
+  const isLoading = graph.nodes.some(node => node.loading);
+
+  const bounds = useMemo(() => {
+    const xs = graph.nodes.flatMap(node => [node.x - node.width / 2, node.x + node.width / 2]);
+    const ys = graph.nodes.flatMap(node => [node.y - NODE_HEIGHT / 2, node.y + NODE_HEIGHT / 2]);
+    const minX = Math.min(...xs) - CANVAS_PADDING;
+    const minY = Math.min(...ys) - CANVAS_PADDING;
+    return {
+      minX,
+      minY,
+      width: Math.max(...xs) + CANVAS_PADDING - minX,
+      height: Math.max(...ys) + CANVAS_PADDING - minY,
+    };
+  }, [graph.nodes]);
+
+  const nodesByName = useMemo(() => new Map(graph.nodes.map(node => [node.name, node])), [graph.nodes]);
+  const selectedNode = selected ? nodesByName.get(selected) : undefined;
+  const selectedEdges = selected
+    ? graph.edges.filter(edge => edge.child === selected || edge.parent === selected)
+    : [];
+
+  const recenter = (name: string) => {
+    setCenter(name);
+    setToggled([]);
+    setSelected(null);
+  };
+
+  const toggleExpanded = (name: string) => {
+    setToggled(prev => (prev.includes(name) ? prev.filter(item => item !== name) : [...prev, name]));
+  };
+
+  if (centerError) {
+    return (
+      <View style={styles.centerContainer}>
+        <Stack.Screen options={{ title: `${center} ERD` }} />
+        <Text style={styles.errorText}>Failed to load relationships</Text>
+        <Text style={styles.errorSubtext}>
+          {centerError instanceof Error ? centerError.message : String(centerError)}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: `${center} ERD` }} />
+
+      <View style={styles.toolbar}>
+        <View style={styles.toolbarGroup}>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={() => setDepth(Math.max(1, depth - 1))}
+            disabled={depth <= 1}
+          >
+            <Minus size={16} color={depth <= 1 ? "#BDC1C6" : "#1565C0"} />
+          </TouchableOpacity>
+          <Text style={styles.toolbarLabel}>Depth {depth}</Text>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={() => setDepth(Math.min(MAX_DEPTH, depth + 1))}
+            disabled={depth >= MAX_DEPTH}
+          >
+            <Plus size={16} color={depth >= MAX_DEPTH ? "#BDC1C6" : "#1565C0"} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.toolbarGroup}>
+          <TouchableOpacity style={styles.toolbarButton} onPress={() => setZoom(Math.max(0.4, zoom - 0.2))}>
+            <ZoomOut size={16} color="#1565C0" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.toolbarButton} onPress={() => setZoom(Math.min(2, zoom + 0.2))}>
+            <ZoomIn size={16} color="#1565C0" />
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity
+          style={[styles.systemToggle, showSystem && styles.systemToggleActive]}
+          onPress={() => setShowSystem(!showSystem)}
+        >
+          <Text style={[styles.systemToggleText, showSystem && styles.systemToggleTextActive]}>
+            System
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendLine, { backgroundColor: "#1565C0" }]} />
+          <Text style={styles.legendText}>Master-detail</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendLine, { backgroundColor: "#9AA0A6" }]} />
+          <Text style={styles.legendText}>Lookup</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={styles.legendDot} />
+          <Text style={styles.legendText}>Parent end</Text>
+        </View>
+        {isLoading && <ActivityIndicator size="small" color="#0176D3" />}
+      </View>
+
+      <ScrollView style={styles.canvas} contentContainerStyle={styles.canvasContent}>
+        <ScrollView horizontal contentContainerStyle={styles.canvasContent}>
+          <Svg
+            width={bounds.width * zoom}
+            height={bounds.height * zoom}
+            viewBox={`${bounds.minX} ${bounds.minY} ${bounds.width} ${bounds.height}`}
+          >
+            {graph.edges.map(edge => {
+              const child = nodesByName.get(edge.child)!;
+              const parent = nodesByName.get(edge.parent)!;
+              const start = clipToNode(child, parent.x, parent.y);
+              const end = clipToNode(parent, child.x, child.y);
+              const highlighted = selected === edge.child || selected === edge.parent;
+              const color = edge.kind === 'master-detail' ? "#1565C0" : "#9AA0A6";
+              return (
+                <G key={edge.key} opacity={selected && !highlighted ? 0.25 : 1}>
+                  <Line
+                    x1={start.x}
+                    y1={start.y}
+                    x2={end.x}
+                    y2={end.y}
+                    stroke={color}
+                    strokeWidth={edge.kind === 'master-detail' ? 2 : 1.5}
+                    strokeDasharray={edge.kind === 'master-detail' ? undefined : "5 4"}
+                  />
+                  <Circle cx={end.x} cy={end.y} r={4} fill={color} />
+                </G>
+              );
+            })}
+            {graph.nodes.map(node => {
+              const isCenter = node.name === center;
+              const isSelected = node.name === selected;
+              return (
+                <G key={node.name} onPress={() => setSelected(node.name)}>
+                  <Rect
+                    x={node.x - node.width / 2}
+                    y={node.y - NODE_HEIGHT / 2}
+                    width={node.width}
+                    height={NODE_HEIGHT}
+                    rx={8}
+                    fill={isCenter ? "#1B96FF" : node.expanded ? "#E3F2FD" : "#FFFFFF"}
+                    stroke={isSelected ? "#F57C00" : isCenter ? "#1B96FF" : node.expanded ? "#90CAF9" : "#DADCE0"}
+                    strokeWidth={isSelected ? 3 : 1}
+                  />
+                  <SvgText
+                    x={node.x}
+                    y={node.y + 4}
+                    fontSize={12}
+                    fontWeight={isCenter ? "700" : "500"}
+                    fill={isCenter ? "#FFFFFF" : "#202124"}
+                    textAnchor="middle"
+                  >
+                    {node.loading ? `${node.name} …` : node.name}
+                  </SvgText>
+                  {node.hiddenCount > 0 && (
+                    <SvgText
+                      x={node.x}
+                      y={node.y + NODE_HEIGHT / 2 + 12}
+                      fontSize={10}
+                      fill="#5F6368"
+                      textAnchor="middle"
+                    >
+                      {`+${node.hiddenCount} more`}
+                    </SvgText>
+                  )}
+                </G>
+              );
+            })}
+          </Svg>
+        </ScrollView>
+      </ScrollView>
+
+      {selectedNode && (
+        <View style={styles.detailPanel}>
+          <View style={styles.detailHeader}>
+            <Text style={styles.detailTitle}>{selectedNode.name}</Text>
+            <TouchableOpacity onPress={() => setSelected(null)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <X size={18} color="#5F6368" />
+            </TouchableOpacity>
+          </View>
+          {selectedEdges.slice(0, 4).map(edge => (
+            <Text key={edge.key} style={styles.detailEdge} numberOfLines={1}>
+              {edge.child}.{edge.field} → {edge.parent} ({edge.kind})
+            </Text>
+          ))}
+          {selectedEdges.length > 4 && (
+            <Text style={styles.detailEdge}>and {selectedEdges.length - 4} more</Text>
+          )}
+          <View style={styles.detailActions}>
+            <TouchableOpacity
+              style={styles.detailButton}
+              onPress={() => router.push(`/(tabs)/(objects)/${selectedNode.name}`)}
+            >
+              <ExternalLink size={14} color="#FFFFFF" />
+              <Text style={styles.detailButtonText}>Open</Text>
+            </TouchableOpacity>
+            {selectedNode.name !== center && (
+              <>
+                <TouchableOpacity style={styles.detailButtonSecondary} onPress={() => toggleExpanded(selectedNode.name)}>
+                  <Text style={styles.detailButtonSecondaryText}>
+                    {selectedNode.expanded ? 'Collapse' : 'Expand'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.detailButtonSecondary} onPress={() => recenter(selectedNode.name)}>
+                  <Crosshair size={14} color="#1565C0" />
+                  <Text style={styles.detailButtonSecondaryText}>Center</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: "#D32F2F",
+    textAlign: "center",
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  errorSubtext: {
+    fontSize: 13,
+    color: "#5F6368",
+    textAlign: "center",
+  },
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#FFFFFF",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E8EAED",
+  },
+  toolbarGroup: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  toolbarButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: "#E8F0FE",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  toolbarLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#202124",
+  },
+  systemToggle: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    backgroundColor: "#FFFFFF",
+  },
+  systemToggleActive: {
+    backgroundColor: "#1B96FF",
+    borderColor: "#1B96FF",
+  },
+  systemToggleText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  systemToggleTextActive: {
+    color: "#FFFFFF",
+  },
+  legend: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendLine: {
+    width: 18,
+    height: 2,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#5F6368",
+  },
+  legendText: {
+    fontSize: 12,
+    color: "#5F6368",
+  },
+  canvas: {
+    flex: 1,
+  },
+  canvasContent: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  detailPanel: {
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#E8EAED",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.08,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  detailHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  detailTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#202124",
+  },
+  detailEdge: {
+    fontSize: 12,
+    color: "#5F6368",
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    lineHeight: 18,
+  },
+  detailActions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  detailButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#1B96FF",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  detailButtonText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  detailButtonSecondary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#E8F0FE",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  detailButtonSecondaryText: {
+    color: "#1565C0",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useMemo } from "react";
 import {
   View,
   Text,
@@ -9,12 +9,37 @@ import {
   Platform,
 } from "react-native";
 import { useLocalSearchParams, router } from "expo-router";
-import { FileCode, Code, FileText, ChevronRight, List, ExternalLink } from "lucide-react-native";
-import { useQuery } from "@tanstack/react-query";
+import { FileCode, Code, FileText, ChevronRight, List, ExternalLink, ShieldCheck, ShieldAlert, RefreshCw } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/providers/auth-provider";
-import { fetchFieldMetadata } from "@/services/salesforce";
+import { fetchFieldMetadata, fetchFieldPopulation, fetchObjectDescribe } from "@/services/salesforce";
+import { withCache } from "@/services/cache";
+import { loadMetadataIndex } from "@/services/metadata-index";
+import { confirmApiUsage, estimateFieldReferenceScanCalls } from "@/services/limits";
+import { PERSISTED_QUERY_TTLS } from "@/services/query-persistence";
+import { fetchFieldAuditEntries } from "@/services/audit-trail";
+import { NotConnectedError, type PartialFailure, type SalesforceClient } from "@/services/salesforce-client";
 import type { MetadataReference } from "@/types/salesforce";
 import { hasStandardValues } from "@/constants/standard-field-values";
+import { REFERENCE_CONFIDENCE } from "@/constants/reference-confidence";
+
+// Counting records can be slow on large objects, so results are kept for a day per org
+const POPULATION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Reference results are kept as long as they are persisted; an index older than that is too old
+// to call a field safe to delete
+const REFERENCES_MAX_AGE_MS = PERSISTED_QUERY_TTLS["field-references"];
+
+interface FieldReferenceScan {
+  references: MetadataReference[];
+  // False when Apex, flow and component sources were skipped to save API requests
+  sourcesScanned: boolean;
+  // Last sync of the offline index the sources came from, null when it never finished one;
+  // undefined when the sources were read from the org or skipped
+  indexSyncedAt?: string | null;
+  // Reads that failed or timed out, so a reference could be missing
+  failures: PartialFailure[];
+}
 
 export default function FieldDetailsScreen() {
   const { objectName, fieldName, fieldLabel, fieldType } = useLocalSearchParams<{
@@ -24,15 +49,343 @@ export default function FieldDetailsScreen() {
     fieldType: string;
   }>();
 
-  const { accessToken, instanceUrl } = useAuth();
+  const { client, instanceUrl, activeOrgId } = useAuth();
+  const queryClient = useQueryClient();
 
   const hasStandardFieldValues = hasStandardValues(objectName, fieldName);
 
-  const { data: metadata = [], isLoading, error } = useQuery({
-    queryKey: ["field-metadata", objectName, fieldName, instanceUrl, accessToken],
-    queryFn: () => fetchFieldMetadata(instanceUrl!, accessToken!, objectName, fieldName),
-    enabled: !!accessToken && !!instanceUrl && !!objectName && !!fieldName,
+  // The client appears once the org's API versions are known; actions started before then fail
+  // with a message instead of a null dereference
+  const requireClient = () => {
+    if (!client) throw new NotConnectedError();
+    return client;
+  };
+
+  // Same key as the search screen; sources are read from the index instead of downloaded
+  const { data: metadataIndex = null, isLoading: isIndexLoading } = useQuery({
+    queryKey: ["metadata-index", activeOrgId, instanceUrl],
+    queryFn: () => loadMetadataIndex(instanceUrl!),
+    enabled: !!instanceUrl,
+    networkMode: "always",
+  });
+
+  const referencesQueryKey = [
+    "field-references", activeOrgId, objectName, fieldName, instanceUrl,
+    metadataIndex ? metadataIndex.lastSync ?? "incomplete" : null,
+  ];
+  const loadReferences = async (referenceClient: SalesforceClient, scanSources: boolean): Promise<FieldReferenceScan> => {
+    const failures: PartialFailure[] = [];
+    const fieldClient = referenceClient.withPartialFailureListener(failure => failures.push(failure));
+    const references = await fetchFieldMetadata(fieldClient, objectName, fieldName, {
+      index: metadataIndex,
+      scanSources,
+    });
+    return {
+      references,
+      sourcesScanned: !!metadataIndex || scanSources,
+      indexSyncedAt: metadataIndex ? metadataIndex.lastSync : undefined,
+      failures,
+    };
+  };
+
+  // Without an index only the dependency API and declarative logic are read here; downloading
+  // every source waits for "Scan Sources"
+  const { data: referenceScan, isLoading, error } = useQuery({
+    queryKey: referencesQueryKey,
+    queryFn: ({ signal }) => loadReferences(requireClient().withSignal(signal), false),
+    enabled: !!client && !!objectName && !!fieldName && !isIndexLoading,
+    staleTime: REFERENCES_MAX_AGE_MS,
+  });
+
+  const scanSourcesMutation = useMutation({
+    mutationFn: async (): Promise<FieldReferenceScan | null> => {
+      const scanClient = requireClient();
+      // Every source is downloaded, so a scan that is large for the budget asks first
+      const confirmed = await confirmApiUsage(
+        scanClient,
+        "Checking every Apex class, flow and component for this field",
+        await estimateFieldReferenceScanCalls(scanClient)
+      );
+      return confirmed ? loadReferences(scanClient, true) : null;
+    },
+    onSuccess: scan => {
+      if (scan) queryClient.setQueryData(referencesQueryKey, scan);
+    },
   });
+  const metadata = useMemo(() => referenceScan?.references ?? [], [referenceScan]);
+
+  const populationQueryKey = ["field-population", activeOrgId, objectName, fieldName, instanceUrl];
+  const loadPopulation = (force: boolean) => {
+    const populationClient = requireClient();
+    return withCache(
+      populationClient.instanceUrl,
+      `population_${objectName}.${fieldName}`,
+      POPULATION_MAX_AGE_MS,
+      () => fetchFieldPopulation(populationClient, objectName, fieldName),
+      force
+    );
+  };
+
+  const {
+    data: population,
+    isLoading: isPopulationLoading,
+    error: populationError,
+  } = useQuery({
+    queryKey: populationQueryKey,
+    queryFn: () => loadPopulation(false),
+    enabled: !!client && !!objectName && !!fieldName,
+  });
+
+  const refreshPopulationMutation = useMutation({
+    mutationFn: () => loadPopulation(true),
+    onSuccess: (entry) => {
+      queryClient.setQueryData(populationQueryKey, entry);
+    },
+  });
+
+  // Same key as the object screen, which usually has it cached already
+  const { data: describe, isLoading: isDescribeLoading } = useQuery({
+    queryKey: ["salesforce-describe", activeOrgId, objectName, instanceUrl],
+    queryFn: ({ signal }) => fetchObjectDescribe(requireClient().withSignal(signal), objectName),
+    enabled: !!client && !!objectName,
+  });
+
+  // Labels help match audit entries, which name most fields by label rather than API name
+  const { data: auditEntries = [], isLoading: isAuditLoading, error: auditError } = useQuery({
+    queryKey: ["field-audit", activeOrgId, objectName, fieldName, instanceUrl],
+    queryFn: () =>
+      fetchFieldAuditEntries(requireClient(), {
+        objectName,
+        objectLabel: describe?.label,
+        objectLabelPlural: describe?.labelPlural,
+        fieldName,
+        fieldLabel,
+      }),
+    enabled: !!client && !!objectName && !!fieldName && !isDescribeLoading,
+  });
+
+  // Reference groups (Apex Class, Formula Field, Validation Rule...) in order of first appearance
+  const referenceGroups = useMemo(() => {
+    const groups: Record<string, MetadataReference[]> = {};
+    metadata.forEach(item => {
+      if (!groups[item.type]) {
+        groups[item.type] = [];
+      }
+      groups[item.type].push(item);
+    });
+    return Object.entries(groups);
+  }, [metadata]);
+
+  const definiteReferences = metadata.filter(item => item.confidence !== 'possible');
+  const possibleReferences = metadata.length - definiteReferences.length;
+
+  const indexSyncedAt = referenceScan?.indexSyncedAt;
+  const usedIndex = indexSyncedAt !== undefined;
+  const isIndexStale = usedIndex && (!indexSyncedAt || Date.now() - Date.parse(indexSyncedAt) > REFERENCES_MAX_AGE_MS);
+
+  const renderIndexAge = () => usedIndex && (
+    <Text style={styles.deleteSummaryNote}>
+      {indexSyncedAt
+        ? `Code checked against the offline index, synced ${new Date(indexSyncedAt).toLocaleString()}`
+        : "Code checked against an offline index that never finished syncing"}
+    </Text>
+  );
+
+  const renderDeleteSummary = () => {
+    if (!fieldName?.endsWith('__c')) {
+      return (
+        <View style={[styles.deleteSummary, styles.deleteSummaryNeutral]}>
+          <ShieldAlert size={20} color="#5F6368" />
+          <View style={styles.deleteSummaryInfo}>
+            <Text style={styles.deleteSummaryTitle}>Standard field</Text>
+            <Text style={styles.deleteSummaryText}>Standard fields cannot be deleted</Text>
+          </View>
+        </View>
+      );
+    }
+
+    if (definiteReferences.length > 0) {
+      const breakdown = referenceGroups
+        .map(([type, items]) => [type, items.filter(item => item.confidence !== 'possible').length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([type, count]) => `${count} ${type}`)
+        .join(' · ');
+      return (
+        <View style={[styles.deleteSummary, styles.deleteSummaryBlocked]}>
+          <ShieldAlert size={20} color="#C5221F" />
+          <View style={styles.deleteSummaryInfo}>
+            <Text style={[styles.deleteSummaryTitle, { color: "#C5221F" }]}>
+              Not safe to delete
+            </Text>
+            <Text style={styles.deleteSummaryText}>
+              Used by {definiteReferences.length} component{definiteReferences.length !== 1 ? 's' : ''}: {breakdown}
+            </Text>
+            {renderIndexAge()}
+          </View>
+        </View>
+      );
+    }
+
+    // A read that failed could have held the only reference, so "safe" cannot be claimed
+    if (referenceScan && referenceScan.failures.length > 0) {
+      const sources = Array.from(new Set(referenceScan.failures.map(failure => failure.source)));
+      return (
+        <View style={[styles.deleteSummary, styles.deleteSummaryNeutral]}>
+          <ShieldAlert size={20} color="#B06000" />
+          <View style={styles.deleteSummaryInfo}>
+            <Text style={[styles.deleteSummaryTitle, { color: "#B06000" }]}>Reference check incomplete</Text>
+            <Text style={styles.deleteSummaryText}>
+              Cannot confirm this field is unused. Could not read: {sources.join(', ')}
+            </Text>
+            {renderIndexAge()}
+          </View>
+        </View>
+      );
+    }
+
+    if (referenceScan && !referenceScan.sourcesScanned) {
+      return (
+        <View style={[styles.deleteSummary, styles.deleteSummaryNeutral]}>
+          <ShieldAlert size={20} color="#5F6368" />
+          <View style={styles.deleteSummaryInfo}>
+            <Text style={styles.deleteSummaryTitle}>Code not checked</Text>
+            <Text style={styles.deleteSummaryText}>
+              Apex, flows and components were not downloaded, to save API requests. Scan them now, or build the offline index in Search.
+            </Text>
+            <TouchableOpacity
+              style={styles.scanSourcesButton}
+              onPress={() => scanSourcesMutation.mutate()}
+              disabled={!client || scanSourcesMutation.isPending}
+            >
+              {scanSourcesMutation.isPending
+                ? <ActivityIndicator size="small" color="#0176D3" />
+                : <Text style={styles.auditLink}>Scan Sources</Text>}
+            </TouchableOpacity>
+            {scanSourcesMutation.error && (
+              <Text style={styles.populationError}>
+                {scanSourcesMutation.error instanceof Error ? scanSourcesMutation.error.message : "Scan failed"}
+              </Text>
+            )}
+          </View>
+        </View>
+      );
+    }
+
+    // An old index may be missing code written since, so it only speaks for its sync date
+    if (isIndexStale) {
+      return (
+        <View style={[styles.deleteSummary, styles.deleteSummaryNeutral]}>
+          <ShieldAlert size={20} color="#B06000" />
+          <View style={styles.deleteSummaryInfo}>
+            <Text style={[styles.deleteSummaryTitle, { color: "#B06000" }]}>
+              {indexSyncedAt
+                ? `No references found in index as of ${new Date(indexSyncedAt).toLocaleDateString()}`
+                : "No references found in the incomplete index"}
+            </Text>
+            <Text style={styles.deleteSummaryText}>
+              Refresh the offline index in Search before deleting this field.
+            </Text>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.deleteSummary, styles.deleteSummarySafe]}>
+        <ShieldCheck size={20} color="#137333" />
+        <View style={styles.deleteSummaryInfo}>
+          <Text style={[styles.deleteSummaryTitle, { color: "#137333" }]}>
+            {possibleReferences > 0 ? 'Probably safe to delete' : 'Safe to delete'}
+          </Text>
+          <Text style={styles.deleteSummaryText}>
+            {possibleReferences > 0
+              ? `No confirmed references. Review ${possibleReferences} possible match${possibleReferences !== 1 ? 'es' : ''} below first.`
+              : 'No code, automation, formulas or layouts reference this field'}
+          </Text>
+          {renderIndexAge()}
+        </View>
+      </View>
+    );
+  };
+
+  const renderPopulation = () => {
+    const refreshError = refreshPopulationMutation.error || populationError;
+    if (isPopulationLoading || refreshPopulationMutation.isPending) {
+      return (
+        <View style={styles.populationLoading}>
+          <ActivityIndicator size="small" color="#0176D3" />
+          <Text style={styles.populationNote}>Counting records...</Text>
+        </View>
+      );
+    }
+    if (refreshError || !population) {
+      return (
+        <Text style={styles.populationError}>
+          {refreshError instanceof Error ? refreshError.message : 'Could not count records for this field'}
+        </Text>
+      );
+    }
+
+    const stats = population.value;
+    const base = stats.method === 'sample' ? stats.sampleSize || 0 : stats.totalRecords;
+    const percent = base > 0 ? (stats.populatedRecords / base) * 100 : 0;
+
+    return (
+      <>
+        <View style={styles.populationRow}>
+          <Text style={styles.populationPercent}>{base > 0 ? `${percent.toFixed(1)}%` : '—'}</Text>
+          <Text style={styles.populationCounts}>
+            {stats.populatedRecords.toLocaleString()} of {base.toLocaleString()}
+            {stats.method === 'sample' ? ' recent' : ''} records
+          </Text>
+        </View>
+        <View style={styles.populationTrack}>
+          <View style={[styles.populationFill, { width: `${percent}%` }]} />
+        </View>
+        <Text style={styles.populationNote}>
+          Last populated: {stats.lastPopulatedDate ? new Date(stats.lastPopulatedDate).toLocaleDateString() : 'never'}
+        </Text>
+        {stats.method === 'sample' && (
+          <Text style={styles.populationNote}>
+            This field type cannot be filtered in SOQL, so only the {base.toLocaleString()} most recently modified of{' '}
+            {stats.totalRecords.toLocaleString()} records were checked
+          </Text>
+        )}
+        <Text style={styles.populationNote}>
+          Counted {new Date(population.storedAt).toLocaleString()}
+        </Text>
+      </>
+    );
+  };
+
+  const renderAuditEntries = () => {
+    if (isDescribeLoading || isAuditLoading) {
+      return (
+        <View style={styles.populationLoading}>
+          <ActivityIndicator size="small" color="#0176D3" />
+          <Text style={styles.populationNote}>Reading Setup Audit Trail...</Text>
+        </View>
+      );
+    }
+    if (auditError) {
+      return (
+        <Text style={styles.populationError}>
+          {auditError instanceof Error ? auditError.message : 'Could not read the Setup Audit Trail'}
+        </Text>
+      );
+    }
+    if (auditEntries.length === 0) {
+      return <Text style={styles.populationNote}>No recent setup changes mention this field</Text>;
+    }
+    return auditEntries.map(entry => (
+      <View key={entry.id} style={styles.auditEntry}>
+        <Text style={styles.auditDisplay}>{entry.display}</Text>
+        <Text style={styles.populationNote}>
+          {new Date(entry.createdDate).toLocaleString()} · {entry.createdBy || 'Unknown user'}
+        </Text>
+      </View>
+    ));
+  };
 
   const getFileIcon = (type: string) => {
     if (type.includes("apex") || type.includes("class")) {
@@ -53,6 +406,7 @@ export default function FieldDetailsScreen() {
           fileType: item.type,
           references: JSON.stringify(item.references),
           fieldLabel: fieldLabel || fieldName,
+          confidence: item.confidence,
         },
       });
     };
@@ -61,6 +415,7 @@ export default function FieldDetailsScreen() {
     const displayFileName = item.fileName.length > 35 
       ? item.fileName.substring(0, 35) + '...' 
       : item.fileName;
+    const confidence = REFERENCE_CONFIDENCE[item.confidence];
 
     return (
       <TouchableOpacity
@@ -76,6 +431,11 @@ export default function FieldDetailsScreen() {
           <Text style={styles.fileName} numberOfLines={1}>{displayFileName}</Text>
           <View style={styles.metadataRow}>
             <Text style={styles.fileType}>{item.type}</Text>
+            <View style={[styles.confidenceBadge, { backgroundColor: confidence.backgroundColor }]}>
+              <Text style={[styles.confidenceText, { color: confidence.color }]}>
+                {confidence.label}
+              </Text>
+            </View>
             <View style={styles.referencesCountBadge}>
               <Text style={styles.referencesCount}>
                 {item.references.length}
@@ -138,11 +498,46 @@ export default function FieldDetailsScreen() {
         </View>
       )}
 
+      <View style={styles.populationCard}>
+        <View style={styles.populationHeader}>
+          <Text style={styles.populationTitle}>Population</Text>
+          <TouchableOpacity
+            onPress={() => refreshPopulationMutation.mutate()}
+            disabled={!client || isPopulationLoading || refreshPopulationMutation.isPending}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <RefreshCw size={18} color="#0176D3" />
+          </TouchableOpacity>
+        </View>
+        {renderPopulation()}
+      </View>
+
+      <View style={styles.populationCard}>
+        <View style={styles.populationHeader}>
+          <Text style={styles.populationTitle}>Recent Changes</Text>
+          <TouchableOpacity
+            onPress={() => router.push("/(tabs)/(objects)/change-history")}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={styles.auditLink}>All changes</Text>
+          </TouchableOpacity>
+        </View>
+        {renderAuditEntries()}
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Metadata References</Text>
         <Text style={styles.sectionSubtitle}>
           Files where this field is referenced
         </Text>
+        <View style={styles.confidenceLegend}>
+          {Object.values(REFERENCE_CONFIDENCE).map(confidence => (
+            <Text key={confidence.label} style={styles.confidenceLegendItem}>
+              <Text style={{ color: confidence.color, fontWeight: "700" }}>{confidence.label}</Text>
+              {` · ${confidence.description}`}
+            </Text>
+          ))}
+        </View>
       </View>
 
       {isLoading ? (
@@ -152,14 +547,25 @@ export default function FieldDetailsScreen() {
         </View>
       ) : metadata.length > 0 ? (
         <View style={styles.metadataList}>
-          {metadata.map(renderMetadataItem)}
+          {renderDeleteSummary()}
+          {referenceGroups.map(([type, items]) => (
+            <View key={type} style={styles.referenceGroup}>
+              <Text style={styles.referenceGroupTitle}>
+                {type} ({items.length})
+              </Text>
+              {items.map(renderMetadataItem)}
+            </View>
+          ))}
         </View>
       ) : (
-        <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>No metadata references found</Text>
-          <Text style={styles.emptySubtext}>
-            This field is not referenced in any metadata files
-          </Text>
+        <View style={styles.metadataList}>
+          {renderDeleteSummary()}
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No metadata references found</Text>
+            <Text style={styles.emptySubtext}>
+              This field is not referenced in any metadata files
+            </Text>
+          </View>
         </View>
       )}
     </ScrollView>
@@ -299,6 +705,24 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     flex: 1,
   },
+  confidenceBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    marginRight: 6,
+  },
+  confidenceText: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  confidenceLegend: {
+    marginTop: 12,
+  },
+  confidenceLegendItem: {
+    fontSize: 12,
+    color: "#5F6368",
+    lineHeight: 18,
+  },
   referencesCountBadge: {
     backgroundColor: "#E3F2FD",
     paddingHorizontal: 8,
@@ -313,6 +737,63 @@ const styles = StyleSheet.create({
     fontWeight: "700",
   },
 
+  deleteSummary: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+  },
+  deleteSummarySafe: {
+    backgroundColor: "#E6F4EA",
+    borderColor: "#CEEAD6",
+  },
+  deleteSummaryBlocked: {
+    backgroundColor: "#FCE8E6",
+    borderColor: "#FAD2CF",
+  },
+  deleteSummaryNeutral: {
+    backgroundColor: "#F1F3F4",
+    borderColor: "#E8EAED",
+  },
+  deleteSummaryInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  deleteSummaryTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#202124",
+    marginBottom: 4,
+  },
+  deleteSummaryText: {
+    fontSize: 13,
+    color: "#5F6368",
+    fontWeight: "500",
+    lineHeight: 18,
+  },
+  deleteSummaryNote: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 6,
+  },
+  scanSourcesButton: {
+    alignSelf: "flex-start",
+    marginTop: 10,
+  },
+  referenceGroup: {
+    marginBottom: 8,
+  },
+  referenceGroupTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#5F6368",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
   loadingContainer: {
     alignItems: "center",
     padding: 48,
@@ -346,6 +827,85 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     lineHeight: 20,
   },
+  populationCard: {
+    backgroundColor: "#FFFFFF",
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#F1F3F4",
+  },
+  populationHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  populationTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#202124",
+  },
+  populationLoading: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  populationRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+    marginBottom: 8,
+  },
+  populationPercent: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#0176D3",
+  },
+  populationCounts: {
+    fontSize: 14,
+    color: "#5F6368",
+    fontWeight: "500",
+  },
+  populationTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E8EAED",
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  populationFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#0176D3",
+  },
+  populationNote: {
+    fontSize: 12,
+    color: "#5F6368",
+    lineHeight: 18,
+  },
+  populationError: {
+    fontSize: 13,
+    color: "#C5221F",
+    lineHeight: 18,
+  },
+  auditEntry: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#F1F3F4",
+  },
+  auditDisplay: {
+    fontSize: 14,
+    color: "#202124",
+    lineHeight: 20,
+    marginBottom: 2,
+  },
+  auditLink: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0176D3",
+  },
   standardValuesSection: {
     backgroundColor: "#FFFFFF",
     marginHorizontal: 16,
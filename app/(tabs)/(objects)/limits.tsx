@@ -0,0 +1,204 @@
+import React, { useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from "react-native";
+import { Stack } from "expo-router";
+import { Gauge } from "lucide-react-native";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/providers/auth-provider";
+import { fetchOrgLimits, groupOrgLimits } from "@/services/limits";
+import type { OrgLimit } from "@/types/salesforce";
+
+// Bar colour by share used
+const usageColor = (share: number) => share >= 0.9 ? "#C23934" : share >= 0.7 ? "#FE9339" : "#2E844A";
+
+function LimitRow({ limit }: { limit: OrgLimit }) {
+  const used = Math.max(0, limit.max - limit.remaining);
+  const share = limit.max > 0 ? Math.min(1, used / limit.max) : 0;
+  const unit = limit.unit ? ` ${limit.unit}` : "";
+
+  return (
+    <View style={styles.limitRow}>
+      <View style={styles.limitHeader}>
+        <Text style={styles.limitLabel} numberOfLines={1}>{limit.label}</Text>
+        <Text style={styles.limitPercent}>{Math.round(share * 100)}%</Text>
+      </View>
+      <View style={styles.barTrack}>
+        <View style={[styles.barFill, { width: `${share * 100}%`, backgroundColor: usageColor(share) }]} />
+      </View>
+      <Text style={styles.limitMeta}>
+        {used.toLocaleString()}{unit} used of {limit.max.toLocaleString()}{unit} · {limit.remaining.toLocaleString()}{unit} left
+      </Text>
+    </View>
+  );
+}
+
+export default function LimitsScreen() {
+  const { client, instanceUrl, activeOrgId } = useAuth();
+
+  const { data: limits, isLoading, error, refetch, isRefetching, dataUpdatedAt } = useQuery({
+    queryKey: ["org-limits", activeOrgId, instanceUrl],
+    queryFn: ({ signal }) => fetchOrgLimits(client!.withSignal(signal)),
+    enabled: !!client,
+  });
+
+  const groups = useMemo(() => groupOrgLimits(limits || []), [limits]);
+
+  if (!client) {
+    return (
+      <View style={styles.centerContainer}>
+        <Stack.Screen options={{ title: "API Limits" }} />
+        <Gauge size={40} color="#C4C7C5" />
+        <Text style={styles.emptyTitle}>Not signed in</Text>
+        <Text style={styles.emptyText}>Log in to an org to see its limits.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "API Limits" }} />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#1B96FF" style={styles.loading} />
+        ) : error ? (
+          <View style={styles.messageContainer}>
+            <Text style={styles.errorText}>Failed to load limits</Text>
+            <Text style={styles.emptyText}>{error instanceof Error ? error.message : "Unknown error"}</Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.updatedText}>
+              Updated {new Date(dataUpdatedAt).toLocaleTimeString()} · Pull to refresh
+            </Text>
+            {groups.map(group => (
+              <View key={group.title} style={styles.section}>
+                <Text style={styles.sectionTitle}>{group.title}</Text>
+                <View style={styles.card}>
+                  {group.note && <Text style={styles.noteText}>{group.note}</Text>}
+                  {group.limits.map(limit => <LimitRow key={limit.name} limit={limit} />)}
+                </View>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#F8F9FA",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#16325C",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#5F6368",
+    textAlign: "center",
+  },
+  errorText: {
+    fontSize: 16,
+    color: "#D32F2F",
+    textAlign: "center",
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  messageContainer: {
+    padding: 24,
+  },
+  updatedText: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginBottom: 12,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#5F6368",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E8EAED",
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  noteText: {
+    fontSize: 13,
+    color: "#5F6368",
+    paddingVertical: 12,
+  },
+  limitRow: {
+    paddingVertical: 12,
+  },
+  limitHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  limitLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#16325C",
+    marginRight: 8,
+  },
+  limitPercent: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#F1F3F4",
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  limitMeta: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 6,
+  },
+});
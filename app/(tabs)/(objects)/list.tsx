@@ -10,21 +10,24 @@ import {
   RefreshControl,
 } from "react-native";
 import { router } from "expo-router";
-import { ChevronRight, Package, Layers, Grid3X3, Building2 } from "lucide-react-native";
+import { ChevronRight, Package, Layers, Grid3X3, Building2, ArrowDownWideNarrow, ArrowDownAZ } from "lucide-react-native";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/providers/auth-provider";
+import { OrgSwitcher } from "@/components/org-switcher";
 import { fetchSalesforceObjects } from "@/services/salesforce";
 import type { SalesforceObject } from "@/types/salesforce";
 
 export default function ObjectsListScreen() {
   const [searchQuery, setSearchQuery] = useState("");
   const [objectFilter, setObjectFilter] = useState<'all' | 'custom' | 'standard'>('all');
-  const { accessToken, instanceUrl, isAuthenticated, isLoading } = useAuth();
+  const [sortBy, setSortBy] = useState<'name' | 'records'>('name');
+  const [emptyOnly, setEmptyOnly] = useState(false);
+  const { client, instanceUrl, activeOrgId, isAuthenticated, isLoading } = useAuth();
 
   const { data: objects = [], isLoading: isLoadingObjects, error, refetch } = useQuery({
-    queryKey: ["salesforce-objects", instanceUrl, accessToken],
-    queryFn: () => fetchSalesforceObjects(instanceUrl!, accessToken!),
-    enabled: !!accessToken && !!instanceUrl,
+    queryKey: ["salesforce-objects", activeOrgId, instanceUrl],
+    queryFn: ({ signal }) => fetchSalesforceObjects(client!.withSignal(signal)),
+    enabled: !!client,
   });
 
   const filteredObjects = useMemo(() => {
@@ -36,6 +39,10 @@ export default function ObjectsListScreen() {
       filtered = filtered.filter(obj => !obj.custom);
     }
     
+    if (emptyOnly) {
+      filtered = filtered.filter(obj => obj.recordCount === 0);
+    }
+    
     if (searchQuery) {
       filtered = filtered.filter(obj => 
         obj.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -43,8 +50,16 @@ export default function ObjectsListScreen() {
       );
     }
     
-    return filtered.sort((a, b) => a.label.localeCompare(b.label));
-  }, [objects, searchQuery, objectFilter]);
+    if (sortBy === 'records') {
+      // Objects without a count go last
+      return [...filtered].sort((a, b) =>
+        (b.recordCount ?? -1) - (a.recordCount ?? -1) || a.label.localeCompare(b.label)
+      );
+    }
+    return [...filtered].sort((a, b) => a.label.localeCompare(b.label));
+  }, [objects, searchQuery, objectFilter, sortBy, emptyOnly]);
+
+  const hasRecordCounts = objects.some(obj => obj.recordCount !== undefined);
 
   // If not authenticated, show loading or redirect
   if (isLoading) {
@@ -92,7 +107,7 @@ export default function ObjectsListScreen() {
         <Text style={styles.objectName}>{item.name}</Text>
         {item.recordCount !== undefined && (
           <Text style={styles.recordCount}>
-            {item.recordCount.toLocaleString()} records
+            {item.recordCount === 0 ? 'No records' : `~${item.recordCount.toLocaleString()} records`}
           </Text>
         )}
       </View>
@@ -114,6 +129,7 @@ export default function ObjectsListScreen() {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
+        <OrgSwitcher />
         <Text style={styles.title}>Salesforce Objects</Text>
         <Text style={styles.subtitle}>Browse and explore your org's metadata</Text>
       </View>
@@ -156,6 +172,32 @@ export default function ObjectsListScreen() {
         </TouchableOpacity>
       </View>
 
+      {hasRecordCounts && (
+        <View style={styles.filterContainer}>
+          <TouchableOpacity
+            style={[styles.filterButton, styles.sortButton]}
+            onPress={() => setSortBy(sortBy === 'name' ? 'records' : 'name')}
+          >
+            {sortBy === 'name' ? (
+              <ArrowDownAZ size={14} color="#747474" />
+            ) : (
+              <ArrowDownWideNarrow size={14} color="#747474" />
+            )}
+            <Text style={styles.filterText}>
+              {sortBy === 'name' ? 'Sort: Name' : 'Sort: Most records'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.filterButton, emptyOnly && styles.filterButtonActive]}
+            onPress={() => setEmptyOnly(!emptyOnly)}
+          >
+            <Text style={[styles.filterText, emptyOnly && styles.filterTextActive]}>
+              Empty ({objects.filter(o => o.recordCount === 0).length})
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {isLoadingObjects ? (
         <View style={styles.centerContainer}>
           <ActivityIndicator size="large" color="#0176D3" />
@@ -177,7 +219,7 @@ export default function ObjectsListScreen() {
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
               <Text style={styles.emptyText}>
-                {searchQuery ? "No objects found" : "No objects available"}
+                {searchQuery || emptyOnly ? "No objects found" : "No objects available"}
               </Text>
             </View>
           }
@@ -258,6 +300,11 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 1,
   },
+  sortButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
   filterButtonActive: {
     backgroundColor: "#1B96FF",
     borderColor: "#1B96FF",
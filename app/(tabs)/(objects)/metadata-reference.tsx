@@ -8,20 +8,24 @@ import {
 } from "react-native";
 import { useLocalSearchParams } from "expo-router";
 import { FileCode, Code, FileText } from "lucide-react-native";
-import type { MetadataReference } from "@/types/salesforce";
+import type { ReferenceConfidence } from "@/types/salesforce";
+import { REFERENCE_CONFIDENCE } from "@/constants/reference-confidence";
 
 export default function MetadataReferenceScreen() {
   const { 
     fileName, 
     fileType, 
     references, 
-    fieldLabel 
+    fieldLabel,
+    confidence,
   } = useLocalSearchParams<{
     fileName: string;
     fileType: string;
     references: string;
     fieldLabel: string;
+    confidence: ReferenceConfidence;
   }>();
+  const confidenceStyle = confidence ? REFERENCE_CONFIDENCE[confidence] : null;
 
   let parsedReferences: any[] = [];
   try {
@@ -52,6 +56,16 @@ export default function MetadataReferenceScreen() {
           <Text style={styles.fileName}>{fileName}</Text>
           <Text style={styles.fileType}>{fileType}</Text>
           <Text style={styles.fieldReference}>References: {fieldLabel}</Text>
+          {confidenceStyle && (
+            <Text
+              style={[
+                styles.confidenceChip,
+                { color: confidenceStyle.color, backgroundColor: confidenceStyle.backgroundColor },
+              ]}
+            >
+              {confidenceStyle.label} · {confidenceStyle.description}
+            </Text>
+          )}
         </View>
       </View>
 
@@ -156,6 +170,15 @@ const styles = StyleSheet.create({
     alignSelf: "flex-start",
     fontWeight: "600",
   },
+  confidenceChip: {
+    fontSize: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    alignSelf: "flex-start",
+    fontWeight: "600",
+    marginTop: 6,
+  },
   referencesSection: {
     padding: 16,
   },
@@ -0,0 +1,358 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from "react-native";
+import { Stack } from "expo-router";
+import { Camera, CheckCircle2, Circle, GitCompare, History, Trash2 } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/providers/auth-provider";
+import { MetadataDiffList } from "@/components/metadata-diff-list";
+import { diffOrgSchemas, getSkippedCategories } from "@/services/org-compare";
+import { deleteSnapshot, listSnapshots, loadSnapshot, takeSnapshot } from "@/services/snapshots";
+import type { MetadataDiffResult, MetadataSnapshotSummary, SearchProgress } from "@/types/salesforce";
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export default function SnapshotsScreen() {
+  const { client, instanceUrl, activeOrgId, activeConnection } = useAuth();
+  const queryClient = useQueryClient();
+  const [label, setLabel] = useState("");
+  const [includeStandardObjects, setIncludeStandardObjects] = useState(false);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
+  // At most two, oldest selection first
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const snapshotsQueryKey = ["metadata-snapshots", activeOrgId, instanceUrl];
+
+  const { data: snapshots = [], isLoading } = useQuery({
+    queryKey: snapshotsQueryKey,
+    queryFn: () => listSnapshots(instanceUrl!),
+    enabled: !!instanceUrl,
+    // Stored on the device, so the timeline loads offline
+    networkMode: "always",
+  });
+
+  const capture = useMutation({
+    mutationFn: () =>
+      takeSnapshot(
+        client!,
+        label.trim() || `Snapshot ${new Date().toLocaleDateString()}`,
+        { includeStandardObjects },
+        setProgress
+      ),
+    onSuccess: () => {
+      setLabel("");
+      queryClient.invalidateQueries({ queryKey: snapshotsQueryKey });
+    },
+    onSettled: () => setProgress(null),
+  });
+
+  const comparison = useMutation({
+    mutationFn: async (): Promise<MetadataDiffResult> => {
+      const [first, second] = selectedIds
+        .map(id => snapshots.find(snapshot => snapshot.id === id))
+        .filter((snapshot): snapshot is MetadataSnapshotSummary => !!snapshot)
+        .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+      if (!first || !second) throw new Error("Select two snapshots to compare");
+
+      const [older, newer] = await Promise.all([
+        loadSnapshot(instanceUrl!, first.id),
+        loadSnapshot(instanceUrl!, second.id),
+      ]);
+      if (!older || !newer) throw new Error("Snapshot data is missing or unreadable");
+
+      return {
+        sourceName: first.label,
+        targetName: second.label,
+        comparedAt: new Date().toISOString(),
+        items: diffOrgSchemas(older, newer),
+        skippedCategories: getSkippedCategories(older, newer),
+      };
+    },
+  });
+
+  const toggleSelected = (snapshotId: string) => {
+    setSelectedIds(current => {
+      if (current.includes(snapshotId)) return current.filter(id => id !== snapshotId);
+      return [...current, snapshotId].slice(-2);
+    });
+  };
+
+  const handleDelete = (snapshot: MetadataSnapshotSummary) => {
+    Alert.alert(
+      "Delete Snapshot",
+      `Delete "${snapshot.label}"? It cannot be recovered.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await deleteSnapshot(instanceUrl!, snapshot.id);
+            setSelectedIds(current => current.filter(id => id !== snapshot.id));
+            queryClient.invalidateQueries({ queryKey: snapshotsQueryKey });
+          },
+        },
+      ]
+    );
+  };
+
+  if (!instanceUrl || !client) {
+    return (
+      <View style={styles.centerContainer}>
+        <Stack.Screen options={{ title: "Snapshots" }} />
+        <History size={40} color="#C4C7C5" />
+        <Text style={styles.emptyTitle}>Not signed in</Text>
+        <Text style={styles.emptyText}>Log in to an org to capture and compare its schema history.</Text>
+      </View>
+    );
+  }
+
+  const header = (
+    <View>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>New snapshot of {activeConnection?.name || "this org"}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Label, e.g. Before Summer release"
+          value={label}
+          onChangeText={setLabel}
+          editable={!capture.isPending}
+        />
+        <View style={styles.optionRow}>
+          <View style={styles.optionInfo}>
+            <Text style={styles.optionTitle}>Include standard objects</Text>
+            <Text style={styles.optionSubtitle}>Record fields of every object, not only custom ones. Much slower.</Text>
+          </View>
+          <Switch
+            value={includeStandardObjects}
+            onValueChange={setIncludeStandardObjects}
+            disabled={capture.isPending}
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.primaryButton, capture.isPending && styles.primaryButtonDisabled]}
+          onPress={() => capture.mutate()}
+          disabled={capture.isPending}
+        >
+          {capture.isPending ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Camera size={18} color="#FFFFFF" />
+          )}
+          <Text style={styles.primaryButtonText}>{capture.isPending ? "Capturing..." : "Take Snapshot"}</Text>
+        </TouchableOpacity>
+        {progress && (
+          <Text style={styles.progressText}>
+            {progress.label}
+            {progress.total > 1 ? ` ${progress.scanned}/${progress.total}` : ""}
+          </Text>
+        )}
+        {capture.error && (
+          <Text style={styles.errorText}>
+            {capture.error instanceof Error ? capture.error.message : "Snapshot failed"}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Timeline</Text>
+        {isLoading ? (
+          <ActivityIndicator size="small" color="#1B96FF" />
+        ) : snapshots.length === 0 ? (
+          <Text style={styles.emptyText}>No snapshots yet for this org.</Text>
+        ) : (
+          snapshots.map((snapshot, index) => {
+            const isSelected = selectedIds.includes(snapshot.id);
+            return (
+              <TouchableOpacity
+                key={snapshot.id}
+                style={[styles.snapshotRow, index > 0 && styles.snapshotRowBorder]}
+                onPress={() => toggleSelected(snapshot.id)}
+              >
+                {isSelected ? (
+                  <CheckCircle2 size={20} color="#1B96FF" />
+                ) : (
+                  <Circle size={20} color="#C4C7C5" />
+                )}
+                <View style={styles.snapshotInfo}>
+                  <Text style={styles.snapshotLabel}>{snapshot.label}</Text>
+                  <Text style={styles.snapshotDetail}>{formatDate(snapshot.capturedAt)}</Text>
+                  <Text style={styles.snapshotDetail}>
+                    {snapshot.counts.objects} objects · {snapshot.counts.fields} fields · {snapshot.counts.validationRules} rules · {snapshot.counts.apexClasses} classes · {snapshot.counts.flows} flows
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(snapshot)}>
+                  <Trash2 size={18} color="#C23934" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            );
+          })
+        )}
+        {snapshots.length > 1 && (
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.compareButton, (selectedIds.length < 2 || comparison.isPending) && styles.primaryButtonDisabled]}
+            onPress={() => comparison.mutate()}
+            disabled={selectedIds.length < 2 || comparison.isPending}
+          >
+            {comparison.isPending ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <GitCompare size={18} color="#FFFFFF" />
+            )}
+            <Text style={styles.primaryButtonText}>
+              {selectedIds.length < 2 ? "Select two snapshots" : "Compare Selected"}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {comparison.error && (
+          <Text style={styles.errorText}>
+            {comparison.error instanceof Error ? comparison.error.message : "Comparison failed"}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Snapshots" }} />
+      <MetadataDiffList result={comparison.data} header={header} filenamePrefix="snapshot_diff" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#F8F9FA",
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#16325C",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#5F6368",
+    textAlign: "center",
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E8EAED",
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#16325C",
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#202124",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    marginVertical: 8,
+  },
+  optionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#202124",
+  },
+  optionSubtitle: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 2,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#1B96FF",
+    borderRadius: 10,
+    paddingVertical: 12,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  compareButton: {
+    marginTop: 12,
+  },
+  progressText: {
+    fontSize: 13,
+    color: "#5F6368",
+    textAlign: "center",
+    marginTop: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#D32F2F",
+    textAlign: "center",
+    marginTop: 10,
+  },
+  snapshotRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+  },
+  snapshotRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: "#F1F3F4",
+  },
+  snapshotInfo: {
+    flex: 1,
+  },
+  snapshotLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#202124",
+  },
+  snapshotDetail: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 6,
+  },
+});
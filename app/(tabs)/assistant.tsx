@@ -15,7 +15,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Stack } from 'expo-router';
 import { Send, Bot, User, Sparkles, Database, Code, Workflow } from 'lucide-react-native';
 import { useAuth } from '@/providers/auth-provider';
-import { fetchSalesforceObjects, fetchObjectFields } from '@/services/salesforce';
+import { fetchSalesforceObjects, fetchObjectDescribes } from '@/services/salesforce';
+import type { SalesforceObjectDescribe } from '@/types/salesforce';
 
 interface Message {
   id: string;
@@ -36,7 +37,7 @@ interface SalesforceContext {
 }
 
 export default function AssistantScreen() {
-  const { instanceUrl, accessToken } = useAuth();
+  const { instanceUrl, client } = useAuth();
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -50,12 +51,12 @@ export default function AssistantScreen() {
   const [salesforceContext, setSalesforceContext] = useState<SalesforceContext>({
     objects: [],
     instanceUrl: instanceUrl || '',
-    isConnected: !!accessToken,
+    isConnected: !!client,
   });
   const scrollViewRef = useRef<ScrollView>(null);
 
   const loadSalesforceContext = React.useCallback(async () => {
-    if (!instanceUrl || !accessToken) {
+    if (!instanceUrl || !client) {
       setSalesforceContext({
         objects: [],
         instanceUrl: '',
@@ -66,7 +67,7 @@ export default function AssistantScreen() {
 
     try {
       console.log('Loading Salesforce context for AI Assistant...');
-      const objects = await fetchSalesforceObjects(instanceUrl, accessToken);
+      const objects = await fetchSalesforceObjects(client);
       setSalesforceContext({
         objects: objects, // Load all objects for comprehensive analysis
         instanceUrl,
@@ -81,7 +82,7 @@ export default function AssistantScreen() {
         isConnected: false,
       });
     }
-  }, [instanceUrl, accessToken]);
+  }, [instanceUrl, client]);
 
   // Load Salesforce context when component mounts
   useEffect(() => {
@@ -159,24 +160,32 @@ export default function AssistantScreen() {
       console.log('Extracted object names from question:', objectNames);
 
       // Fetch comprehensive metadata for relationship questions
-      if ((isRelationshipQuestion || isObjectAnalysisQuestion) && instanceUrl && accessToken) {
+      if ((isRelationshipQuestion || isObjectAnalysisQuestion) && client) {
         console.log('Fetching comprehensive metadata for analysis...');
         
         // If specific objects mentioned, fetch their details
         if (objectNames.length > 0) {
+          // Every mentioned object in one round-trip; a missing entry is reported per object below
+          let describes = new Map<string, SalesforceObjectDescribe>();
+          try {
+            describes = await fetchObjectDescribes(client, objectNames);
+          } catch (error) {
+            console.error('Failed to describe objects:', error);
+          }
+
           for (const objName of objectNames) {
             try {
-              console.log(`Fetching detailed metadata for: ${objName}`);
-              const fields = await fetchObjectFields(instanceUrl, accessToken, objName);
+              const describe = describes.get(objName);
+              if (!describe) {
+                throw new Error('Object could not be described');
+              }
+              const { fields, childRelationships } = describe;
               
               // Find relationship fields
               const relationshipFields = fields.filter(f => 
                 f.type === 'reference' || f.relationshipName || (f.referenceTo && f.referenceTo.length > 0)
               );
               
-              // Get child relationships from the describe call
-              const childRelationships = fields.flatMap(f => f.childRelationships || []);
-              
               relevantMetadata[objName] = {
                 totalFields: fields.length,
                 relationshipFields: relationshipFields.map(f => ({
@@ -12,7 +12,7 @@ import {
 import { Stack } from 'expo-router';
 import { Download, FileText, CheckCircle2, Circle, DownloadCloud } from 'lucide-react-native';
 import { useAuth } from '@/providers/auth-provider';
-import { fetchSalesforceObjects, fetchObjectFields } from '@/services/salesforce';
+import { fetchSalesforceObjects, fetchObjectDescribe } from '@/services/salesforce';
 import type { SalesforceObject, SalesforceField } from '@/types/salesforce';
 
 interface ExportData {
@@ -33,7 +33,7 @@ interface ExportData {
 }
 
 export default function ExportScreen() {
-  const { isAuthenticated, instanceUrl, accessToken } = useAuth();
+  const { isAuthenticated, client } = useAuth();
   const [objects, setObjects] = useState<SalesforceObject[]>([]);
   const [selectedObject, setSelectedObject] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
@@ -41,18 +41,18 @@ export default function ExportScreen() {
   const [searchQuery, setSearchQuery] = useState<string>('');
 
   useEffect(() => {
-    if (isAuthenticated && instanceUrl && accessToken) {
+    if (isAuthenticated && client) {
       loadObjects();
     }
-  }, [isAuthenticated, instanceUrl, accessToken]);
+  }, [isAuthenticated, client]);
 
   const loadObjects = async () => {
-    if (!instanceUrl || !accessToken) return;
+    if (!client) return;
     
     setLoading(true);
     try {
       console.log('Loading objects for export...');
-      const objectsData = await fetchSalesforceObjects(instanceUrl, accessToken);
+      const objectsData = await fetchSalesforceObjects(client);
       setObjects(objectsData);
       console.log('Objects loaded:', objectsData.length);
     } catch (error) {
@@ -139,7 +139,7 @@ export default function ExportScreen() {
   };
 
   const handleExport = async () => {
-    if (!selectedObject || !instanceUrl || !accessToken) {
+    if (!selectedObject || !client) {
       Alert.alert('Error', 'Please select an object to export.');
       return;
     }
@@ -147,7 +147,11 @@ export default function ExportScreen() {
     setExporting(true);
     try {
       console.log('Exporting object:', selectedObject);
-      const fields = await fetchObjectFields(instanceUrl, accessToken, selectedObject);
+      const { fields, childRelationships } = await fetchObjectDescribe(client, selectedObject);
+      // Child lookups point at the record Id, so they are listed on the Id row
+      const childRelationshipsText = childRelationships.map(rel =>
+        `${rel.childSObject}.${rel.field} (${rel.relationshipName || 'N/A'})`
+      ).join('; ');
       
       const exportData: ExportData[] = fields.map((field: SalesforceField) => ({
         fieldName: field.name,
@@ -160,9 +164,7 @@ export default function ExportScreen() {
         nillable: field.nillable || false,
         referenceTo: field.referenceTo?.join(', ') || '',
         relationshipName: field.relationshipName || '',
-        childRelationships: field.childRelationships?.map(rel => 
-          `${rel.childSObject}.${rel.field} (${rel.relationshipName})`
-        ).join('; ') || '',
+        childRelationships: field.name === 'Id' ? childRelationshipsText : '',
         restrictedPicklist: field.restrictedPicklist || false,
         cascadeDelete: field.cascadeDelete || false,
         picklistValues: field.picklistValues?.map(pv => 
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import {
   View,
   Text,
@@ -8,12 +8,19 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   ScrollView,
+  Alert,
 } from "react-native";
 import { router } from "expo-router";
-import { Search, Database, Type, Grid3X3, Building2, Zap, Code, Settings, Shield, Layout, Layers, Component, Filter, X, ChevronDown, ChevronRight } from "lucide-react-native";
-import { useMutation } from "@tanstack/react-query";
+import { Search, Database, Type, Grid3X3, Building2, Zap, Code, Settings, Shield, Layout, Layers, Component, Filter, X, ChevronDown, ChevronRight, HardDrive, RefreshCw, Trash2, CaseSensitive, WholeWord, AlertTriangle } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/providers/auth-provider";
+import { OrgSwitcher } from "@/components/org-switcher";
 import { searchSalesforce } from "@/services/salesforce";
+import { loadMetadataIndex, refreshMetadataIndex, clearMetadataIndex } from "@/services/metadata-index";
+import { confirmApiUsage, estimateCodeSearchCalls, estimateIndexBuildCalls } from "@/services/limits";
+import { parseSearchQuery, splitQueryHighlights, SearchQueryError, type SearchQuery } from "@/services/search-query";
+import { NotConnectedError, type PartialFailure } from "@/services/salesforce-client";
+import type { SearchProgress } from "@/types/salesforce";
 
 interface SearchResult {
   id: string;
@@ -54,7 +61,64 @@ export default function SearchScreen() {
   const [showFilters, setShowFilters] = useState(false);
   const [selectedResult, setSelectedResult] = useState<SearchResult | null>(null);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
-  const { accessToken, instanceUrl, isAuthenticated, isLoading } = useAuth();
+  const [scanProgress, setScanProgress] = useState<Record<string, SearchProgress>>({});
+  const [useIndex, setUseIndex] = useState(true);
+  const [indexProgress, setIndexProgress] = useState<SearchProgress | null>(null);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [activeQuery, setActiveQuery] = useState<SearchQuery | null>(null);
+  // Reads the last live search had to skip, so its results are known to be incomplete
+  const [searchFailures, setSearchFailures] = useState<PartialFailure[]>([]);
+  const { client, instanceUrl, activeOrgId, isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  // On-device metadata index, used instead of live queries when present
+  const { data: metadataIndex = null } = useQuery({
+    queryKey: ["metadata-index", activeOrgId, instanceUrl],
+    queryFn: () => loadMetadataIndex(instanceUrl!),
+    enabled: !!instanceUrl,
+    // Read from the device, so it also loads offline
+    networkMode: "always",
+  });
+
+  const refreshIndexMutation = useMutation({
+    mutationFn: async () => {
+      if (!client) throw new NotConnectedError();
+      // Only a first build scans everything; later refreshes read what changed
+      if (!metadataIndex) {
+        const estimatedCalls = await estimateIndexBuildCalls(client);
+        if (!(await confirmApiUsage(client, "Building the offline index", estimatedCalls))) return null;
+      }
+      return refreshMetadataIndex(client, setIndexProgress);
+    },
+    onSuccess: (index) => {
+      queryClient.setQueryData(["metadata-index", activeOrgId, instanceUrl], index);
+      setIndexProgress(null);
+    },
+    onError: (error) => {
+      console.error('Index refresh error:', error);
+      setIndexProgress(null);
+      Alert.alert('Index Refresh Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  });
+
+  const handleClearIndex = useCallback(() => {
+    Alert.alert(
+      "Clear Offline Index",
+      "Searches will query the org live until the index is rebuilt.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: async () => {
+            await clearMetadataIndex(instanceUrl!);
+            queryClient.setQueryData(["metadata-index", activeOrgId, instanceUrl], null);
+          },
+        },
+      ]
+    );
+  }, [instanceUrl, activeOrgId, queryClient]);
 
   // Handle search input change
   const handleSearchChange = useCallback((text: string) => {
@@ -115,11 +179,50 @@ export default function SearchScreen() {
     });
   }, []);
 
-  // Search mutation
+  // Live search requests still in flight, cancelled when a new search starts or the org changes
+  const searchAbortRef = useRef<AbortController | null>(null);
+
+  // Results belong to the org they were searched in
+  useEffect(() => {
+    searchAbortRef.current?.abort();
+    setSearchResults([]);
+    setSearchFailures([]);
+    setHasSearched(false);
+    setSelectedResult(null);
+  }, [activeOrgId]);
+
+  // Search mutation. Runs offline too: the index needs no network, and a live search fails fast
   const searchMutation = useMutation({
-    mutationFn: async (query: string): Promise<SearchResult[]> => {
-      if (!query || query.length < 2) return [];
-      const results = await searchSalesforce(instanceUrl!, accessToken!, query);
+    networkMode: "always",
+    mutationFn: async (query: SearchQuery): Promise<SearchResult[]> => {
+      if (!client) throw new NotConnectedError();
+      setScanProgress({});
+      setSearchFailures([]);
+      searchAbortRef.current?.abort();
+      const controller = new AbortController();
+      searchAbortRef.current = controller;
+      const failures: PartialFailure[] = [];
+      const searchClient = client
+        .withSignal(controller.signal)
+        .withPartialFailureListener(failure => failures.push(failure));
+      const index = useIndex ? metadataIndex : null;
+      const cancelled = () => Object.assign(new Error('Search cancelled'), { name: 'AbortError' });
+      if (!index) {
+        const estimatedCalls = await estimateCodeSearchCalls(searchClient, query.types);
+        if (!(await confirmApiUsage(searchClient, "This live search", estimatedCalls))) {
+          throw cancelled();
+        }
+      }
+      const results = await searchSalesforce(searchClient, query, {
+        onProgress: (progress) => {
+          setScanProgress(prev => ({ ...prev, [progress.type]: progress }));
+        },
+        index,
+      });
+      if (controller.signal.aborted) {
+        throw cancelled();
+      }
+      setSearchFailures(failures);
       return results as SearchResult[];
     },
     onSuccess: (results) => {
@@ -127,6 +230,12 @@ export default function SearchScreen() {
       setHasSearched(true);
     },
     onError: (error) => {
+      // A newer search or an org switch took over; leave its state alone
+      if (error.name === 'AbortError') return;
+      if (error instanceof NotConnectedError) {
+        Alert.alert('Search', error.message);
+        return;
+      }
       console.error('Search error:', error);
       setSearchResults([]);
       setHasSearched(true);
@@ -135,10 +244,29 @@ export default function SearchScreen() {
 
   // Handle search button press
   const handleSearch = useCallback(() => {
-    if (searchQuery.trim().length >= 2) {
-      searchMutation.mutate(searchQuery.trim());
+    if (searchQuery.trim().length < 2) return;
+    
+    let query: SearchQuery;
+    try {
+      query = parseSearchQuery(searchQuery, { caseSensitive, wholeWord });
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        Alert.alert('Invalid Search', error.message);
+        return;
+      }
+      throw error;
+    }
+    
+    // type: in the query selects the filter pills; otherwise the selected pills limit what is scanned
+    if (query.types.length > 0) {
+      setSelectedFilters(query.types);
+    } else if (!selectedFilters.includes('all')) {
+      query = { ...query, types: selectedFilters };
     }
-  }, [searchQuery, searchMutation]);
+    
+    setActiveQuery(query);
+    searchMutation.mutate(query);
+  }, [searchQuery, caseSensitive, wholeWord, selectedFilters, searchMutation]);
 
   // If not authenticated, show appropriate message
   if (isLoading) {
@@ -230,21 +358,18 @@ export default function SearchScreen() {
     }
   };
 
-  const highlightSearchTerm = (text: string, searchTerm: string) => {
-    if (!searchTerm || searchTerm.length < 2) return text;
-    
-    const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    const parts = text.split(regex);
+  const highlightSearchTerm = (text: string) => {
+    const parts = splitQueryHighlights(activeQuery, text);
     
     return parts.map((part, index) => {
-      if (regex.test(part)) {
+      if (part.highlighted) {
         return (
           <Text key={index} style={styles.highlightedText}>
-            {part}
+            {part.text}
           </Text>
         );
       }
-      return part;
+      return part.text;
     });
   };
 
@@ -294,7 +419,7 @@ export default function SearchScreen() {
         >
           <View style={styles.metadataItemInfo}>
             <Text style={styles.metadataItemLabel}>
-              {highlightSearchTerm(item.label, searchQuery)}
+              {highlightSearchTerm(item.label)}
             </Text>
             
             {/* File name for code search results */}
@@ -315,11 +440,11 @@ export default function SearchScreen() {
             {!item.matches && (
               <>
                 <Text style={styles.resultName}>
-                  {highlightSearchTerm(item.name, searchQuery)}
+                  {highlightSearchTerm(item.name)}
                 </Text>
                 {item.description && (
                   <Text style={styles.resultMeta}>
-                    {highlightSearchTerm(item.description, searchQuery)}
+                    {highlightSearchTerm(item.description)}
                   </Text>
                 )}
                 {item.objectName && item.type !== "object" && (
@@ -367,7 +492,7 @@ export default function SearchScreen() {
                   <Text style={styles.contextLabel}>{match.context}</Text>
                 </View>
                 <Text style={styles.codeSnippet}>
-                  {highlightSearchTerm(match.snippet, searchQuery)}
+                  {highlightSearchTerm(match.snippet)}
                 </Text>
                 {/* Show multi-line content if available */}
                 {match.content && match.content.includes('\n') && (
@@ -375,7 +500,7 @@ export default function SearchScreen() {
                     <Text style={styles.multiLineText}>
                       {match.content.split('\n').map((line, lineIndex) => (
                         <Text key={lineIndex} style={styles.codeLine}>
-                          {highlightSearchTerm(line, searchQuery)}{lineIndex < match.content.split('\n').length - 1 ? '\n' : ''}
+                          {highlightSearchTerm(line)}{lineIndex < match.content.split('\n').length - 1 ? '\n' : ''}
                         </Text>
                       ))}
                     </Text>
@@ -389,6 +514,97 @@ export default function SearchScreen() {
     );
   };
 
+  const renderIndexBar = () => {
+    const isRefreshing = refreshIndexMutation.isPending;
+    let status = 'Searches query the org live';
+    if (isRefreshing) {
+      status = indexProgress
+        ? `Indexing ${indexProgress.label}: ${indexProgress.scanned.toLocaleString()} of ${indexProgress.total.toLocaleString()}`
+        : 'Preparing index...';
+    } else if (metadataIndex?.lastSync) {
+      status = `Synced ${new Date(metadataIndex.lastSync).toLocaleString()}`;
+    } else if (metadataIndex) {
+      // The first build skipped reads that failed
+      status = 'Incomplete, refresh to finish';
+    }
+    
+    return (
+      <View style={styles.indexBar}>
+        <HardDrive size={16} color={metadataIndex ? "#059669" : "#6B7280"} />
+        <View style={styles.indexInfo}>
+          <Text style={styles.indexTitle}>
+            {metadataIndex
+              ? `Offline index · ${metadataIndex.entries.length.toLocaleString()} files`
+              : 'No offline index'}
+          </Text>
+          <Text style={styles.indexStatus} numberOfLines={1}>{status}</Text>
+        </View>
+        {metadataIndex && (
+          <TouchableOpacity
+            style={[styles.indexToggle, useIndex && styles.indexToggleActive]}
+            onPress={() => setUseIndex(!useIndex)}
+          >
+            <Text style={[styles.indexToggleText, useIndex && styles.indexToggleTextActive]}>
+              {useIndex ? 'Index' : 'Live'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.indexAction}
+          onPress={() => refreshIndexMutation.mutate()}
+          disabled={isRefreshing || !client}
+        >
+          {isRefreshing ? (
+            <ActivityIndicator size="small" color="#1B96FF" />
+          ) : (
+            <RefreshCw size={16} color="#1B96FF" />
+          )}
+        </TouchableOpacity>
+        {metadataIndex && !isRefreshing && (
+          <TouchableOpacity style={styles.indexAction} onPress={handleClearIndex}>
+            <Trash2 size={16} color="#6B7280" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderScanProgress = () => {
+    const entries = Object.values(scanProgress);
+    if (entries.length === 0) return null;
+    
+    return (
+      <View style={styles.scanProgressContainer}>
+        {entries.map(progress => (
+          <Text
+            key={progress.type}
+            style={[
+              styles.scanProgressText,
+              !searchMutation.isPending && progress.scanned < progress.total && styles.scanProgressIncomplete
+            ]}
+          >
+            Scanned {progress.scanned.toLocaleString()} of {progress.total.toLocaleString()} {progress.label}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
+  const renderPartialFailures = () => {
+    if (searchFailures.length === 0) return null;
+    const sources = [...new Set(searchFailures.map(failure => failure.source))];
+    
+    return (
+      <View style={styles.partialWarning}>
+        <AlertTriangle size={16} color="#B45309" />
+        <Text style={styles.partialWarningText}>
+          Results may be incomplete: {searchFailures.length} read{searchFailures.length !== 1 ? 's' : ''} failed
+          after retries ({sources.join(', ')}). {searchFailures[0].message}
+        </Text>
+      </View>
+    );
+  };
+
   const renderMetadataTypeAccordion = (type: string, items: SearchResult[]) => {
     const isExpanded = expandedItems.has(`type-${type}`);
     const typeInfo = getMetadataTypeInfo(type);
@@ -439,6 +655,7 @@ export default function SearchScreen() {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
+        <OrgSwitcher />
         <Text style={styles.title}>Search Metadata</Text>
         <Text style={styles.subtitle}>Search inside code and metadata content</Text>
       </View>
@@ -447,7 +664,7 @@ export default function SearchScreen() {
         <Search size={20} color="#706E6B" style={styles.searchIcon} />
         <TextInput
           style={styles.searchInput}
-          placeholder="Search for keywords in code, flows, triggers..."
+          placeholder='Keywords, "phrases", type:, name:, regex:/.../'
           value={searchQuery}
           onChangeText={handleSearchChange}
           autoCapitalize="none"
@@ -459,12 +676,12 @@ export default function SearchScreen() {
           style={styles.filterButton}
           onPress={() => setShowFilters(!showFilters)}
         >
-          <Filter size={18} color={showFilters ? "#1B96FF" : "#706E6B"} />
+          <Filter size={18} color={showFilters || caseSensitive || wholeWord ? "#1B96FF" : "#706E6B"} />
         </TouchableOpacity>
         <TouchableOpacity 
-          style={[styles.searchButton, { opacity: searchQuery.length >= 2 ? 1 : 0.5 }]}
+          style={[styles.searchButton, { opacity: searchQuery.length >= 2 && client ? 1 : 0.5 }]}
           onPress={handleSearch}
-          disabled={searchQuery.length < 2 || searchMutation.isPending}
+          disabled={searchQuery.length < 2 || searchMutation.isPending || !client}
         >
           {searchMutation.isPending ? (
             <ActivityIndicator size="small" color="#FFFFFF" />
@@ -474,6 +691,8 @@ export default function SearchScreen() {
         </TouchableOpacity>
       </View>
 
+      {renderIndexBar()}
+
       {/* Filter Pills */}
       {showFilters && (
         <View style={styles.filtersContainer}>
@@ -508,6 +727,29 @@ export default function SearchScreen() {
               );
             })}
           </ScrollView>
+          <View style={styles.matchOptions}>
+            <TouchableOpacity
+              style={[styles.filterPill, caseSensitive && styles.filterPillSelected]}
+              onPress={() => setCaseSensitive(!caseSensitive)}
+            >
+              <CaseSensitive size={16} color={caseSensitive ? "#FFFFFF" : "#6B7280"} />
+              <Text style={[styles.filterPillText, caseSensitive && styles.filterPillTextSelected]}>
+                Match case
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.filterPill, wholeWord && styles.filterPillSelected]}
+              onPress={() => setWholeWord(!wholeWord)}
+            >
+              <WholeWord size={16} color={wholeWord ? "#FFFFFF" : "#6B7280"} />
+              <Text style={[styles.filterPillText, wholeWord && styles.filterPillTextSelected]}>
+                Whole word
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.syntaxHint}>
+            type:apex-class  object:Account  name:*Handler  &quot;exact phrase&quot;  -exclude  regex:/Acc(ount)?Id/
+          </Text>
         </View>
       )}
 
@@ -515,6 +757,7 @@ export default function SearchScreen() {
         <View style={styles.centerContainer}>
           <ActivityIndicator size="large" color="#0176D3" />
           <Text style={styles.searchingText}>Searching...</Text>
+          {renderScanProgress()}
         </View>
       ) : hasSearched ? (
         <>
@@ -535,6 +778,8 @@ export default function SearchScreen() {
               </TouchableOpacity>
             ) : null}
           </View>
+          {renderScanProgress()}
+          {renderPartialFailures()}
           <ScrollView 
             contentContainerStyle={styles.listContent}
             showsVerticalScrollIndicator={false}
@@ -598,14 +843,14 @@ export default function SearchScreen() {
                     <Text style={styles.modalContextLabel}>{match.context}</Text>
                   </View>
                   <Text style={styles.modalCodeSnippet}>
-                    {highlightSearchTerm(match.snippet, searchQuery)}
+                    {highlightSearchTerm(match.snippet)}
                   </Text>
                   {match.content && match.content.includes('\n') && (
                     <View style={styles.modalMultiLineContent}>
                       <Text style={styles.modalMultiLineText}>
                         {match.content.split('\n').map((line, lineIndex) => (
                           <Text key={lineIndex} style={styles.modalCodeLine}>
-                            {highlightSearchTerm(line, searchQuery)}{lineIndex < match.content.split('\n').length - 1 ? '\n' : ''}
+                            {highlightSearchTerm(line)}{lineIndex < match.content.split('\n').length - 1 ? '\n' : ''}
                           </Text>
                         ))}
                       </Text>
@@ -711,6 +956,87 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#374151",
   },
+  indexBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    marginHorizontal: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#F1F3F4",
+  },
+  indexInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  indexTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#16325C",
+  },
+  indexStatus: {
+    fontSize: 11,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  indexToggle: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: "#F3F4F6",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginLeft: 8,
+  },
+  indexToggleActive: {
+    backgroundColor: "#D1FAE5",
+    borderColor: "#A7F3D0",
+  },
+  indexToggleText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#6B7280",
+  },
+  indexToggleTextActive: {
+    color: "#059669",
+  },
+  indexAction: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  scanProgressContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  scanProgressText: {
+    fontSize: 11,
+    color: "#6B7280",
+    fontWeight: "500",
+    lineHeight: 16,
+  },
+  scanProgressIncomplete: {
+    color: "#EA580C",
+  },
+  partialWarning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#FFFBEB",
+    borderWidth: 1,
+    borderColor: "#FDE68A",
+  },
+  partialWarningText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#92400E",
+    lineHeight: 17,
+  },
   listContent: {
     paddingVertical: 16,
   },
@@ -1073,6 +1399,18 @@ const styles = StyleSheet.create({
   filterPillTextSelected: {
     color: "#FFFFFF",
   },
+  matchOptions: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    marginTop: 10,
+  },
+  syntaxHint: {
+    fontSize: 11,
+    color: "#6B7280",
+    fontFamily: "monospace",
+    paddingHorizontal: 16,
+    marginTop: 10,
+  },
   filterInfo: {
     color: "#6B7280",
     fontWeight: "400",
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useCallback, useState } from "react";
 import {
   View,
   Text,
@@ -9,44 +9,112 @@ import {
   Switch,
   ActivityIndicator,
 } from "react-native";
-import { LogOut, User, Server, Info, RefreshCw, Settings2, Key, ChevronRight, ExternalLink, UserCircle, Globe, Building, RotateCcw } from "lucide-react-native";
+import { LogOut, User, Server, Info, RefreshCw, Settings2, Key, ChevronRight, ExternalLink, UserCircle, Globe, Building, RotateCcw, Check, Plus, Pencil, Trash2, GitCompare, History, Camera, Layers, Gauge, Lock, Fingerprint, ShieldAlert, ShieldCheck } from "lucide-react-native";
 import { useAuth } from "@/providers/auth-provider";
-import { router, useFocusEffect } from "expo-router";
+import { useAppLock } from "@/providers/app-lock-provider";
+import { PasscodeSetupModal } from "@/components/passcode-setup-modal";
+import { PasscodeConfirmModal, type LockChangeRequest } from "@/components/passcode-confirm-modal";
+import { canUseBiometrics, weakensAppLock, IDLE_TIMEOUT_OPTIONS, MAX_ATTEMPT_OPTIONS, type AppLockSettings } from "@/services/app-lock";
+import { FEATURE_SCOPES } from "@/services/oauth-scopes";
+import { router } from "expo-router";
+import { useQueryClient } from "@tanstack/react-query";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-
-interface OAuthConfig {
-  clientId: string;
-  instanceUrl?: string;
-}
+import type { OrgConnection } from "@/services/auth";
 
 export default function SettingsScreen() {
-  const { userInfo, instanceUrl, logout, clearCache, login, reauthorize, isAuthenticated, loadOAuthConfig: loadAuthConfig } = useAuth();
-  const [oauthConfig, setOauthConfig] = useState<OAuthConfig | null>(null);
+  const {
+    userInfo,
+    instanceUrl,
+    logout,
+    clearCache,
+    clearAllData,
+    login,
+    reauthorize,
+    isAuthenticated,
+    isLoading: isLoadingConfig,
+    connections,
+    activeConnection: oauthConfig,
+    switchOrg,
+    saveConnection,
+    removeConnection,
+    client,
+    apiVersions,
+    grantedScopes,
+    unavailableFeatures,
+  } = useAuth();
+  const {
+    settings: lockSettings,
+    isPasscodeSet,
+    updateSettings: updateLockSettings,
+    setOrgRequiresUnlock,
+    removeAppPasscode,
+  } = useAppLock();
+  const queryClient = useQueryClient();
+  const [showPasscodeSetup, setShowPasscodeSetup] = useState(false);
+  const [lockChange, setLockChange] = useState<LockChangeRequest | null>(null);
+  const closeLockChange = useCallback(() => setLockChange(null), []);
   const [isLoggingIn, setIsLoggingIn] = useState(false);
   const [isReauthorizing, setIsReauthorizing] = useState(false);
-  const [isLoadingConfig, setIsLoadingConfig] = useState(true);
+  const [showApiVersions, setShowApiVersions] = useState(false);
 
-  const loadOAuthConfig = useCallback(async () => {
-    try {
-      const config = await loadAuthConfig();
-      setOauthConfig(config);
-    } catch (error) {
-      console.error('Error loading OAuth config:', error);
-    } finally {
-      setIsLoadingConfig(false);
+  // Pin a REST API version for the active org, or null to follow the newest it supports
+  const handlePinApiVersion = async (version: string | null) => {
+    if (!oauthConfig) return;
+    await saveConnection({ ...oauthConfig, apiVersion: version ?? undefined });
+    setShowApiVersions(false);
+    // Cached results were read through the previous version
+    queryClient.invalidateQueries();
+  };
+
+  const handleRemovePasscode = () => {
+    Alert.alert(
+      "Remove Passcode",
+      "Locked orgs will open without a passcode until you set a new one.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => setLockChange({ title: "Remove Passcode", apply: passcode => removeAppPasscode(passcode) }),
+        },
+      ]
+    );
+  };
+
+  // Changes that weaken the lock wait for the passcode; the rest apply straight away
+  const handleLockSettingsChange = (changes: Partial<AppLockSettings>) => {
+    if (weakensAppLock(lockSettings, changes)) {
+      setLockChange({ title: "Change App Lock", apply: passcode => updateLockSettings(changes, passcode) });
+    } else {
+      updateLockSettings(changes);
     }
-  }, [loadAuthConfig]);
+  };
 
-  useEffect(() => {
-    loadOAuthConfig();
-  }, [loadOAuthConfig]);
+  const handleRequireUnlockChange = (connection: OrgConnection, requireUnlock: boolean) => {
+    if (!requireUnlock && connection.requireUnlock) {
+      setLockChange({
+        title: `Stop Locking ${connection.name}`,
+        apply: passcode => setOrgRequiresUnlock(connection, false, passcode),
+      });
+    } else {
+      setOrgRequiresUnlock(connection, requireUnlock);
+    }
+  };
 
-  // Refresh OAuth config when screen comes into focus
-  useFocusEffect(
-    useCallback(() => {
-      loadOAuthConfig();
-    }, [loadOAuthConfig])
-  );
+  const handleRemoveOrg = (connection: OrgConnection) => {
+    Alert.alert(
+      "Remove Org",
+      `Remove "${connection.name}"? Its tokens are revoked and you will need to add it again to reconnect.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => removeConnection(connection.id),
+        },
+      ]
+    );
+  };
 
   const handleLogout = () => {
     Alert.alert(
@@ -95,19 +163,8 @@ export default function SettingsScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              // Clear all AsyncStorage and SecureStore data
-              const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
-              const SecureStore = await import('expo-secure-store');
-              
-              await AsyncStorage.clear();
-              
-              // Clear specific SecureStore keys
-              try {
-                await SecureStore.deleteItemAsync('salesforce_tokens_secure');
-              } catch (e) { /* ignore */ }
-              try {
-                await SecureStore.deleteItemAsync('salesforce_oauth_config_secure');
-              } catch (e) { /* ignore */ }
+              // Clear all AsyncStorage data and every org's SecureStore entries
+              await clearAllData();
               
               Alert.alert(
                 "Data Reset Complete", 
@@ -130,7 +187,7 @@ export default function SettingsScreen() {
   };
 
   const handleOAuthConfig = () => {
-    router.push('/oauth-config');
+    router.push(oauthConfig ? { pathname: '/oauth-config', params: { orgId: oauthConfig.id } } : '/oauth-config');
   };
 
   const handleSalesforceLogin = async () => {
@@ -141,7 +198,7 @@ export default function SettingsScreen() {
 
     setIsLoggingIn(true);
     try {
-      const success = await login(oauthConfig.instanceUrl);
+      const success = await login(oauthConfig.id);
       if (success) {
         Alert.alert('Success', 'Successfully logged into Salesforce!');
       }
@@ -176,6 +233,114 @@ export default function SettingsScreen() {
         <Text style={styles.title}>Settings</Text>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Orgs</Text>
+        
+        <View style={styles.card}>
+          {connections.map((connection, index) => {
+            const isActive = connection.id === oauthConfig?.id;
+            return (
+              <TouchableOpacity
+                key={connection.id}
+                style={[styles.cardRow, index > 0 && styles.cardRowBorder]}
+                onPress={() => switchOrg(connection.id)}
+              >
+                {isActive ? (
+                  <Check size={22} color="#1B96FF" />
+                ) : (
+                  <Building size={22} color="#747474" />
+                )}
+                <View style={styles.cardContent}>
+                  <Text style={styles.cardLabel}>{connection.name}</Text>
+                  <Text style={styles.cardDescription} numberOfLines={1}>
+                    {connection.username ? `${connection.username} · ` : ''}{connection.instanceUrl || connection.authHost}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.orgAction}
+                  onPress={() => router.push({ pathname: '/oauth-config', params: { orgId: connection.id } })}
+                >
+                  <Pencil size={18} color="#747474" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.orgAction} onPress={() => handleRemoveOrg(connection)}>
+                  <Trash2 size={18} color="#C23934" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            );
+          })}
+          
+          <TouchableOpacity
+            style={[styles.cardRow, connections.length > 0 && styles.cardRowBorder]}
+            onPress={() => router.push('/oauth-config')}
+          >
+            <Plus size={22} color="#1B96FF" />
+            <View style={styles.cardContent}>
+              <Text style={styles.cardLabel}>Add Org</Text>
+              <Text style={styles.cardDescription}>Production, sandbox or scratch org</Text>
+            </View>
+            <ChevronRight size={20} color="#706E6B" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {oauthConfig && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Org Tools</Text>
+          
+          <View style={styles.card}>
+            <TouchableOpacity
+              style={styles.cardRow}
+              onPress={() => router.push('/(tabs)/(objects)/change-history')}
+            >
+              <History size={22} color="#1B96FF" />
+              <View style={styles.cardContent}>
+                <Text style={styles.cardLabel}>Change History</Text>
+                <Text style={styles.cardDescription}>Setup Audit Trail of the active org</Text>
+              </View>
+              <ChevronRight size={20} color="#706E6B" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.cardRow, styles.cardRowBorder]}
+              onPress={() => router.push('/(tabs)/(objects)/snapshots')}
+            >
+              <Camera size={22} color="#1B96FF" />
+              <View style={styles.cardContent}>
+                <Text style={styles.cardLabel}>Snapshots</Text>
+                <Text style={styles.cardDescription}>Schema history of the active org</Text>
+              </View>
+              <ChevronRight size={20} color="#706E6B" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.cardRow, styles.cardRowBorder]}
+              onPress={() => router.push('/(tabs)/(objects)/limits')}
+            >
+              <Gauge size={22} color="#1B96FF" />
+              <View style={styles.cardContent}>
+                <Text style={styles.cardLabel}>API Limits</Text>
+                <Text style={styles.cardDescription}>Daily requests, storage and async usage</Text>
+              </View>
+              <ChevronRight size={20} color="#706E6B" />
+            </TouchableOpacity>
+
+            {connections.length > 1 && (
+              <TouchableOpacity
+                style={[styles.cardRow, styles.cardRowBorder]}
+                onPress={() => router.push('/(tabs)/(objects)/compare')}
+              >
+                <GitCompare size={22} color="#1B96FF" />
+                <View style={styles.cardContent}>
+                  <Text style={styles.cardLabel}>Compare Orgs</Text>
+                  <Text style={styles.cardDescription}>Diff objects, fields, rules, classes and flows</Text>
+                </View>
+                <ChevronRight size={20} color="#706E6B" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Account</Text>
         
@@ -205,6 +370,70 @@ export default function SettingsScreen() {
               <Text style={styles.cardValue}>{userInfo?.orgName || "N/A"}</Text>
             </View>
           </View>
+
+          <TouchableOpacity
+            style={[styles.cardRow, styles.cardRowBorder, !apiVersions?.length && styles.cardRowDisabled]}
+            onPress={() => setShowApiVersions(current => !current)}
+            disabled={!apiVersions?.length}
+          >
+            <Layers size={22} color="#1B96FF" />
+            <View style={styles.cardContent}>
+              <Text style={styles.cardLabel}>API Version</Text>
+              <Text style={styles.cardValue}>{client?.apiVersion || "N/A"}</Text>
+              <Text style={styles.cardDescription}>
+                {oauthConfig?.apiVersion ? "Pinned for this org" : "Newest the org supports"}
+              </Text>
+            </View>
+            <ChevronRight size={20} color="#706E6B" />
+          </TouchableOpacity>
+
+          {showApiVersions && apiVersions && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.versionPicker}
+              contentContainerStyle={styles.chipRow}
+            >
+              <TouchableOpacity
+                style={[styles.chip, !oauthConfig?.apiVersion && styles.chipActive]}
+                onPress={() => handlePinApiVersion(null)}
+              >
+                <Text style={[styles.chipText, !oauthConfig?.apiVersion && styles.chipTextActive]}>Newest</Text>
+              </TouchableOpacity>
+              {[...apiVersions].reverse().map(version => {
+                const isPinned = oauthConfig?.apiVersion === version;
+                return (
+                  <TouchableOpacity
+                    key={version}
+                    style={[styles.chip, isPinned && styles.chipActive]}
+                    onPress={() => handlePinApiVersion(version)}
+                  >
+                    <Text style={[styles.chipText, isPinned && styles.chipTextActive]}>{version}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          {isAuthenticated && (
+            <TouchableOpacity style={[styles.cardRow, styles.cardRowBorder]} onPress={handleOAuthConfig}>
+              {unavailableFeatures.length > 0 ? (
+                <ShieldAlert size={22} color="#FE9339" />
+              ) : (
+                <ShieldCheck size={22} color="#1B96FF" />
+              )}
+              <View style={styles.cardContent}>
+                <Text style={styles.cardLabel}>Granted Scopes</Text>
+                <Text style={styles.cardValue}>{grantedScopes ? grantedScopes.join(" ") : "Not reported"}</Text>
+                {unavailableFeatures.length > 0 && (
+                  <Text style={styles.cardDescription}>
+                    Off: {unavailableFeatures.map(feature => FEATURE_SCOPES[feature].label).join(", ")}
+                  </Text>
+                )}
+              </View>
+              <ChevronRight size={20} color="#706E6B" />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -221,7 +450,7 @@ export default function SettingsScreen() {
               <Text style={styles.cardLabel}>OAuth Configuration</Text>
               <Text style={styles.cardDescription}>
                 {isLoadingConfig ? 'Loading...' : 
-                 isOAuthConfigured ? 'OAuth configured ✓' : 
+                 isOAuthConfigured ? `${oauthConfig.name}: OAuth configured ✓` : 
                  'Configure Consumer Key for Salesforce connection'}
               </Text>
             </View>
@@ -272,6 +501,104 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Security</Text>
+
+        <View style={styles.card}>
+          <TouchableOpacity style={styles.cardRow} onPress={() => setShowPasscodeSetup(true)}>
+            <Lock size={22} color="#1B96FF" />
+            <View style={styles.cardContent}>
+              <Text style={styles.cardLabel}>App Passcode</Text>
+              <Text style={styles.cardDescription}>
+                {isPasscodeSet ? "Change the passcode for locked orgs" : "Set a passcode to lock orgs"}
+              </Text>
+            </View>
+            <ChevronRight size={20} color="#706E6B" />
+          </TouchableOpacity>
+
+          {isPasscodeSet && (
+            <>
+              <View style={[styles.cardRow, styles.cardRowBorder]}>
+                <Fingerprint size={22} color="#1B96FF" />
+                <View style={styles.cardContent}>
+                  <Text style={styles.cardLabel}>Biometric Unlock</Text>
+                  <Text style={styles.cardDescription}>
+                    {canUseBiometrics() ? "Face ID or fingerprint instead of the passcode" : "Not available on this device"}
+                  </Text>
+                </View>
+                <Switch
+                  value={lockSettings.biometric}
+                  onValueChange={value => handleLockSettingsChange({ biometric: value })}
+                  disabled={!lockSettings.biometric && !canUseBiometrics()}
+                />
+              </View>
+
+              <View style={[styles.cardRow, styles.cardRowBorder, styles.cardRowStacked]}>
+                <Text style={styles.cardLabel}>Lock After</Text>
+                <View style={styles.chipWrap}>
+                  {IDLE_TIMEOUT_OPTIONS.map(option => {
+                    const isSelected = lockSettings.idleTimeoutMs === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.chip, isSelected && styles.chipActive]}
+                        onPress={() => handleLockSettingsChange({ idleTimeoutMs: option.value })}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{option.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              <View style={[styles.cardRow, styles.cardRowBorder, styles.cardRowStacked]}>
+                <Text style={styles.cardLabel}>Remove Sessions After</Text>
+                <View style={styles.chipWrap}>
+                  {MAX_ATTEMPT_OPTIONS.map(attempts => {
+                    const isSelected = lockSettings.maxAttempts === attempts;
+                    return (
+                      <TouchableOpacity
+                        key={attempts}
+                        style={[styles.chip, isSelected && styles.chipActive]}
+                        onPress={() => handleLockSettingsChange({ maxAttempts: attempts })}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{attempts} failed</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              {connections.map(connection => (
+                <View key={connection.id} style={[styles.cardRow, styles.cardRowBorder]}>
+                  <ShieldAlert size={22} color={connection.requireUnlock ? "#1B96FF" : "#747474"} />
+                  <View style={styles.cardContent}>
+                    <Text style={styles.cardLabel}>Require Unlock</Text>
+                    <Text style={styles.cardDescription} numberOfLines={1}>{connection.name}</Text>
+                  </View>
+                  <Switch
+                    value={!!connection.requireUnlock}
+                    onValueChange={value => handleRequireUnlockChange(connection, value)}
+                  />
+                </View>
+              ))}
+
+              <TouchableOpacity style={[styles.cardRow, styles.cardRowBorder]} onPress={handleRemovePasscode}>
+                <Trash2 size={22} color="#C23934" />
+                <View style={styles.cardContent}>
+                  <Text style={[styles.cardLabel, { color: '#C23934' }]}>Remove Passcode</Text>
+                  <Text style={styles.cardDescription}>Turn the app lock off</Text>
+                </View>
+                <ChevronRight size={20} color="#706E6B" />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+
+      <PasscodeSetupModal visible={showPasscodeSetup} onClose={() => setShowPasscodeSetup(false)} />
+      <PasscodeConfirmModal request={lockChange} onClose={closeLockChange} />
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Data</Text>
         
@@ -450,10 +777,52 @@ const styles = StyleSheet.create({
     color: "#747474",
     fontWeight: "500",
   },
+  orgAction: {
+    padding: 8,
+    marginLeft: 4,
+  },
   cardRowDisabled: {
     opacity: 0.6,
   },
   disabledText: {
     color: "#999",
   },
+  cardRowStacked: {
+    flexDirection: "column",
+    alignItems: "flex-start",
+  },
+  chipWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 4,
+  },
+  versionPicker: {
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  chipRow: {
+    gap: 8,
+    paddingRight: 40,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    backgroundColor: "#FFFFFF",
+  },
+  chipActive: {
+    backgroundColor: "#1B96FF",
+    borderColor: "#1B96FF",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+  },
 });
\ No newline at end of file
@@ -4,6 +4,8 @@ import * as SplashScreen from "expo-splash-screen";
 import React, { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { AuthProvider } from "@/providers/auth-provider";
+import { AppLockProvider } from "@/providers/app-lock-provider";
+import { AppLockGate } from "@/components/app-lock-gate";
 
 SplashScreen.preventAutoHideAsync();
 
@@ -47,7 +49,11 @@ export default function RootLayout() {
     <QueryClientProvider client={queryClient}>
       <GestureHandlerRootView style={{ flex: 1 }}>
         <AuthProvider>
-          <RootLayoutNav />
+          <AppLockProvider>
+            <AppLockGate>
+              <RootLayoutNav />
+            </AppLockGate>
+          </AppLockProvider>
         </AuthProvider>
       </GestureHandlerRootView>
     </QueryClientProvider>
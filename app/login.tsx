@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect } from "react";
 import {
   View,
   Text,
@@ -15,34 +15,18 @@ import { Cloud, Lock, Settings, User, ArrowRight } from "lucide-react-native";
 import { router } from "expo-router";
 
 import { useAuth } from "@/providers/auth-provider";
-
-interface OAuthConfig {
-  clientId: string;
-  instanceUrl?: string;
-}
+import { LoginHostPicker } from "@/components/login-host-picker";
+import { validateLoginHost } from "@/services/login-hosts";
 
 export default function LoginScreen() {
   const [isLoading, setIsLoading] = useState(false);
-  const [oauthConfig, setOauthConfig] = useState<OAuthConfig | null>(null);
-  const [isLoadingConfig, setIsLoadingConfig] = useState(true);
-
-  const { login, isAuthenticated, isLoading: authLoading, loadOAuthConfig: loadAuthConfig } = useAuth();
-
-  const loadOAuthConfig = useCallback(async () => {
-    try {
-      const config = await loadAuthConfig();
-      setOauthConfig(config);
-    } catch (error) {
-      console.error('Error loading OAuth config:', error);
-    } finally {
-      setIsLoadingConfig(false);
-    }
-  }, [loadAuthConfig]);
+  const { login, isAuthenticated, isLoading: authLoading, activeConnection, saveConnection } = useAuth();
+  const [loginHost, setLoginHost] = useState(activeConnection?.authHost || "");
 
-  // Load OAuth config on mount
+  // Start from the org's saved host once connections have loaded or the active org changes
   useEffect(() => {
-    loadOAuthConfig();
-  }, [loadOAuthConfig]);
+    setLoginHost(activeConnection?.authHost || "");
+  }, [activeConnection?.id, activeConnection?.authHost]);
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -53,14 +37,32 @@ export default function LoginScreen() {
   }, [isAuthenticated, authLoading]);
 
   const handleLogin = async () => {
-    if (!oauthConfig) {
+    if (!activeConnection) {
       Alert.alert('Configuration Required', 'Please configure OAuth settings first by going to Settings.');
       return;
     }
 
+    if (!loginHost) {
+      Alert.alert('Login Host Required', 'Enter the My Domain or site URL to sign in through.');
+      return;
+    }
+
     setIsLoading(true);
+    // A changed host is only saved once its OpenID configuration checks out, so a typo is not kept
+    if (loginHost !== activeConnection.authHost) {
+      try {
+        await validateLoginHost(loginHost);
+      } catch (error) {
+        Alert.alert("Invalid Login URL", error instanceof Error ? error.message : "The login URL could not be checked");
+        setIsLoading(false);
+        return;
+      }
+    }
     try {
-      const success = await login(oauthConfig?.instanceUrl);
+      if (loginHost !== activeConnection.authHost) {
+        await saveConnection({ ...activeConnection, authHost: loginHost });
+      }
+      const success = await login(activeConnection.id);
       if (success) {
         console.log('Login successful - redirecting to tabs');
         router.replace("/(tabs)");
@@ -82,7 +84,7 @@ export default function LoginScreen() {
     router.push('/(tabs)/settings');
   };
 
-  const isOAuthConfigured = oauthConfig && oauthConfig.clientId;
+  const isOAuthConfigured = activeConnection && activeConnection.clientId;
   const canLogin = isOAuthConfigured;
 
   return (
@@ -113,7 +115,7 @@ export default function LoginScreen() {
               </View>
               
               <View style={styles.credentialsInputs}>
-                {isLoadingConfig ? (
+                {authLoading ? (
                   <Text style={styles.instructionText}>Loading configuration...</Text>
                 ) : isOAuthConfigured ? (
                   <>
@@ -121,10 +123,10 @@ export default function LoginScreen() {
                       ✅ OAuth Configuration Found
                     </Text>
                     <Text style={styles.instructionText}>
-                      Instance URL: {oauthConfig?.instanceUrl || 'Not configured'}
+                      Org: {activeConnection?.name} ({activeConnection?.authHost})
                     </Text>
                     <Text style={styles.instructionText}>
-                      Consumer Key: {oauthConfig?.clientId.substring(0, 20)}...
+                      Consumer Key: {activeConnection?.clientId.substring(0, 20)}...
                     </Text>
                     <Text style={styles.demoSuggestionText}>
                       🚀 Ready to connect to your Salesforce org!
@@ -150,12 +152,15 @@ export default function LoginScreen() {
 
             {isOAuthConfigured && (
               <View style={styles.domainSection}>
-                <Text style={styles.label}>Salesforce Instance</Text>
-                <View style={styles.domainDisplay}>
-                  <Text style={styles.domainText}>{oauthConfig?.instanceUrl || 'Not configured'}</Text>
-                </View>
+                <Text style={styles.label}>Login Host</Text>
+                <LoginHostPicker
+                  value={loginHost}
+                  onChange={setLoginHost}
+                  recentHosts={activeConnection?.recentHosts}
+                  disabled={isLoading}
+                />
                 <Text style={styles.hint}>
-                  Configured in Settings
+                  Switch or add orgs in Settings
                 </Text>
               </View>
             )}
@@ -516,20 +521,6 @@ const styles = StyleSheet.create({
   domainSection: {
     marginBottom: 20,
   },
-  domainDisplay: {
-    backgroundColor: "#F8F9FA",
-    borderWidth: 1,
-    borderColor: "#E5E5E5",
-    borderRadius: 8,
-    padding: 12,
-    marginBottom: 8,
-  },
-  domainText: {
-    fontSize: 14,
-    color: "#0176D3",
-    fontWeight: "600",
-    textAlign: "center",
-  },
   codeText: {
     fontSize: 13,
     color: "#0176D3",
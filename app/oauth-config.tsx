@@ -9,63 +9,117 @@ import {
   ScrollView,
   KeyboardAvoidingView,
   Platform,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Stack, router } from 'expo-router';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
 import { Save, Info } from 'lucide-react-native';
 import { useAuth } from '@/providers/auth-provider';
+import { createOrgConnectionId } from '@/services/auth';
+import { PRODUCTION_LOGIN_HOST, validateLoginHost } from '@/services/login-hosts';
+import { LoginHostPicker } from '@/components/login-host-picker';
+import {
+  AVAILABLE_SCOPES,
+  DEFAULT_SCOPES,
+  FEATURE_SCOPES,
+  LEAST_PRIVILEGE_SCOPES,
+  getUnavailableFeatures,
+} from '@/services/oauth-scopes';
 
 interface OAuthConfig {
+  name: string;
   clientId: string;
   instanceUrl: string;
+  scopes: string[];
 }
 
+const sameScopes = (a: string[], b: string[]) => a.length === b.length && a.every(scope => b.includes(scope));
+
+// Adds a new org connection, or edits the one passed as orgId
 export default function OAuthConfigScreen() {
-  const { saveOAuthConfig, loadOAuthConfig } = useAuth();
+  const { orgId } = useLocalSearchParams<{ orgId?: string }>();
+  const { connections, activeConnection, saveConnection } = useAuth();
+  const existing = connections.find(connection => connection.id === orgId);
   const [config, setConfig] = useState<OAuthConfig>({
+    name: '',
     clientId: '',
-    instanceUrl: 'https://login.salesforce.com',
+    instanceUrl: PRODUCTION_LOGIN_HOST,
+    scopes: DEFAULT_SCOPES,
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [isValidatingHost, setIsValidatingHost] = useState(false);
 
-  const loadConfig = useCallback(async () => {
-    try {
-      const stored = await loadOAuthConfig();
-      if (stored) {
-        setConfig({
-          clientId: stored.clientId,
-          instanceUrl: stored.instanceUrl || 'https://login.salesforce.com',
-        });
-      }
-    } catch (error) {
-      console.error('Error loading OAuth config:', error);
-    } finally {
-      setIsLoading(false);
+  const loadConfig = useCallback(() => {
+    if (existing) {
+      setConfig({
+        name: existing.name,
+        clientId: existing.clientId,
+        instanceUrl: existing.authHost || PRODUCTION_LOGIN_HOST,
+        scopes: existing.scopes?.length ? existing.scopes : DEFAULT_SCOPES,
+      });
+    } else if (activeConnection) {
+      // A Connected App can log in to any org, so new orgs usually share the Consumer Key
+      setConfig(prev => ({ ...prev, clientId: activeConnection.clientId }));
     }
-  }, [loadOAuthConfig]);
+    setIsLoading(false);
+  }, [existing, activeConnection]);
 
   useEffect(() => {
     loadConfig();
   }, [loadConfig]);
 
   const saveConfig = async () => {
+    if (!config.name.trim()) {
+      Alert.alert('Error', 'Name is required');
+      return;
+    }
+
     if (!config.clientId.trim()) {
       Alert.alert('Error', 'Consumer Key is required');
       return;
     }
 
     if (!config.instanceUrl.trim()) {
-      Alert.alert('Error', 'Instance URL is required');
+      Alert.alert('Error', 'Login URL is required');
+      return;
+    }
+
+    if (config.scopes.length === 0) {
+      Alert.alert('Error', 'Select at least one scope');
       return;
     }
 
     setIsSaving(true);
+    // Catch a mistyped My Domain now rather than at login
+    if (config.instanceUrl !== existing?.authHost) {
+      setIsValidatingHost(true);
+      try {
+        await validateLoginHost(config.instanceUrl);
+      } catch (error) {
+        Alert.alert('Invalid Login URL', error instanceof Error ? error.message : 'The login URL could not be checked');
+        setIsSaving(false);
+        return;
+      } finally {
+        setIsValidatingHost(false);
+      }
+    }
     try {
-      await saveOAuthConfig(config);
+      await saveConnection({
+        ...existing,
+        id: existing?.id || createOrgConnectionId(),
+        name: config.name.trim(),
+        clientId: config.clientId.trim(),
+        authHost: config.instanceUrl,
+        scopes: config.scopes,
+      });
+      // A new grant only comes with a new login
+      const scopesChanged = !!existing && !sameScopes(config.scopes, existing.scopes?.length ? existing.scopes : DEFAULT_SCOPES);
       Alert.alert(
         'Success',
-        'OAuth configuration saved successfully! You can now login to Salesforce from the Settings screen.',
+        scopesChanged
+          ? 'Org connection saved. Re-authorize the org from Settings for the new scopes to apply.'
+          : 'Org connection saved successfully! You can now login to Salesforce from the Settings screen.',
         [
           {
             text: 'OK',
@@ -81,6 +135,16 @@ export default function OAuthConfigScreen() {
     }
   };
 
+  const toggleScope = (scope: string, enabled: boolean) => {
+    setConfig(prev => ({
+      ...prev,
+      scopes: enabled ? [...prev.scopes, scope] : prev.scopes.filter(item => item !== scope),
+    }));
+  };
+
+  // What the chosen scopes leave out, shown before the org is asked for them
+  const missingFeatures = getUnavailableFeatures(config.scopes);
+
   const showHelp = () => {
     Alert.alert(
       'OAuth Configuration Help',
@@ -102,7 +166,7 @@ export default function OAuthConfigScreen() {
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
-        <Stack.Screen options={{ title: 'OAuth Configuration' }} />
+        <Stack.Screen options={{ title: existing ? 'Edit Org' : 'Add Org' }} />
         <View style={styles.loadingContainer}>
           <Text style={styles.loadingText}>Loading configuration...</Text>
         </View>
@@ -114,7 +178,7 @@ export default function OAuthConfigScreen() {
     <SafeAreaView style={styles.container}>
       <Stack.Screen 
         options={{ 
-          title: 'OAuth Configuration',
+          title: existing ? 'Edit Org' : 'Add Org',
           headerRight: () => (
             <TouchableOpacity onPress={showHelp} style={styles.helpButton}>
               <Info size={24} color="#007AFF" />
@@ -136,6 +200,17 @@ export default function OAuthConfigScreen() {
           </View>
 
           <View style={styles.form}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Name *</Text>
+              <TextInput
+                style={styles.input}
+                value={config.name}
+                onChangeText={(text) => setConfig(prev => ({ ...prev, name: text }))}
+                placeholder="Production, UAT sandbox, scratch org..."
+                autoCorrect={false}
+              />
+            </View>
+
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Consumer Key *</Text>
               <TextInput
@@ -153,18 +228,58 @@ export default function OAuthConfigScreen() {
 
 
             <View style={styles.inputGroup}>
-              <Text style={styles.label}>Instance URL *</Text>
-              <TextInput
-                style={styles.input}
+              <Text style={styles.label}>Login URL *</Text>
+              <LoginHostPicker
                 value={config.instanceUrl}
-                onChangeText={(text) => setConfig(prev => ({ ...prev, instanceUrl: text }))}
-                placeholder="https://login.salesforce.com"
-                autoCapitalize="none"
-                autoCorrect={false}
-                keyboardType="url"
+                onChange={(host) => setConfig(prev => ({ ...prev, instanceUrl: host }))}
+                recentHosts={existing?.recentHosts}
+                disabled={isSaving}
               />
               <Text style={styles.helperText}>
-                Use https://login.salesforce.com for production or https://test.salesforce.com for sandbox
+                Use My Domain when your org blocks login.salesforce.com, or Custom for an Experience Cloud site URL
+              </Text>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>OAuth Scopes</Text>
+              <View style={styles.presetRow}>
+                {[
+                  { label: 'Default', scopes: DEFAULT_SCOPES },
+                  { label: 'Least Privilege', scopes: LEAST_PRIVILEGE_SCOPES },
+                ].map(preset => {
+                  const isSelected = sameScopes(config.scopes, preset.scopes);
+                  return (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={[styles.presetChip, isSelected && styles.presetChipActive]}
+                      onPress={() => setConfig(prev => ({ ...prev, scopes: preset.scopes }))}
+                    >
+                      <Text style={[styles.presetChipText, isSelected && styles.presetChipTextActive]}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.scopeList}>
+                {AVAILABLE_SCOPES.map(({ scope, description }, index) => (
+                  <View key={scope} style={[styles.scopeRow, index > 0 && styles.scopeRowBorder]}>
+                    <View style={styles.scopeInfo}>
+                      <Text style={styles.scopeName}>{scope}</Text>
+                      <Text style={styles.scopeDescription}>{description}</Text>
+                    </View>
+                    <Switch
+                      value={config.scopes.includes(scope)}
+                      onValueChange={(enabled) => toggleScope(scope, enabled)}
+                    />
+                  </View>
+                ))}
+              </View>
+              {missingFeatures.length > 0 && (
+                <Text style={styles.scopeWarning}>
+                  Turned off with these scopes: {missingFeatures.map(feature => FEATURE_SCOPES[feature].label).join(', ')}
+                </Text>
+              )}
+              <Text style={styles.helperText}>
+                The Connected App must allow these scopes. The org may grant fewer; features it leaves out are turned off
               </Text>
             </View>
           </View>
@@ -178,7 +293,7 @@ export default function OAuthConfigScreen() {
           >
             <Save size={20} color="white" style={styles.saveIcon} />
             <Text style={styles.saveButtonText}>
-              {isSaving ? 'Saving...' : 'Save Configuration'}
+              {isValidatingHost ? 'Checking login URL...' : isSaving ? 'Saving...' : 'Save Configuration'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -264,6 +379,65 @@ const styles = StyleSheet.create({
     top: 14,
     padding: 4,
   },
+  presetRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  presetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+  },
+  presetChipActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  presetChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+  },
+  presetChipTextActive: {
+    color: 'white',
+  },
+  scopeList: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: 'white',
+  },
+  scopeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+  },
+  scopeRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  scopeInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  scopeName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  scopeDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  scopeWarning: {
+    fontSize: 13,
+    color: '#b45309',
+    fontWeight: '500',
+  },
   helperText: {
     fontSize: 12,
     color: '#666',
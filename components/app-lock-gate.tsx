@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Lock, Fingerprint } from "lucide-react-native";
+import { useAppLock } from "@/providers/app-lock-provider";
+import { useAuth } from "@/providers/auth-provider";
+import { PasscodePad } from "@/components/passcode-pad";
+import { PASSCODE_LENGTH } from "@/services/app-lock";
+
+// Covers the app while it is locked, and blank until the lock state is read; screens stay mounted
+// underneath so nothing reloads on unlock
+export function AppLockGate({ children }: { children: React.ReactNode }) {
+  const { isLoaded, isLocked, recordActivity } = useAppLock();
+
+  return (
+    <View
+      style={styles.root}
+      onStartShouldSetResponderCapture={() => {
+        recordActivity();
+        return false;
+      }}
+    >
+      {children}
+      {!isLoaded ? <View style={styles.overlay} /> : isLocked && <LockScreen />}
+    </View>
+  );
+}
+
+function LockScreen() {
+  const { settings, failedAttempts, unlock, unlockBiometric } = useAppLock();
+  const { activeConnection } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  // Offer biometrics straight away rather than waiting for a tap
+  useEffect(() => {
+    if (settings.biometric) unlockBiometric();
+  }, [settings.biometric, unlockBiometric]);
+
+  const handlePasscode = async (passcode: string) => {
+    if (await unlock(passcode)) return;
+    setError("Incorrect passcode");
+  };
+
+  const attemptsLeft = settings.maxAttempts - failedAttempts;
+
+  return (
+    <View style={styles.overlay}>
+      <Lock size={36} color="#1B96FF" />
+      <Text style={styles.title}>Enter Passcode</Text>
+      <Text style={styles.subtitle}>{activeConnection?.name || "Salesforce"} is locked</Text>
+      {failedAttempts > 0 && (
+        <Text style={styles.warning}>
+          {attemptsLeft === 1
+            ? "1 attempt left before stored sessions are removed"
+            : `${attemptsLeft} attempts left before stored sessions are removed`}
+        </Text>
+      )}
+      <PasscodePad
+        length={PASSCODE_LENGTH}
+        onComplete={handlePasscode}
+        error={error}
+        accessory={settings.biometric ? (
+          <TouchableOpacity onPress={unlockBiometric} style={styles.biometricButton}>
+            <Fingerprint size={30} color="#1B96FF" />
+          </TouchableOpacity>
+        ) : null}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "#FFFFFF",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#16325C",
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: "#5F6368",
+    marginTop: 6,
+    marginBottom: 24,
+  },
+  warning: {
+    fontSize: 13,
+    color: "#FE9339",
+    fontWeight: "600",
+    marginTop: -12,
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  biometricButton: {
+    padding: 12,
+  },
+});
@@ -0,0 +1,68 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { ShieldOff } from "lucide-react-native";
+import { router } from "expo-router";
+import { useAuth } from "@/providers/auth-provider";
+import { FEATURE_SCOPES, type ScopedFeature } from "@/services/oauth-scopes";
+
+// Shows its children only when the org granted a scope the feature needs
+export function FeatureGate({ feature, children }: { feature: ScopedFeature; children: React.ReactNode }) {
+  const { unavailableFeatures, activeConnection } = useAuth();
+  if (!unavailableFeatures.includes(feature)) return <>{children}</>;
+
+  const { label, anyOf } = FEATURE_SCOPES[feature];
+  return (
+    <View style={styles.container}>
+      <ShieldOff size={40} color="#C4C7C5" />
+      <Text style={styles.title}>{label} unavailable</Text>
+      <Text style={styles.text}>
+        {activeConnection?.name || "This org"} did not grant the {anyOf.map(scope => `"${scope}"`).join(" or ")} scope.
+        Add it to the org&apos;s scopes and re-authorize to turn this on.
+      </Text>
+      {activeConnection && (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => router.push({ pathname: "/oauth-config", params: { orgId: activeConnection.id } })}
+        >
+          <Text style={styles.buttonText}>Edit Scopes</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+    backgroundColor: "#F8F9FA",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#16325C",
+    marginTop: 12,
+    marginBottom: 6,
+    textAlign: "center",
+  },
+  text: {
+    fontSize: 14,
+    color: "#5F6368",
+    textAlign: "center",
+    lineHeight: 20,
+  },
+  button: {
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#1B96FF",
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
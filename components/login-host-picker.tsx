@@ -0,0 +1,228 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from "react-native";
+import { History } from "lucide-react-native";
+import {
+  LOGIN_HOST_KINDS,
+  PRODUCTION_LOGIN_HOST,
+  SANDBOX_LOGIN_HOST,
+  describeLoginHost,
+  detectLoginHostKind,
+  myDomainLoginHost,
+  myDomainName,
+  normalizeLoginHost,
+  type LoginHostKind,
+} from "@/services/login-hosts";
+
+interface LoginHostPickerProps {
+  value: string;
+  onChange: (host: string) => void;
+  // Hosts the org logged in through before, offered as shortcuts
+  recentHosts?: string[];
+  disabled?: boolean;
+}
+
+function hostFor(kind: LoginHostKind, domain: string, custom: string): string {
+  switch (kind) {
+    case "production":
+      return PRODUCTION_LOGIN_HOST;
+    case "sandbox":
+      return SANDBOX_LOGIN_HOST;
+    case "my-domain":
+      return myDomainLoginHost(domain);
+    default:
+      return normalizeLoginHost(custom);
+  }
+}
+
+// Production, sandbox, My Domain or any other login host such as an Experience Cloud site
+export function LoginHostPicker({ value, onChange, recentHosts, disabled }: LoginHostPickerProps) {
+  const [kind, setKind] = useState<LoginHostKind>(() => detectLoginHostKind(value));
+  const [domain, setDomain] = useState(() => myDomainName(value) || "");
+  const [custom, setCustom] = useState(() => (detectLoginHostKind(value) === "custom" ? value : ""));
+
+  // Follow hosts set from outside, e.g. a recent host or a loaded connection
+  const [syncedValue, setSyncedValue] = useState(value);
+  if (value !== syncedValue) {
+    setSyncedValue(value);
+    if (value !== hostFor(kind, domain, custom)) {
+      const detected = detectLoginHostKind(value);
+      setKind(detected);
+      if (detected === "my-domain") setDomain(myDomainName(value) || "");
+      if (detected === "custom") setCustom(value);
+    }
+  }
+
+  const select = (next: LoginHostKind, nextDomain = domain, nextCustom = custom) => {
+    setKind(next);
+    setDomain(nextDomain);
+    setCustom(nextCustom);
+    onChange(hostFor(next, nextDomain, nextCustom));
+  };
+
+  const otherRecentHosts = (recentHosts || []).filter(host => host !== value);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.segments}>
+        {LOGIN_HOST_KINDS.map(option => {
+          const isSelected = option.kind === kind;
+          return (
+            <TouchableOpacity
+              key={option.kind}
+              style={[styles.segment, isSelected && styles.segmentActive]}
+              onPress={() => select(option.kind)}
+              disabled={disabled}
+            >
+              <Text style={[styles.segmentText, isSelected && styles.segmentTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {kind === "my-domain" && (
+        <View style={styles.domainRow}>
+          <Text style={styles.affix}>https://</Text>
+          <TextInput
+            style={styles.domainInput}
+            value={domain}
+            onChangeText={text => select("my-domain", text, custom)}
+            placeholder="acme or acme--uat.sandbox"
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!disabled}
+          />
+          <Text style={styles.affix}>.my.salesforce.com</Text>
+        </View>
+      )}
+
+      {kind === "custom" && (
+        <TextInput
+          style={styles.input}
+          value={custom}
+          onChangeText={text => select("custom", domain, text)}
+          placeholder="https://acme.my.site.com/partners"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          editable={!disabled}
+        />
+      )}
+
+      <Text style={styles.resolvedText} numberOfLines={1}>
+        {value ? `Signs in at ${value}` : "Enter a domain to sign in through"}
+      </Text>
+
+      {otherRecentHosts.length > 0 && (
+        <View style={styles.recentSection}>
+          <View style={styles.recentHeader}>
+            <History size={14} color="#5F6368" />
+            <Text style={styles.recentTitle}>Recent</Text>
+          </View>
+          <View style={styles.recentChips}>
+            {otherRecentHosts.map(host => (
+              <TouchableOpacity key={host} style={styles.recentChip} onPress={() => onChange(host)} disabled={disabled}>
+                <Text style={styles.recentChipText} numberOfLines={1}>{describeLoginHost(host)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  segments: {
+    flexDirection: "row",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    overflow: "hidden",
+    backgroundColor: "#FFFFFF",
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  segmentActive: {
+    backgroundColor: "#1B96FF",
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  segmentTextActive: {
+    color: "#FFFFFF",
+  },
+  domainRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#DDDDDD",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    backgroundColor: "#FFFFFF",
+    minHeight: 48,
+  },
+  affix: {
+    fontSize: 14,
+    color: "#5F6368",
+  },
+  domainInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#DDDDDD",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: "#FFFFFF",
+    minHeight: 48,
+  },
+  resolvedText: {
+    fontSize: 12,
+    color: "#5F6368",
+  },
+  recentSection: {
+    gap: 6,
+  },
+  recentHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  recentTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5F6368",
+    textTransform: "uppercase",
+  },
+  recentChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  recentChip: {
+    maxWidth: "100%",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    backgroundColor: "#FFFFFF",
+  },
+  recentChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1B96FF",
+  },
+});
@@ -0,0 +1,380 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  FlatList,
+  TouchableOpacity,
+  Share,
+  Platform,
+  Alert,
+} from "react-native";
+import { ArrowRight, ChevronDown, ChevronRight, Share as ShareIcon } from "lucide-react-native";
+import { diffToCsv, DIFF_CATEGORY_LABELS } from "@/services/org-compare";
+import type { MetadataDiffCategory, MetadataDiffItem, MetadataDiffResult, MetadataDiffStatus } from "@/types/salesforce";
+
+const STATUS_STYLES: Record<MetadataDiffStatus, { label: string; color: string; backgroundColor: string }> = {
+  added: { label: "Added", color: "#137333", backgroundColor: "#E6F4EA" },
+  removed: { label: "Removed", color: "#C5221F", backgroundColor: "#FCE8E6" },
+  changed: { label: "Changed", color: "#B06000", backgroundColor: "#FEF7E0" },
+};
+
+interface MetadataDiffListProps {
+  result: MetadataDiffResult | undefined;
+  // Rendered above the summary, scrolling with the list
+  header: React.ReactElement;
+  filenamePrefix: string;
+}
+
+// Filterable added/removed/changed list with CSV export, shared by org comparison and snapshot history
+export function MetadataDiffList({ result, header, filenamePrefix }: MetadataDiffListProps) {
+  const [categoryFilter, setCategoryFilter] = useState<MetadataDiffCategory | "all">("all");
+  const [statusFilter, setStatusFilter] = useState<MetadataDiffStatus | "all">("all");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setCategoryFilter("all");
+    setStatusFilter("all");
+    setExpanded(new Set());
+  }, [result]);
+
+  const categoryCounts = useMemo(() => {
+    const counts = {} as Record<MetadataDiffCategory, number>;
+    (Object.keys(DIFF_CATEGORY_LABELS) as MetadataDiffCategory[]).forEach(category => {
+      counts[category] = 0;
+    });
+    result?.items.forEach(item => {
+      counts[item.category]++;
+    });
+    return counts;
+  }, [result]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<MetadataDiffStatus, number> = { added: 0, removed: 0, changed: 0 };
+    result?.items
+      .filter(item => categoryFilter === "all" || item.category === categoryFilter)
+      .forEach(item => {
+        counts[item.status]++;
+      });
+    return counts;
+  }, [result, categoryFilter]);
+
+  const visibleItems = useMemo(
+    () =>
+      (result?.items || []).filter(
+        item =>
+          (categoryFilter === "all" || item.category === categoryFilter) &&
+          (statusFilter === "all" || item.status === statusFilter)
+      ),
+    [result, categoryFilter, statusFilter]
+  );
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    if (!result) return;
+    const csvContent = diffToCsv(visibleItems, result.sourceName, result.targetName);
+    const filename = `${filenamePrefix}_${result.comparedAt.split("T")[0]}.csv`;
+
+    if (Platform.OS === "web") {
+      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", filename);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      return;
+    }
+
+    try {
+      await Share.share({ title: filename, message: csvContent });
+    } catch (error) {
+      console.error("Error sharing diff:", error);
+      Alert.alert("Error", "Failed to share the differences.");
+    }
+  };
+
+  const renderItem = ({ item }: { item: MetadataDiffItem }) => {
+    const key = `${item.category}:${item.name}`;
+    const status = STATUS_STYLES[item.status];
+    const canExpand = item.changes.length > 0;
+    const isExpanded = expanded.has(key);
+
+    return (
+      <TouchableOpacity
+        style={styles.diffRow}
+        onPress={() => toggleExpanded(key)}
+        disabled={!canExpand}
+        activeOpacity={0.7}
+      >
+        <View style={styles.diffHeader}>
+          <View style={[styles.statusBadge, { backgroundColor: status.backgroundColor }]}>
+            <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+          </View>
+          <View style={styles.diffInfo}>
+            <Text style={styles.diffName} numberOfLines={1}>{item.name}</Text>
+            <Text style={styles.diffCategory}>
+              {DIFF_CATEGORY_LABELS[item.category]}
+              {canExpand ? ` · ${item.changes.map(change => change.property).join(", ")}` : ""}
+            </Text>
+          </View>
+          {canExpand && (isExpanded ? <ChevronDown size={18} color="#5F6368" /> : <ChevronRight size={18} color="#5F6368" />)}
+        </View>
+        {isExpanded && item.changes.map(change => (
+          <View key={change.property} style={styles.changeRow}>
+            <Text style={styles.changeProperty}>{change.property}</Text>
+            <View style={styles.changeValues}>
+              <Text style={styles.changeSource}>{change.source}</Text>
+              <ArrowRight size={14} color="#5F6368" />
+              <Text style={styles.changeTarget}>{change.target}</Text>
+            </View>
+          </View>
+        ))}
+      </TouchableOpacity>
+    );
+  };
+
+  const listHeader = (
+    <View>
+      {header}
+      {result && (
+        <View style={styles.summary}>
+          <View style={styles.summaryHeader}>
+            <Text style={styles.summaryTitle}>
+              {result.sourceName} → {result.targetName}
+            </Text>
+            <TouchableOpacity style={styles.exportButton} onPress={handleExport} disabled={visibleItems.length === 0}>
+              <ShareIcon size={16} color="#1B96FF" />
+              <Text style={styles.exportText}>Export</Text>
+            </TouchableOpacity>
+          </View>
+          {result.skippedCategories.length > 0 && (
+            <Text style={styles.skippedText}>
+              Not compared, as they could not be read completely:{" "}
+              {result.skippedCategories.map(category => DIFF_CATEGORY_LABELS[category]).join(", ")}
+            </Text>
+          )}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, categoryFilter === "all" && styles.chipActive]}
+              onPress={() => setCategoryFilter("all")}
+            >
+              <Text style={[styles.chipText, categoryFilter === "all" && styles.chipTextActive]}>
+                All ({result.items.length})
+              </Text>
+            </TouchableOpacity>
+            {(Object.keys(DIFF_CATEGORY_LABELS) as MetadataDiffCategory[]).map(category => (
+              <TouchableOpacity
+                key={category}
+                style={[styles.chip, categoryFilter === category && styles.chipActive]}
+                onPress={() => setCategoryFilter(category)}
+              >
+                <Text style={[styles.chipText, categoryFilter === category && styles.chipTextActive]}>
+                  {DIFF_CATEGORY_LABELS[category]} ({categoryCounts[category]})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <View style={styles.statusRow}>
+            {(["all", "added", "removed", "changed"] as const).map(status => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.statusFilter, statusFilter === status && styles.statusFilterActive]}
+                onPress={() => setStatusFilter(status)}
+              >
+                <Text style={[styles.statusFilterText, statusFilter === status && styles.statusFilterTextActive]}>
+                  {status === "all" ? "All" : `${STATUS_STYLES[status].label} (${statusCounts[status]})`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <FlatList
+      data={visibleItems}
+      keyExtractor={item => `${item.category}:${item.name}`}
+      renderItem={renderItem}
+      ListHeaderComponent={listHeader}
+      ListEmptyComponent={
+        result ? <Text style={styles.noDifferences}>No differences found</Text> : null
+      }
+      contentContainerStyle={styles.listContent}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    paddingBottom: 32,
+  },
+  summary: {
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  summaryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  summaryTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#16325C",
+    marginRight: 12,
+  },
+  skippedText: {
+    fontSize: 13,
+    color: "#B06000",
+    lineHeight: 18,
+    marginBottom: 10,
+  },
+  exportButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E8F0FE",
+  },
+  exportText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1B96FF",
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#DADCE0",
+    backgroundColor: "#FFFFFF",
+  },
+  chipActive: {
+    backgroundColor: "#1B96FF",
+    borderColor: "#1B96FF",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+  },
+  statusRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+  statusFilter: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: "#F1F3F4",
+  },
+  statusFilterActive: {
+    backgroundColor: "#16325C",
+  },
+  statusFilterText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5F6368",
+  },
+  statusFilterTextActive: {
+    color: "#FFFFFF",
+  },
+  noDifferences: {
+    fontSize: 14,
+    color: "#5F6368",
+    textAlign: "center",
+    marginTop: 24,
+  },
+  diffRow: {
+    backgroundColor: "#FFFFFF",
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 10,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#E8EAED",
+  },
+  diffHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  diffInfo: {
+    flex: 1,
+  },
+  diffName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#202124",
+  },
+  diffCategory: {
+    fontSize: 12,
+    color: "#5F6368",
+    marginTop: 2,
+  },
+  changeRow: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#F1F3F4",
+  },
+  changeProperty: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5F6368",
+    marginBottom: 4,
+  },
+  changeValues: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  changeSource: {
+    flex: 1,
+    fontSize: 13,
+    color: "#C5221F",
+  },
+  changeTarget: {
+    flex: 1,
+    fontSize: 13,
+    color: "#137333",
+  },
+});
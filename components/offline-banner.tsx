@@ -0,0 +1,57 @@
+import React, { useEffect, useSyncExternalStore } from "react";
+import { View, Text, StyleSheet, AppState, TouchableOpacity } from "react-native";
+import { WifiOff } from "lucide-react-native";
+import { checkConnectivity, isNetworkOnline, subscribeNetworkStatus } from "@/services/connectivity";
+
+// Floating notice while Salesforce cannot be reached; screens keep showing their cached results
+export function OfflineBanner({ bottomOffset }: { bottomOffset: number }) {
+  const isOnline = useSyncExternalStore(subscribeNetworkStatus, isNetworkOnline);
+
+  // Check straight away when the app comes back to the foreground rather than on the next probe
+  useEffect(() => {
+    if (isOnline) return;
+    const subscription = AppState.addEventListener("change", state => {
+      if (state === "active") checkConnectivity();
+    });
+    return () => subscription.remove();
+  }, [isOnline]);
+
+  if (isOnline) return null;
+
+  return (
+    <View style={[styles.container, { bottom: bottomOffset }]} pointerEvents="box-none">
+      <TouchableOpacity style={styles.banner} onPress={checkConnectivity} activeOpacity={0.8}>
+        <WifiOff size={16} color="#FFFFFF" />
+        <Text style={styles.text}>Offline · showing saved data. Tap to retry</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    alignItems: "center",
+  },
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    backgroundColor: "#3E3E3C",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
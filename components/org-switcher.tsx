@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Pressable,
+} from "react-native";
+import { router } from "expo-router";
+import { Building, Check, ChevronDown, Settings } from "lucide-react-native";
+import { useAuth } from "@/providers/auth-provider";
+
+// Active org pill for the blue screen headers; opens a picker of every saved connection
+export function OrgSwitcher() {
+  const { connections, activeConnection, switchOrg } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (connections.length === 0) return null;
+
+  const handleSelect = async (orgId: string) => {
+    setIsOpen(false);
+    await switchOrg(orgId);
+  };
+
+  const handleManage = () => {
+    setIsOpen(false);
+    router.push("/(tabs)/settings");
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.pill} onPress={() => setIsOpen(true)} testID="org-switcher">
+        <Building size={14} color="#FFFFFF" />
+        <Text style={styles.pillText} numberOfLines={1}>
+          {activeConnection?.name || "Select org"}
+        </Text>
+        <ChevronDown size={14} color="#FFFFFF" />
+      </TouchableOpacity>
+
+      <Modal visible={isOpen} transparent animationType="fade" onRequestClose={() => setIsOpen(false)}>
+        <Pressable style={styles.overlay} onPress={() => setIsOpen(false)}>
+          <Pressable style={styles.sheet}>
+            <Text style={styles.sheetTitle}>Switch Org</Text>
+            <ScrollView style={styles.list}>
+              {connections.map(connection => {
+                const isActive = connection.id === activeConnection?.id;
+                return (
+                  <TouchableOpacity
+                    key={connection.id}
+                    style={[styles.row, isActive && styles.rowActive]}
+                    onPress={() => handleSelect(connection.id)}
+                  >
+                    <View style={styles.rowInfo}>
+                      <Text style={styles.rowName}>{connection.name}</Text>
+                      <Text style={styles.rowDetail} numberOfLines={1}>
+                        {connection.username || connection.authHost}
+                      </Text>
+                    </View>
+                    {isActive && <Check size={18} color="#1B96FF" />}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+            <TouchableOpacity style={styles.manageButton} onPress={handleManage}>
+              <Settings size={16} color="#1B96FF" />
+              <Text style={styles.manageText}>Manage orgs</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    maxWidth: 240,
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginBottom: 12,
+  },
+  pillText: {
+    fontSize: 13,
+    color: "#FFFFFF",
+    fontWeight: "600",
+    flexShrink: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "center",
+    padding: 24,
+  },
+  sheet: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    maxHeight: "70%",
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#16325C",
+    marginBottom: 12,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: "#F1F3F4",
+  },
+  rowActive: {
+    borderColor: "#1B96FF",
+    backgroundColor: "#F0F8FF",
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#16325C",
+  },
+  rowDetail: {
+    fontSize: 13,
+    color: "#747474",
+    marginTop: 2,
+  },
+  manageButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingTop: 14,
+    marginTop: 6,
+    borderTopWidth: 1,
+    borderTopColor: "#F1F3F4",
+  },
+  manageText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1B96FF",
+  },
+});
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from "react-native";
+import { X, Fingerprint } from "lucide-react-native";
+import { useAppLock } from "@/providers/app-lock-provider";
+import { PasscodePad } from "@/components/passcode-pad";
+import { PASSCODE_LENGTH } from "@/services/app-lock";
+
+// A change that weakens the app lock; apply gets the entered passcode, or none for biometrics
+export interface LockChangeRequest {
+  title: string;
+  apply: (passcode?: string) => Promise<boolean>;
+}
+
+// Asks for the passcode, or biometrics when they are on, before applying a lock change. onClose
+// must be stable, as a new one offers biometrics again
+export function PasscodeConfirmModal({ request, onClose }: { request: LockChangeRequest | null; onClose: () => void }) {
+  const { settings, failedAttempts } = useAppLock();
+  const [error, setError] = useState<string | null>(null);
+
+  const applyBiometric = useCallback(async () => {
+    if (request && await request.apply()) onClose();
+  }, [request, onClose]);
+
+  // Offer biometrics straight away rather than waiting for a tap
+  useEffect(() => {
+    setError(null);
+    if (settings.biometric) applyBiometric();
+  }, [settings.biometric, applyBiometric]);
+
+  const handlePasscode = async (passcode: string) => {
+    if (!request) return;
+    if (await request.apply(passcode)) {
+      onClose();
+      return;
+    }
+    setError("Incorrect passcode");
+  };
+
+  const attemptsLeft = settings.maxAttempts - failedAttempts;
+
+  return (
+    <Modal visible={!!request} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={24} color="#5F6368" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{request?.title}</Text>
+        <Text style={styles.subtitle}>Enter the app passcode to confirm</Text>
+        {failedAttempts > 0 && (
+          <Text style={styles.warning}>
+            {attemptsLeft === 1
+              ? "1 attempt left before stored sessions are removed"
+              : `${attemptsLeft} attempts left before stored sessions are removed`}
+          </Text>
+        )}
+        <PasscodePad
+          length={PASSCODE_LENGTH}
+          onComplete={handlePasscode}
+          error={error}
+          accessory={settings.biometric ? (
+            <TouchableOpacity onPress={applyBiometric} style={styles.biometricButton}>
+              <Fingerprint size={30} color="#1B96FF" />
+            </TouchableOpacity>
+          ) : null}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  closeButton: {
+    position: "absolute",
+    top: 20,
+    right: 20,
+    padding: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#16325C",
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#5F6368",
+    marginTop: 6,
+    marginBottom: 24,
+    textAlign: "center",
+  },
+  warning: {
+    fontSize: 13,
+    color: "#FE9339",
+    fontWeight: "600",
+    marginTop: -12,
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  biometricButton: {
+    padding: 12,
+  },
+});
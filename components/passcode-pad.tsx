@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Delete } from "lucide-react-native";
+
+const KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+interface PasscodePadProps {
+  length: number;
+  // Called once all digits are entered; the dots clear when it settles
+  onComplete: (passcode: string) => void | Promise<void>;
+  error?: string | null;
+  disabled?: boolean;
+  // Shown bottom left, e.g. the biometric unlock button
+  accessory?: React.ReactNode;
+}
+
+export function PasscodePad({ length, onComplete, error, disabled, accessory }: PasscodePadProps) {
+  const [digits, setDigits] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const isDisabled = disabled || isChecking;
+
+  const handleKey = async (key: string) => {
+    if (isDisabled || digits.length >= length) return;
+    const entered = digits + key;
+    setDigits(entered);
+    if (entered.length < length) return;
+
+    setIsChecking(true);
+    try {
+      await onComplete(entered);
+    } finally {
+      setDigits("");
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dots}>
+        {Array.from({ length }, (_, i) => (
+          <View key={i} style={[styles.dot, i < digits.length && styles.dotFilled]} />
+        ))}
+      </View>
+      <Text style={styles.errorText}>{error || " "}</Text>
+
+      <View style={styles.keypad}>
+        {KEYS.map(key => (
+          <TouchableOpacity key={key} style={[styles.key, styles.digitKey]} onPress={() => handleKey(key)} disabled={isDisabled}>
+            <Text style={styles.keyText}>{key}</Text>
+          </TouchableOpacity>
+        ))}
+        <View style={styles.key}>{accessory}</View>
+        <TouchableOpacity style={[styles.key, styles.digitKey]} onPress={() => handleKey("0")} disabled={isDisabled}>
+          <Text style={styles.keyText}>0</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => setDigits(current => current.slice(0, -1))}
+          disabled={isDisabled || digits.length === 0}
+        >
+          <Delete size={26} color="#16325C" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+  },
+  dots: {
+    flexDirection: "row",
+    gap: 16,
+    marginBottom: 12,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: "#1B96FF",
+  },
+  dotFilled: {
+    backgroundColor: "#1B96FF",
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#C23934",
+    fontWeight: "500",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  keypad: {
+    width: 264,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    rowGap: 16,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  digitKey: {
+    backgroundColor: "#F1F3F4",
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: "500",
+    color: "#16325C",
+  },
+});
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from "react-native";
+import { X } from "lucide-react-native";
+import { useAppLock } from "@/providers/app-lock-provider";
+import { PasscodePad } from "@/components/passcode-pad";
+import { PASSCODE_LENGTH } from "@/services/app-lock";
+
+type Step = "current" | "new" | "confirm";
+
+const STEP_TITLES: Record<Step, string> = {
+  current: "Enter Current Passcode",
+  new: "Choose a Passcode",
+  confirm: "Confirm Passcode",
+};
+
+// Sets or changes the app passcode; changing it asks for the current one first
+export function PasscodeSetupModal({ visible, onClose }: { visible: boolean; onClose: () => void }) {
+  const { isPasscodeSet, confirmOwner, setAppPasscode } = useAppLock();
+  const [step, setStep] = useState<Step>("new");
+  // Checked again when the new passcode is saved
+  const [current, setCurrent] = useState<string | undefined>(undefined);
+  const [chosen, setChosen] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setStep(isPasscodeSet ? "current" : "new");
+    setCurrent(undefined);
+    setChosen("");
+    setError(null);
+  }, [visible, isPasscodeSet]);
+
+  const handleComplete = async (passcode: string) => {
+    if (step === "current") {
+      if (await confirmOwner(passcode)) {
+        setCurrent(passcode);
+        setStep("new");
+        setError(null);
+      } else {
+        setError("Incorrect passcode");
+      }
+      return;
+    }
+    if (step === "new") {
+      setChosen(passcode);
+      setStep("confirm");
+      setError(null);
+      return;
+    }
+    if (passcode !== chosen) {
+      setStep("new");
+      setError("Passcodes did not match. Try again.");
+      return;
+    }
+    if (!(await setAppPasscode(passcode, current))) {
+      setStep(isPasscodeSet ? "current" : "new");
+      setError("Incorrect passcode");
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={24} color="#5F6368" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{STEP_TITLES[step]}</Text>
+        <Text style={styles.subtitle}>{PASSCODE_LENGTH} digits, asked for when a locked org is opened</Text>
+        <PasscodePad length={PASSCODE_LENGTH} onComplete={handleComplete} error={error} />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  closeButton: {
+    position: "absolute",
+    top: 20,
+    right: 20,
+    padding: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#16325C",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#5F6368",
+    marginTop: 6,
+    marginBottom: 24,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,30 @@
+import type { ReferenceConfidence } from "@/types/salesforce";
+
+export interface ReferenceConfidenceStyle {
+    label: string;
+    description: string;
+    color: string;
+    backgroundColor: string;
+  }
+
+  // How sure the where-used analysis is about each referencing file
+  export const REFERENCE_CONFIDENCE: Record<ReferenceConfidence, ReferenceConfidenceStyle> = {
+    confirmed: {
+      label: 'Confirmed',
+      description: 'Reported by Salesforce dependency tracking',
+      color: '#137333',
+      backgroundColor: '#E6F4EA',
+    },
+    parsed: {
+      label: 'Parsed',
+      description: 'Object.Field reference found in the source',
+      color: '#1565C0',
+      backgroundColor: '#E3F2FD',
+    },
+    possible: {
+      label: 'Possible',
+      description: 'Only the field name appears in the source',
+      color: '#B06000',
+      backgroundColor: '#FEF7E0',
+    },
+  };
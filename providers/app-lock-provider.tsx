@@ -0,0 +1,235 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import createContextHook from "@nkzw/create-context-hook";
+import { Alert, AppState } from "react-native";
+import { focusManager, useQueryClient } from "@tanstack/react-query";
+
+import { useAuth } from "@/providers/auth-provider";
+import type { OrgConnection } from "@/services/auth";
+import {
+  loadAppLockSettings,
+  saveAppLockSettings,
+  hasPasscode,
+  setPasscode,
+  verifyPasscode,
+  getFailedAttempts,
+  recordFailedAttempt,
+  resetFailedAttempts,
+  enableBiometricUnlock,
+  disableBiometricUnlock,
+  unlockWithBiometrics,
+  clearAppLock,
+  weakensAppLock,
+  DEFAULT_APP_LOCK_SETTINGS,
+  type AppLockSettings,
+} from "@/services/app-lock";
+
+export const [AppLockProvider, useAppLock] = createContextHook(() => {
+  const { connections, activeConnection, isLoading: isAuthLoading, saveConnection, revokeOrgSessions, setSessionPaused } = useAuth();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<AppLockSettings>(DEFAULT_APP_LOCK_SETTINGS);
+  // False until the stored lock state is read; until then nothing can tell whether to lock
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isPasscodeSet, setIsPasscodeSet] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  // Unlocking once covers every org until the app is idle for too long
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const lastActivityRef = useRef(Date.now());
+
+  // Read again when connections change, so "Reset App Data" clearing the lock is picked up
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadAppLockSettings(), hasPasscode(), getFailedAttempts()])
+      .then(([storedSettings, passcodeSet, attempts]) => {
+        if (cancelled) return;
+        setSettings(storedSettings);
+        setIsPasscodeSet(passcodeSet);
+        setFailedAttempts(attempts);
+      })
+      .catch(error => console.warn('Error loading app lock state:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connections]);
+
+  // Only orgs marked "require unlock" are gated, and only once a passcode exists
+  const isLockRequired = isPasscodeSet && !!activeConnection?.requireUnlock;
+  const isLocked = isLockRequired && !isUnlocked;
+
+  // The lock is more than an overlay: while it is up, or not yet known, API requests wait, the
+  // token is not refreshed and React Query neither refetches on focus nor on an interval. It is
+  // unknown until the settings are read and, while auth loads, until the org to open is known
+  const isPaused = !isLoaded || isLocked || (isAuthLoading && !activeConnection);
+  useEffect(() => {
+    setSessionPaused(isPaused);
+    if (!isPaused) return;
+    focusManager.setFocused(false);
+    queryClient.cancelQueries();
+    return () => focusManager.setFocused(undefined);
+  }, [isPaused, setSessionPaused, queryClient]);
+
+  const recordActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  const completeUnlock = useCallback(async () => {
+    await resetFailedAttempts();
+    setFailedAttempts(0);
+    recordActivity();
+    setIsUnlocked(true);
+  }, [recordActivity]);
+
+  // Too many wrong passcodes: the protected orgs' tokens are revoked and removed, so whoever
+  // holds the phone has to log in to Salesforce again
+  const wipeProtectedSessions = useCallback(async () => {
+    const protectedOrgIds = connections.filter(connection => connection.requireUnlock).map(connection => connection.id);
+    console.log('App lock: too many failed attempts, wiping sessions of', protectedOrgIds.length, 'orgs');
+    await revokeOrgSessions(protectedOrgIds);
+    await resetFailedAttempts();
+    setFailedAttempts(0);
+    setIsUnlocked(true);
+    Alert.alert(
+      'Sessions Removed',
+      'Too many incorrect passcodes. Stored sessions of locked orgs were removed; log in again to continue.'
+    );
+  }, [connections, revokeOrgSessions]);
+
+  // Every passcode check shares the failure count, so guessing through the settings screen ends
+  // in the same wipe as guessing at the lock screen
+  const checkPasscode = useCallback(async (passcode: string): Promise<boolean> => {
+    if (await verifyPasscode(passcode)) {
+      await resetFailedAttempts();
+      setFailedAttempts(0);
+      return true;
+    }
+    const attempts = await recordFailedAttempt();
+    setFailedAttempts(attempts);
+    if (attempts >= settings.maxAttempts) {
+      await wipeProtectedSessions();
+    }
+    return false;
+  }, [settings.maxAttempts, wipeProtectedSessions]);
+
+  // True when the passcode was right
+  const unlock = useCallback(async (passcode: string): Promise<boolean> => {
+    if (!(await checkPasscode(passcode))) return false;
+    await completeUnlock();
+    return true;
+  }, [checkPasscode, completeUnlock]);
+
+  // Proof that the owner is making a change that weakens the lock: the passcode, or without one
+  // a biometric prompt when biometrics are on
+  const confirmOwner = useCallback(async (passcode?: string): Promise<boolean> => {
+    if (passcode !== undefined) return checkPasscode(passcode);
+    return settings.biometric && await unlockWithBiometrics();
+  }, [checkPasscode, settings.biometric]);
+
+  // Cancelled or failed biometric checks are left to the OS and do not count as failed attempts
+  const unlockBiometric = useCallback(async (): Promise<boolean> => {
+    if (!settings.biometric || !(await unlockWithBiometrics())) return false;
+    await completeUnlock();
+    return true;
+  }, [settings.biometric, completeUnlock]);
+
+  // Lock when the app comes back after the idle timeout. Only a real trip to the background counts;
+  // the biometric prompt itself makes the app briefly inactive
+  useEffect(() => {
+    if (!isLockRequired) return;
+    let previousState = AppState.currentState;
+    const subscription = AppState.addEventListener("change", state => {
+      if (state === "active" && previousState === "background"
+        && Date.now() - lastActivityRef.current >= settings.idleTimeoutMs) {
+        setIsUnlocked(false);
+      }
+      if (state === "background" && settings.idleTimeoutMs === 0) {
+        setIsUnlocked(false);
+      }
+      previousState = state;
+    });
+    return () => subscription.remove();
+  }, [isLockRequired, settings.idleTimeoutMs]);
+
+  // Lock while the app stays open but untouched
+  useEffect(() => {
+    if (!isLockRequired || !isUnlocked || settings.idleTimeoutMs === 0) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const check = () => {
+      const idle = Date.now() - lastActivityRef.current;
+      if (idle >= settings.idleTimeoutMs) {
+        setIsUnlocked(false);
+      } else {
+        timer = setTimeout(check, settings.idleTimeoutMs - idle);
+      }
+    };
+    timer = setTimeout(check, Math.max(settings.idleTimeoutMs - (Date.now() - lastActivityRef.current), 0));
+    return () => clearTimeout(timer);
+  }, [isLockRequired, isUnlocked, settings.idleTimeoutMs]);
+
+  // The changes below that weaken the lock, and setting a new passcode over an old one, take the
+  // owner's passcode or biometrics; they return false when that check fails and nothing changed
+  const updateSettings = useCallback(async (changes: Partial<AppLockSettings>, passcode?: string): Promise<boolean> => {
+    if (isPasscodeSet && weakensAppLock(settings, changes) && !(await confirmOwner(passcode))) return false;
+    if (changes.biometric === true && !(await enableBiometricUnlock())) {
+      Alert.alert('Biometrics Unavailable', 'Biometric unlock could not be set up on this device.');
+      return true;
+    }
+    if (changes.biometric === false) {
+      await disableBiometricUnlock();
+    }
+    const updated = { ...settings, ...changes };
+    await saveAppLockSettings(updated);
+    setSettings(updated);
+    return true;
+  }, [settings, isPasscodeSet, confirmOwner]);
+
+  const setAppPasscode = useCallback(async (passcode: string, currentPasscode?: string): Promise<boolean> => {
+    if (isPasscodeSet && !(await confirmOwner(currentPasscode))) return false;
+    await setPasscode(passcode);
+    setIsPasscodeSet(true);
+    setFailedAttempts(0);
+    recordActivity();
+    setIsUnlocked(true);
+    return true;
+  }, [isPasscodeSet, confirmOwner, recordActivity]);
+
+  // Locking the org in use does not lock the person who just chose to
+  const setOrgRequiresUnlock = useCallback(async (connection: OrgConnection, requireUnlock: boolean, passcode?: string): Promise<boolean> => {
+    if (!requireUnlock && connection.requireUnlock && isPasscodeSet && !(await confirmOwner(passcode))) return false;
+    if (requireUnlock && connection.id === activeConnection?.id) {
+      recordActivity();
+      setIsUnlocked(true);
+    }
+    await saveConnection({ ...connection, requireUnlock });
+    return true;
+  }, [saveConnection, activeConnection?.id, isPasscodeSet, confirmOwner, recordActivity]);
+
+  // Turns the lock off; orgs keep their "require unlock" choice for when a passcode is set again
+  const removeAppPasscode = useCallback(async (passcode?: string): Promise<boolean> => {
+    if (isPasscodeSet && !(await confirmOwner(passcode))) return false;
+    await clearAppLock();
+    setIsPasscodeSet(false);
+    setSettings(DEFAULT_APP_LOCK_SETTINGS);
+    setFailedAttempts(0);
+    return true;
+  }, [isPasscodeSet, confirmOwner]);
+
+  const contextValue = useMemo(() => ({
+    settings,
+    isLoaded,
+    isPasscodeSet,
+    isLocked,
+    failedAttempts,
+    unlock,
+    unlockBiometric,
+    confirmOwner,
+    recordActivity,
+    updateSettings,
+    setAppPasscode,
+    setOrgRequiresUnlock,
+    removeAppPasscode,
+  }), [settings, isLoaded, isPasscodeSet, isLocked, failedAttempts, unlock, unlockBiometric, confirmOwner, recordActivity, updateSettings, setAppPasscode, setOrgRequiresUnlock, removeAppPasscode]);
+
+  return contextValue;
+});
@@ -1,24 +1,48 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import createContextHook from "@nkzw/create-context-hook";
-import { Alert } from "react-native";
+import { Alert, AppState } from "react-native";
 import * as WebBrowser from "expo-web-browser";
+import { useQueryClient } from "@tanstack/react-query";
 
 import {
   loginSalesforce,
   refreshSalesforceToken,
+  getPendingRefresh,
   revokeSalesforceToken,
   getStoredTokens,
+  getTokenExpiry,
   isTokenExpired,
-  saveOAuthConfig as saveSecureOAuthConfig,
-  loadOAuthConfig as loadSecureOAuthConfig,
   fetchUserInfo,
+  getOrgConnection,
+  loadOrgConnections,
+  saveOrgConnection,
+  removeOrgConnection,
+  getActiveOrgId,
+  setActiveOrgId,
+  clearAllOrgConnections,
+  createOrgClient,
+  SessionRejectedError,
+  type OrgConnection,
+  type Tokens,
 } from "@/services/auth";
-import { TokenExpiredError } from "@/services/salesforce";
+import { SalesforceClient, TokenExpiredError, fetchApiVersions, negotiateApiVersion } from "@/services/salesforce-client";
+import { clearPersistedQueries, startQueryPersistence } from "@/services/query-persistence";
+import { clearAppLock } from "@/services/app-lock";
+import { clearAllMetadataIndexes } from "@/services/metadata-index";
+import { getUnavailableFeatures } from "@/services/oauth-scopes";
+import { isNetworkOnline } from "@/services/connectivity";
 
 // Complete the auth session on web
 WebBrowser.maybeCompleteAuthSession();
 
+// The active org's token is refreshed this long before it expires
+const REFRESH_AHEAD_MS = 5 * 60 * 1000;
+// Wait before trying again after a failed background refresh
+const REFRESH_RETRY_MS = 60 * 1000;
+// setTimeout misfires on longer delays; the schedule is checked again when it fires
+const MAX_REFRESH_DELAY_MS = 24 * 60 * 60 * 1000;
+
 interface UserInfo {
   id: string;
   username: string;
@@ -27,6 +51,8 @@ interface UserInfo {
 }
 
 interface AuthState {
+  // Connection the tokens below belong to; every query key includes it
+  activeOrgId: string | null;
   accessToken: string | null;
   refreshToken: string | null;
   instanceUrl: string | null;
@@ -35,142 +61,287 @@ interface AuthState {
   isLoading: boolean;
 }
 
+type SessionPause = { resumed: Promise<void>; resume: () => void };
+
+const createPause = (): SessionPause => {
+  let resume = () => {};
+  const resumed = new Promise<void>(resolve => {
+    resume = resolve;
+  });
+  return { resumed, resume };
+};
+
+const signedOutState = (activeOrgId: string | null): AuthState => ({
+  activeOrgId,
+  accessToken: null,
+  refreshToken: null,
+  instanceUrl: null,
+  userInfo: null,
+  isAuthenticated: false,
+  isLoading: false,
+});
+
 export const [AuthProvider, useAuth] = createContextHook(() => {
   const [authState, setAuthState] = useState<AuthState>({
-    accessToken: null,
-    refreshToken: null,
-    instanceUrl: null,
-    userInfo: null,
-    isAuthenticated: false,
+    ...signedOutState(null),
     isLoading: true,
   });
+  const [connections, setConnections] = useState<OrgConnection[]>([]);
+  const queryClient = useQueryClient();
 
-  const loadStoredAuth = useCallback(async () => {
+  const activeConnection = useMemo(
+    () => connections.find(connection => connection.id === authState.activeOrgId) || null,
+    [connections, authState.activeOrgId]
+  );
+
+  // Results loaded for the active org survive restarts, so they can be browsed offline
+  useEffect(() => {
+    if (!authState.activeOrgId) return;
+    return startQueryPersistence(queryClient, authState.activeOrgId);
+  }, [queryClient, authState.activeOrgId]);
+
+  // Versions the active instance supports, read once per instance on connect
+  const [supportedVersions, setSupportedVersions] = useState<{ instanceUrl: string; versions: string[] } | null>(null);
+
+  useEffect(() => {
+    const instanceUrl = authState.instanceUrl;
+    if (!instanceUrl) return;
+    let cancelled = false;
+    fetchApiVersions(instanceUrl)
+      .catch(error => {
+        console.warn('Could not read supported API versions:', error);
+        return [] as string[];
+      })
+      .then(versions => {
+        if (!cancelled) setSupportedVersions({ instanceUrl, versions });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authState.instanceUrl]);
+
+  const apiVersions = useMemo(
+    () => supportedVersions && supportedVersions.instanceUrl === authState.instanceUrl ? supportedVersions.versions : null,
+    [supportedVersions, authState.instanceUrl]
+  );
+  // Null until the instance's versions are known, so no request goes out on a version it may not support
+  const apiVersion = useMemo(
+    () => apiVersions ? negotiateApiVersion(apiVersions, activeConnection?.apiVersion) : null,
+    [apiVersions, activeConnection?.apiVersion]
+  );
+
+  // Scopes granted to the active org's token, read with each new token; null when not recorded
+  const [grantedScopes, setGrantedScopes] = useState<{ orgId: string; scopes: string[] | null } | null>(null);
+
+  useEffect(() => {
+    const activeOrgId = authState.activeOrgId;
+    if (!activeOrgId || !authState.accessToken) return;
+    let cancelled = false;
+    getStoredTokens(activeOrgId).then(tokens => {
+      if (!cancelled) setGrantedScopes({ orgId: activeOrgId, scopes: tokens?.scopes ?? null });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [authState.activeOrgId, authState.accessToken]);
+
+  const activeGrantedScopes = grantedScopes && grantedScopes.orgId === authState.activeOrgId ? grantedScopes.scopes : null;
+  // Features the org's grant rules out, for screens to switch off instead of failing
+  const unavailableFeatures = useMemo(() => getUnavailableFeatures(activeGrantedScopes), [activeGrantedScopes]);
+
+  // Set by the app lock: while paused, API requests of every org wait for it to lift and the token
+  // is not refreshed in the background. Paused from the start, until the lock state is known
+  const [isSessionPaused, setIsSessionPaused] = useState(true);
+  const [initialPause] = useState(createPause);
+  const pauseRef = useRef<SessionPause | null>(initialPause);
+
+  const waitUntilResumed = useCallback(async () => {
+    while (pauseRef.current) await pauseRef.current.resumed;
+  }, []);
+
+  const setSessionPaused = useCallback((paused: boolean) => {
+    if (paused && !pauseRef.current) {
+      pauseRef.current = createPause();
+    } else if (!paused && pauseRef.current) {
+      pauseRef.current.resume();
+      pauseRef.current = null;
+    }
+    setIsSessionPaused(paused);
+  }, []);
+
+  // Read at request time, so a refreshed token is picked up without rebuilding the client
+  const accessTokenRef = useRef(authState.accessToken);
+  accessTokenRef.current = authState.accessToken;
+
+  const applyRefreshedTokens = useCallback((orgId: string, refreshed: Tokens) => {
+    setAuthState(current => current.activeOrgId === orgId
+      ? { ...current, accessToken: refreshed.accessToken, refreshToken: refreshed.refreshToken }
+      : current);
+  }, []);
+
+  const refreshOrgToken = useCallback(async (orgId: string) => {
+    const refreshed = await refreshSalesforceToken(orgId);
+    accessTokenRef.current = refreshed.accessToken;
+    applyRefreshedTokens(orgId, refreshed);
+    return refreshed.accessToken;
+  }, [applyRefreshedTokens]);
+
+  // API client of the active org; stable across token refreshes, so query keys leave the token out
+  const client = useMemo(() => {
+    const activeOrgId = authState.activeOrgId;
+    const instanceUrl = authState.instanceUrl;
+    if (!activeOrgId || !instanceUrl || !apiVersion) return null;
+    return new SalesforceClient({
+      instanceUrl,
+      apiVersion,
+      tokenProvider: {
+        getAccessToken: async () => {
+          await waitUntilResumed();
+          // Requests started while a refresh runs go out with its token instead of the old one
+          const pending = getPendingRefresh(activeOrgId);
+          if (pending) return (await pending).accessToken;
+          if (!accessTokenRef.current) throw new TokenExpiredError('Not signed in');
+          return accessTokenRef.current;
+        },
+        refreshAccessToken: async rejectedToken => {
+          // Refreshed meanwhile, e.g. by the scheduler
+          if (accessTokenRef.current && accessTokenRef.current !== rejectedToken) {
+            return accessTokenRef.current;
+          }
+          return refreshOrgToken(activeOrgId);
+        },
+      },
+    });
+  }, [authState.activeOrgId, authState.instanceUrl, apiVersion, waitUntilResumed, refreshOrgToken]);
+
+  // Refresh the active org's token ahead of expiry, so requests rarely meet a rejected token
+  useEffect(() => {
+    const activeOrgId = authState.activeOrgId;
+    // Without a refresh token there is nothing to refresh with; the session ends with the access token
+    if (!activeOrgId || !authState.isAuthenticated || isSessionPaused || unavailableFeatures.includes('stay-signed-in')) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = async () => {
+      const tokens = await getStoredTokens(activeOrgId);
+      if (cancelled || !tokens) return;
+      if (timer) clearTimeout(timer);
+      const delay = Math.max(getTokenExpiry(tokens) - REFRESH_AHEAD_MS - Date.now(), 0);
+      timer = delay > MAX_REFRESH_DELAY_MS ? setTimeout(schedule, MAX_REFRESH_DELAY_MS) : setTimeout(refresh, delay);
+    };
+
+    const refresh = async () => {
+      timer = null;
+      try {
+        console.log('Refreshing access token ahead of expiry');
+        await refreshOrgToken(activeOrgId);
+        // The new token's arrival reschedules through the effect
+      } catch (error) {
+        console.warn('Background token refresh failed:', error);
+        // Stored tokens are only removed when Salesforce answered invalid_grant; then there is
+        // nothing left to retry and the next request prompts for re-authorization. Network and
+        // server failures keep them, so the refresh is tried again
+        if (!cancelled && await getStoredTokens(activeOrgId)) {
+          timer = setTimeout(refresh, REFRESH_RETRY_MS);
+        }
+      }
+    };
+
+    schedule();
+    // Timers do not run while the app is in the background, so check again on return
+    const subscription = AppState.addEventListener("change", state => {
+      if (state === "active") schedule();
+    });
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      subscription.remove();
+    };
+  }, [authState.activeOrgId, authState.isAuthenticated, authState.accessToken, isSessionPaused, unavailableFeatures, refreshOrgToken]);
+
+  // Restore the session of one org from its stored tokens
+  const loadOrgAuth = useCallback(async (orgId: string | null) => {
     try {
-      console.log('Auth Provider: Loading stored authentication...');
+      console.log('Auth Provider: Loading stored authentication for org', orgId);
+      if (!orgId) {
+        setAuthState(signedOutState(null));
+        return;
+      }
+      // The app lock needs to know which org opens, and may hold it, before anything is sent for it.
+      // Tokens are read after the wait, as failed unlock attempts can remove them meanwhile
+      setAuthState(current => current.activeOrgId === orgId ? current : { ...signedOutState(orgId), isLoading: true });
+      await waitUntilResumed();
       // Check SecureStore for real tokens
-      const tokens = await getStoredTokens();
-      if (tokens) {
-        console.log('Auth Provider: Found stored tokens');
-        // Check if token is expired
+      const tokens = await getStoredTokens(orgId);
+      if (!tokens) {
+        console.log('Auth Provider: No stored tokens found');
+        setAuthState(signedOutState(orgId));
+        return;
+      }
+      console.log('Auth Provider: Found stored tokens');
+
+      const signedInState = (current: Tokens, userInfo: UserInfo | null): AuthState => ({
+        activeOrgId: orgId,
+        accessToken: current.accessToken,
+        refreshToken: current.refreshToken,
+        instanceUrl: current.instanceUrl,
+        userInfo,
+        isAuthenticated: true,
+        isLoading: false,
+      });
+
+      try {
+        let current = tokens;
         if (isTokenExpired(tokens)) {
           console.log('Token expired, attempting refresh...');
-          try {
-            const refreshedTokens = await refreshSalesforceToken();
-            // Fetch user info after token refresh
-            let userInfo: UserInfo | null = null;
-            try {
-              userInfo = await fetchUserInfo(refreshedTokens.instanceUrl, refreshedTokens.accessToken);
-            } catch (error) {
-              console.warn('Failed to fetch user info after token refresh:', error);
-              // If still failing after refresh, clear tokens
-              console.log('User info still failing after refresh, clearing tokens');
-              await revokeSalesforceToken(); // Clear stored tokens
-              setAuthState({
-                accessToken: null,
-                refreshToken: null,
-                instanceUrl: null,
-                userInfo: null,
-                isAuthenticated: false,
-                isLoading: false,
-              });
-              return;
-            }
-            
-            setAuthState({
-              accessToken: refreshedTokens.accessToken,
-              refreshToken: refreshedTokens.refreshToken,
-              instanceUrl: refreshedTokens.instanceUrl,
-              userInfo,
-              isAuthenticated: true,
-              isLoading: false,
-            });
-          } catch (error) {
-            console.error('Token refresh failed:', error);
-            // Clear invalid tokens
-            await revokeSalesforceToken();
-            setAuthState({
-              accessToken: null,
-              refreshToken: null,
-              instanceUrl: null,
-              userInfo: null,
-              isAuthenticated: false,
-              isLoading: false,
-            });
-          }
-        } else {
-          // Fetch user info with existing valid tokens
-          let userInfo: UserInfo | null = null;
-          try {
-            userInfo = await fetchUserInfo(tokens.instanceUrl, tokens.accessToken);
-          } catch (error) {
-            console.warn('Failed to fetch user info with existing tokens:', error);
-            // If user info fetch fails with 403, the token might be invalid
-            if (error instanceof Error && error.message.includes('403')) {
-              console.log('Token appears invalid (403), attempting refresh...');
-              try {
-                const refreshedTokens = await refreshSalesforceToken();
-                userInfo = await fetchUserInfo(refreshedTokens.instanceUrl, refreshedTokens.accessToken);
-                setAuthState({
-                  accessToken: refreshedTokens.accessToken,
-                  refreshToken: refreshedTokens.refreshToken,
-                  instanceUrl: refreshedTokens.instanceUrl,
-                  userInfo,
-                  isAuthenticated: true,
-                  isLoading: false,
-                });
-                return;
-              } catch (refreshError) {
-                console.error('Token refresh after 403 failed:', refreshError);
-                // Clear invalid tokens and set as unauthenticated
-                await revokeSalesforceToken(); // Clear stored tokens
-                setAuthState({
-                  accessToken: null,
-                  refreshToken: null,
-                  instanceUrl: null,
-                  userInfo: null,
-                  isAuthenticated: false,
-                  isLoading: false,
-                });
-                return;
-              }
-            } else {
-              // For other errors, still clear tokens to be safe
-              console.log('User info fetch failed with non-403 error, clearing tokens');
-              await revokeSalesforceToken();
-              setAuthState({
-                accessToken: null,
-                refreshToken: null,
-                instanceUrl: null,
-                userInfo: null,
-                isAuthenticated: false,
-                isLoading: false,
-              });
-              return;
-            }
-          }
-          
-          setAuthState({
-            accessToken: tokens.accessToken,
-            refreshToken: tokens.refreshToken,
-            instanceUrl: tokens.instanceUrl,
-            userInfo,
-            isAuthenticated: true,
-            isLoading: false,
-          });
+          current = await refreshSalesforceToken(orgId);
         }
-      } else {
-        console.log('Auth Provider: No stored tokens found');
-        setAuthState(prev => ({ 
-          ...prev, 
-          isLoading: false,
-        }));
+        let userInfo: UserInfo;
+        try {
+          userInfo = await fetchUserInfo(current.instanceUrl, current.accessToken, current.scopes);
+        } catch (error) {
+          // The token may have ended before its recorded expiry; a fresh one settles it
+          const tokenRefused = error instanceof SessionRejectedError || (error instanceof Error && error.message.includes('403'));
+          if (current !== tokens || !tokenRefused) throw error;
+          console.log('Stored token was refused, attempting refresh...');
+          current = await refreshSalesforceToken(orgId);
+          userInfo = await fetchUserInfo(current.instanceUrl, current.accessToken, current.scopes);
+        }
+        setAuthState(signedInState(current, userInfo));
+      } catch (error) {
+        if (error instanceof SessionRejectedError) {
+          console.log('Stored session was rejected, clearing tokens:', error.message);
+          await revokeSalesforceToken(orgId);
+          setAuthState(signedOutState(orgId));
+          return;
+        }
+        // Offline, or Salesforce could not answer: keep the session so cached results stay
+        // browsable, and let requests retry once the org can be reached
+        const offline = error instanceof TypeError || !isNetworkOnline();
+        console.warn(offline ? 'Offline, restoring the stored session:' : 'Could not verify the stored session, keeping it:', error);
+        const current = await getStoredTokens(orgId) ?? tokens;
+        const connection = await getOrgConnection(orgId);
+        setAuthState(signedInState(current, connection?.username ? {
+          id: 'unknown',
+          username: connection.username,
+          email: 'unknown',
+          orgName: connection.orgName || 'Unknown Organization',
+        } : null));
       }
     } catch (error) {
       console.error("Auth Provider: Error loading auth:", error);
-      setAuthState(prev => ({ ...prev, isLoading: false }));
+      setAuthState(signedOutState(orgId));
     }
-  }, []);
+  }, [waitUntilResumed]);
+
+  const loadStoredAuth = useCallback(async () => {
+    const stored = await loadOrgConnections();
+    setConnections(stored);
+    const activeOrgId = await getActiveOrgId();
+    // Fall back to the first org when the active one was removed or never set
+    const orgId = stored.some(connection => connection.id === activeOrgId) ? activeOrgId : stored[0]?.id ?? null;
+    await loadOrgAuth(orgId);
+  }, [loadOrgAuth]);
 
   useEffect(() => {
     loadStoredAuth();
@@ -180,42 +351,37 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
 
   const logout = useCallback(async () => {
     try {
-      // Revoke tokens from Salesforce
-      await revokeSalesforceToken();
+      // Revoke this org's tokens from Salesforce; the connection itself is kept
+      if (authState.activeOrgId) {
+        await revokeSalesforceToken(authState.activeOrgId);
+      }
       
-      setAuthState({
-        accessToken: null,
-        refreshToken: null,
-        instanceUrl: null,
-        userInfo: null,
-        isAuthenticated: false,
-        isLoading: false,
-      });
+      setAuthState(signedOutState(authState.activeOrgId));
     } catch (error) {
       console.error("Logout error:", error);
     }
-  }, []);
-
+  }, [authState.activeOrgId]);
 
-
-  const login = useCallback(async (instanceUrl?: string): Promise<boolean> => {
+  const login = useCallback(async (orgId?: string): Promise<boolean> => {
     try {
-      console.log('Starting login process');
-      console.log('Instance URL provided:', instanceUrl);
-      
-      // Use secure OAuth flow
-      console.log('Starting secure OAuth 2.0 PKCE flow');
-      
-      // Use the configured instance URL or default to production
-      const targetInstanceUrl = instanceUrl || 'https://login.salesforce.com';
-      console.log('Target instance URL:', targetInstanceUrl);
+      // Read from storage, so a login host saved just before logging in is used
+      const stored = await loadOrgConnections();
+      const connection = stored.find(item => item.id === (orgId || authState.activeOrgId));
+      if (!connection) {
+        throw new Error('OAuth configuration not found. Please add an org connection first.');
+      }
+      console.log('Starting secure OAuth 2.0 PKCE flow for', connection.name, connection.authHost);
       
-      const { tokens, userInfo } = await loginSalesforce(targetInstanceUrl);
+      const { tokens, userInfo } = await loginSalesforce(connection);
       
       console.log('Login successful, tokens received');
       console.log('Final instance URL from tokens:', tokens.instanceUrl);
       
+      await setActiveOrgId(connection.id);
+      setConnections(await loadOrgConnections());
+      
       const newAuthState = {
+        activeOrgId: connection.id,
         accessToken: tokens.accessToken,
         refreshToken: tokens.refreshToken,
         instanceUrl: tokens.instanceUrl,
@@ -249,46 +415,91 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
       
       throw error;
     }
-  }, []);
+  }, [authState.activeOrgId]);
+
+  const switchOrg = useCallback(async (orgId: string) => {
+    if (orgId === authState.activeOrgId) return;
+    console.log('Switching to org', orgId);
+    await setActiveOrgId(orgId);
+    setAuthState({ ...signedOutState(orgId), isLoading: true });
+    await loadOrgAuth(orgId);
+  }, [authState.activeOrgId, loadOrgAuth]);
+
+  const saveConnection = useCallback(async (connection: OrgConnection) => {
+    const updated = await saveOrgConnection(connection);
+    setConnections(updated);
+    // The first org becomes active straight away
+    if (!authState.activeOrgId) {
+      await setActiveOrgId(connection.id);
+      setAuthState(signedOutState(connection.id));
+    }
+  }, [authState.activeOrgId]);
+
+  const removeConnection = useCallback(async (orgId: string) => {
+    const remaining = await removeOrgConnection(orgId);
+    setConnections(remaining);
+    queryClient.removeQueries({ predicate: query => query.queryKey[1] === orgId });
+    await clearPersistedQueries(orgId);
+    if (orgId === authState.activeOrgId) {
+      const nextOrgId = remaining[0]?.id ?? null;
+      if (nextOrgId) {
+        await setActiveOrgId(nextOrgId);
+      }
+      setAuthState({ ...signedOutState(nextOrgId), isLoading: !!nextOrgId });
+      await loadOrgAuth(nextOrgId);
+    }
+  }, [authState.activeOrgId, loadOrgAuth, queryClient]);
+
+  // Sign out of several orgs at once, e.g. when the app lock wipes the sessions it protects
+  const revokeOrgSessions = useCallback(async (orgIds: string[]) => {
+    for (const orgId of orgIds) {
+      await revokeSalesforceToken(orgId);
+    }
+    if (authState.activeOrgId && orgIds.includes(authState.activeOrgId)) {
+      setAuthState(signedOutState(authState.activeOrgId));
+    }
+  }, [authState.activeOrgId]);
 
   const clearCache = useCallback(async () => {
     try {
       const keys = await AsyncStorage.getAllKeys();
       const cacheKeys = keys.filter(key => key.startsWith("cache_"));
       await AsyncStorage.multiRemove(cacheKeys);
+      await clearPersistedQueries();
+      // What is on screen came from the cache as well, so load it again
+      await queryClient.resetQueries();
     } catch (error) {
       console.error("Clear cache error:", error);
     }
-  }, []);
+  }, [queryClient]);
 
   const clearAllData = useCallback(async () => {
     try {
-      // Clear all stored data including tokens and OAuth config
-      await revokeSalesforceToken();
+      // Clear all stored data including every org's tokens and connection
+      await clearAllOrgConnections();
+      await clearAppLock();
       await AsyncStorage.clear();
+      await clearAllMetadataIndexes();
+      await clearPersistedQueries();
+      queryClient.clear();
       
-      setAuthState({
-        accessToken: null,
-        refreshToken: null,
-        instanceUrl: null,
-        userInfo: null,
-        isAuthenticated: false,
-        isLoading: false,
-      });
+      setConnections([]);
+      setAuthState(signedOutState(null));
     } catch (error) {
       console.error("Clear all data error:", error);
     }
-  }, []);
+  }, [queryClient]);
 
   const refreshAccessToken = useCallback(async () => {
     try {
       console.log('Refreshing access token...');
-      const refreshedTokens = await refreshSalesforceToken();
+      if (!authState.activeOrgId) throw new Error('Not authenticated');
+      const refreshedTokens = await refreshSalesforceToken(authState.activeOrgId);
       
       // Fetch user info after token refresh
       let userInfo: UserInfo | null = null;
       try {
-        userInfo = await fetchUserInfo(refreshedTokens.instanceUrl, refreshedTokens.accessToken);
+        userInfo = await fetchUserInfo(refreshedTokens.instanceUrl, refreshedTokens.accessToken, refreshedTokens.scopes);
       } catch (error) {
         console.warn('Failed to fetch user info after manual token refresh:', error);
       }
@@ -315,21 +526,18 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
     try {
       console.log('Starting re-authorization process...');
       
-      // Load OAuth config
-      const oauthConfig = await loadSecureOAuthConfig();
-      if (!oauthConfig || !oauthConfig.clientId) {
+      if (!activeConnection || !activeConnection.clientId) {
         Alert.alert('Error', 'OAuth configuration not found. Please configure your Consumer Key first.');
         return false;
       }
       
-      // Use the existing instance URL or the configured one
-      const targetInstanceUrl = authState.instanceUrl || oauthConfig.instanceUrl || 'https://login.salesforce.com';
-      
-      const { tokens, userInfo } = await loginSalesforce(targetInstanceUrl);
+      const { tokens, userInfo } = await loginSalesforce(activeConnection);
       
       console.log('Re-authorization successful');
+      setConnections(await loadOrgConnections());
       
       const newAuthState = {
+        activeOrgId: activeConnection.id,
         accessToken: tokens.accessToken,
         refreshToken: tokens.refreshToken,
         instanceUrl: tokens.instanceUrl,
@@ -354,7 +562,7 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
       
       return false;
     }
-  }, [authState.instanceUrl]);
+  }, [activeConnection]);
 
   const handleTokenExpiredError = useCallback(async (error: Error): Promise<boolean> => {
     if (error instanceof TokenExpiredError) {
@@ -395,24 +603,18 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
     return false;
   }, [refreshAccessToken, reauthorize, logout]);
 
-  // OAuth configuration methods
-  const saveOAuthConfig = useCallback(async (config: { clientId: string; instanceUrl?: string }) => {
-    try {
-      await saveSecureOAuthConfig(config);
-    } catch (error) {
-      console.error('Error saving OAuth config:', error);
-      throw error;
+  // API client for any connected org, e.g. the second org of a comparison
+  const getOrgClient = useCallback(async (orgId: string): Promise<SalesforceClient> => {
+    if (orgId === authState.activeOrgId && authState.isAuthenticated && client) {
+      return client;
     }
-  }, []);
-
-  const loadOAuthConfig = useCallback(async () => {
-    try {
-      return await loadSecureOAuthConfig();
-    } catch (error) {
-      console.error('Error loading OAuth config:', error);
-      return null;
+    const orgClient = await createOrgClient(orgId, waitUntilResumed);
+    if (!orgClient) {
+      const name = connections.find(connection => connection.id === orgId)?.name || 'this org';
+      throw new Error(`Not signed in to ${name}. Switch to it and log in first.`);
     }
-  }, []);
+    return orgClient;
+  }, [authState.activeOrgId, authState.isAuthenticated, client, connections, waitUntilResumed]);
 
   // Wrapper function for API calls that handles token expiration
   const withTokenHandling = useCallback(async (apiCall: () => Promise<any>): Promise<any> => {
@@ -432,16 +634,27 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
 
   const contextValue = useMemo(() => ({
     ...authState,
+    client,
+    apiVersions,
+    grantedScopes: activeGrantedScopes,
+    unavailableFeatures,
+    connections,
+    activeConnection,
     login,
     logout,
+    switchOrg,
+    saveConnection,
+    removeConnection,
+    revokeOrgSessions,
+    setSessionPaused,
     clearCache,
+    clearAllData,
     refreshAccessToken,
     reauthorize,
     handleTokenExpiredError,
     withTokenHandling,
-    saveOAuthConfig,
-    loadOAuthConfig,
-  }), [authState, login, logout, clearCache, refreshAccessToken, reauthorize, handleTokenExpiredError, withTokenHandling, saveOAuthConfig, loadOAuthConfig]);
+    getOrgClient,
+  }), [authState, client, apiVersions, activeGrantedScopes, unavailableFeatures, connections, activeConnection, login, logout, switchOrg, saveConnection, removeConnection, revokeOrgSessions, setSessionPaused, clearCache, clearAllData, refreshAccessToken, reauthorize, handleTokenExpiredError, withTokenHandling, getOrgClient]);
 
   return contextValue;
 });
\ No newline at end of file
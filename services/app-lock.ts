@@ -0,0 +1,149 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+
+const SETTINGS_KEY = 'app_lock_settings';
+const PASSCODE_KEY = 'app_lock_passcode';
+const FAILED_ATTEMPTS_KEY = 'app_lock_failed_attempts';
+// Random value readable only after the device's biometric check; reading it is the unlock
+const BIOMETRIC_KEY = 'app_lock_biometric';
+
+export const PASSCODE_LENGTH = 6;
+
+export type AppLockSettings = {
+  biometric: boolean;
+  // Lock again after this long without use, including time in the background; 0 locks on leaving the app
+  idleTimeoutMs: number;
+  // Failed passcode entries before the sessions of locked orgs are wiped
+  maxAttempts: number;
+};
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  biometric: false,
+  idleTimeoutMs: 5 * 60 * 1000,
+  maxAttempts: 10,
+};
+
+export const IDLE_TIMEOUT_OPTIONS = [
+  { label: 'Immediately', value: 0 },
+  { label: '1 min', value: 60 * 1000 },
+  { label: '5 min', value: 5 * 60 * 1000 },
+  { label: '15 min', value: 15 * 60 * 1000 },
+  { label: '1 hour', value: 60 * 60 * 1000 },
+];
+
+export const MAX_ATTEMPT_OPTIONS = [5, 10, 20];
+
+// Biometrics turned on, a longer idle timeout or more attempts before the wipe all make the lock
+// easier to get past
+export function weakensAppLock(current: AppLockSettings, changes: Partial<AppLockSettings>): boolean {
+  return (changes.biometric === true && !current.biometric)
+    || (changes.idleTimeoutMs !== undefined && changes.idleTimeoutMs > current.idleTimeoutMs)
+    || (changes.maxAttempts !== undefined && changes.maxAttempts > current.maxAttempts);
+}
+
+type StoredPasscode = { salt: string; hash: string };
+
+const hashPasscode = (salt: string, passcode: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${passcode}`);
+
+export async function loadAppLockSettings(): Promise<AppLockSettings> {
+  try {
+    const stored = await SecureStore.getItemAsync(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_APP_LOCK_SETTINGS, ...JSON.parse(stored) } : DEFAULT_APP_LOCK_SETTINGS;
+  } catch (error) {
+    console.warn('Error loading app lock settings:', error);
+    return DEFAULT_APP_LOCK_SETTINGS;
+  }
+}
+
+export async function saveAppLockSettings(settings: AppLockSettings): Promise<void> {
+  await SecureStore.setItemAsync(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export async function hasPasscode(): Promise<boolean> {
+  return !!(await SecureStore.getItemAsync(PASSCODE_KEY));
+}
+
+// Only a salted hash is kept
+export async function setPasscode(passcode: string): Promise<void> {
+  const salt = Crypto.randomUUID();
+  const stored: StoredPasscode = { salt, hash: await hashPasscode(salt, passcode) };
+  await SecureStore.setItemAsync(PASSCODE_KEY, JSON.stringify(stored));
+  await resetFailedAttempts();
+}
+
+export async function verifyPasscode(passcode: string): Promise<boolean> {
+  const raw = await SecureStore.getItemAsync(PASSCODE_KEY);
+  if (!raw) return false;
+  try {
+    const stored: StoredPasscode = JSON.parse(raw);
+    return (await hashPasscode(stored.salt, passcode)) === stored.hash;
+  } catch (error) {
+    console.error('Error reading stored passcode:', error);
+    return false;
+  }
+}
+
+// Kept in SecureStore so restarting the app does not reset the count
+export async function getFailedAttempts(): Promise<number> {
+  const stored = await SecureStore.getItemAsync(FAILED_ATTEMPTS_KEY);
+  return stored ? parseInt(stored, 10) || 0 : 0;
+}
+
+export async function recordFailedAttempt(): Promise<number> {
+  const attempts = (await getFailedAttempts()) + 1;
+  await SecureStore.setItemAsync(FAILED_ATTEMPTS_KEY, String(attempts));
+  return attempts;
+}
+
+export async function resetFailedAttempts(): Promise<void> {
+  await SecureStore.deleteItemAsync(FAILED_ATTEMPTS_KEY);
+}
+
+export function canUseBiometrics(): boolean {
+  try {
+    return SecureStore.canUseBiometricAuthentication();
+  } catch {
+    return false;
+  }
+}
+
+// Stores the biometric-gated value; asks for Face ID / fingerprint once to confirm it works
+export async function enableBiometricUnlock(): Promise<boolean> {
+  try {
+    await SecureStore.setItemAsync(BIOMETRIC_KEY, Crypto.randomUUID(), {
+      requireAuthentication: true,
+      authenticationPrompt: 'Enable biometric unlock',
+    });
+    return true;
+  } catch (error) {
+    console.warn('Could not enable biometric unlock:', error);
+    return false;
+  }
+}
+
+export async function disableBiometricUnlock(): Promise<void> {
+  await SecureStore.deleteItemAsync(BIOMETRIC_KEY);
+}
+
+// False when the check is cancelled or fails, or the value was invalidated by new enrolments
+export async function unlockWithBiometrics(): Promise<boolean> {
+  try {
+    const value = await SecureStore.getItemAsync(BIOMETRIC_KEY, {
+      requireAuthentication: true,
+      authenticationPrompt: 'Unlock Salesforce Metadata Search',
+    });
+    return !!value;
+  } catch (error) {
+    console.log('Biometric unlock not completed:', error);
+    return false;
+  }
+}
+
+// Removes the passcode, biometric unlock and settings
+export async function clearAppLock(): Promise<void> {
+  await SecureStore.deleteItemAsync(PASSCODE_KEY);
+  await SecureStore.deleteItemAsync(BIOMETRIC_KEY);
+  await SecureStore.deleteItemAsync(SETTINGS_KEY);
+  await resetFailedAttempts();
+}
@@ -0,0 +1,96 @@
+import { fetchSetupAuditTrail } from '@/services/salesforce';
+import { withCache } from '@/services/cache';
+import type { SalesforceClient } from '@/services/salesforce-client';
+import type { SalesforceField, SalesforceObject, SetupAuditEntry } from '@/types/salesforce';
+
+// Field screens share one download of recent history instead of querying per field
+const RECENT_AUDIT_MAX_AGE_MS = 60 * 60 * 1000;
+const RECENT_AUDIT_LIMIT = 2000;
+
+export interface AuditFieldTarget {
+  objectName: string;
+  objectLabel?: string;
+  objectLabelPlural?: string;
+  fieldName: string;
+  fieldLabel?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive phrase match
+const mentions = (text: string, phrase: string) =>
+  new RegExp(`(^|[^A-Za-z0-9_])${escapeRegExp(phrase)}($|[^A-Za-z0-9_])`, 'i').test(text);
+
+// Standard objects appear in sections as "Customize Accounts", custom ones only in the text
+const sectionNamesObject = (section: string | null, label: string, labelPlural?: string) => {
+  const customized = section?.match(/^Customize (.+)$/)?.[1];
+  if (!customized) return false;
+  const candidates = [label, labelPlural, `${label}s`, `${label}es`, label.replace(/y$/, 'ies')];
+  return candidates.some(candidate => candidate?.toLowerCase() === customized.toLowerCase());
+};
+
+// Object an entry is about: an API name in the text, the "Customize ..." section or "<Label> field"/"on <Label>" wording
+export function resolveAuditObject(entry: SetupAuditEntry, objects: SalesforceObject[]): SalesforceObject | null {
+  const byApiName = objects.find(obj => obj.name.includes('__') && mentions(entry.display, obj.name));
+  if (byApiName) return byApiName;
+
+  const bySection = objects.find(obj => sectionNamesObject(entry.section, obj.label));
+  if (bySection) return bySection;
+
+  // Longest label first so "Account Contact Relation" wins over "Account"
+  const byLabel = [...objects]
+    .sort((a, b) => b.label.length - a.label.length)
+    .find(obj => {
+      const label = escapeRegExp(obj.label);
+      return new RegExp(`(${label} (custom )?field|\\bon ${label}$|\\bobject ${label}\\b)`, 'i').test(entry.display);
+    });
+  return byLabel || null;
+}
+
+// Field of an already resolved object that the entry mentions by API name or label
+export function resolveAuditField(entry: SetupAuditEntry, fields: SalesforceField[]): SalesforceField | null {
+  const byApiName = fields.find(field => mentions(entry.display, field.name));
+  if (byApiName) return byApiName;
+
+  const byLabel = [...fields]
+    .filter(field => field.label.length >= 3)
+    .sort((a, b) => b.label.length - a.label.length)
+    .find(field => mentions(entry.display, field.label));
+  return byLabel || null;
+}
+
+function mentionsField(entry: SetupAuditEntry, target: AuditFieldTarget): boolean {
+  if (mentions(entry.display, `${target.objectName}.${target.fieldName}`)) return true;
+  // Only custom API names are distinctive enough on their own
+  if (target.fieldName.includes('__') && mentions(entry.display, target.fieldName)) return true;
+  if (!target.fieldLabel) return false;
+
+  const objectMentioned =
+    mentions(entry.display, target.objectName) ||
+    (!!target.objectLabel &&
+      (mentions(entry.display, target.objectLabel) ||
+        sectionNamesObject(entry.section, target.objectLabel, target.objectLabelPlural)));
+  return objectMentioned && mentions(entry.display, target.fieldLabel);
+}
+
+async function fetchRecentSetupAudit(client: SalesforceClient): Promise<SetupAuditEntry[]> {
+  let page = await fetchSetupAuditTrail(client);
+  const entries = [...page.entries];
+  while (page.nextRecordsUrl && entries.length < RECENT_AUDIT_LIMIT) {
+    page = await fetchSetupAuditTrail(client, {}, page.nextRecordsUrl);
+    entries.push(...page.entries);
+  }
+  return entries;
+}
+
+// Recent Setup Audit Trail entries that mention the field, newest first
+export async function fetchFieldAuditEntries(
+  client: SalesforceClient,
+  target: AuditFieldTarget,
+  limit = 5
+): Promise<SetupAuditEntry[]> {
+  const { value } = await withCache(client.instanceUrl, 'audit_recent', RECENT_AUDIT_MAX_AGE_MS, () =>
+    fetchRecentSetupAudit(client)
+  );
+  return value.filter(entry => mentionsField(entry, target)).slice(0, limit);
+}
@@ -2,8 +2,12 @@ import * as AuthSession from 'expo-auth-session';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 
+import { SalesforceClient, fetchApiVersions, negotiateApiVersion } from '@/services/salesforce-client';
+import { PRODUCTION_LOGIN_HOST, addRecentHost, validateLoginHost, type LoginHostEndpoints } from '@/services/login-hosts';
+import { DEFAULT_SCOPES, isFeatureAvailable, parseGrantedScopes } from '@/services/oauth-scopes';
+
 // Default Salesforce OAuth endpoints
-const DEFAULT_AUTH_HOST = 'https://login.salesforce.com';
+const DEFAULT_AUTH_HOST = PRODUCTION_LOGIN_HOST;
 
 // Generate redirect URI using custom scheme
 const getRedirectUri = () => {
@@ -21,18 +25,40 @@ const getRedirectUri = () => {
   }
 };
 
-const SCOPES = ['api', 'refresh_token', 'openid', 'profile', 'email'];
+
+// Salesforce's default session timeout, assumed when neither the token response nor
+// introspection tells how long a token lives
+const DEFAULT_SESSION_LIFETIME_MS = 2 * 60 * 60 * 1000;
+
+// Tokens this close to expiry count as expired
+const EXPIRY_BUFFER_MS = 5 * 60 * 1000;
 
 export type Tokens = {
   accessToken: string;
   refreshToken: string;
   issuedAt: number;
+  // Seconds; Salesforce's token responses usually leave it out
   expiresIn: number;
+  // When the access token stops working (ms since epoch), from token introspection
+  expiresAt?: number;
+  // Scopes the org granted, which may be fewer than requested; unknown for older logins
+  scopes?: string[];
   authHost: string;
+  // The login host's OAuth endpoints as discovered at login; unknown for older logins
+  endpoints?: LoginHostEndpoints;
   instanceUrl: string;
   idToken?: string;
 };
 
+// Salesforce turned the stored session down (401, or a rejected refresh token), so signing in
+// again is the only way forward. Network and server failures throw other errors
+export class SessionRejectedError extends Error {
+  constructor(message: string = 'Session rejected; please sign in again.') {
+    super(message);
+    this.name = 'SessionRejectedError';
+  }
+}
+
 export type UserInfo = {
   id: string;
   username: string;
@@ -40,87 +66,176 @@ export type UserInfo = {
   orgName: string;
 };
 
-const TOKENS_KEY = 'salesforce_tokens_secure';
-const OAUTH_CONFIG_KEY = 'salesforce_oauth_config_secure';
+// Single-org storage from before named connections; migrated on first load
+const LEGACY_TOKENS_KEY = 'salesforce_tokens_secure';
+const LEGACY_OAUTH_CONFIG_KEY = 'salesforce_oauth_config_secure';
+
+const CONNECTIONS_KEY = 'salesforce_org_connections_secure';
+const ACTIVE_ORG_KEY = 'salesforce_active_org_secure';
+const getTokensKey = (orgId: string) => `salesforce_tokens_secure_${orgId}`;
 
-export interface OAuthConfig {
+// A named org the user can switch to, e.g. "Production" or "UAT sandbox"
+export interface OrgConnection {
+  id: string;
+  name: string;
+  // Login host for the authorize, token and revoke endpoints: login/test.salesforce.com, a My Domain
+  // or an Experience Cloud site
+  authHost: string;
+  // Hosts this org logged in through, most recent first
+  recentHosts?: string[];
+  // OAuth scopes to request; the defaults when unset
+  scopes?: string[];
   clientId: string;
+  // REST API version to use, e.g. v60.0; the newest the org supports when unset
+  apiVersion?: string;
+  // Ask for the app passcode or biometrics before this org's session can be used
+  requireUnlock?: boolean;
+  // Filled in by the first successful login
   instanceUrl?: string;
+  username?: string;
+  orgName?: string;
+}
+
+export const createOrgConnectionId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+async function readSecureJson<T>(key: string): Promise<T | null> {
+  const stored = await SecureStore.getItemAsync(key);
+  if (!stored) return null;
+  
+  // Check if the stored value looks like JSON
+  if (!stored.startsWith('{') && !stored.startsWith('[')) {
+    console.warn('Stored value does not appear to be JSON:', key);
+    await SecureStore.deleteItemAsync(key);
+    return null;
+  }
+  
+  try {
+    return JSON.parse(stored);
+  } catch (parseError) {
+    console.error('Error parsing stored JSON:', key, parseError);
+    // Clear corrupted data
+    await SecureStore.deleteItemAsync(key);
+    return null;
+  }
 }
 
-export async function saveOAuthConfig(config: OAuthConfig): Promise<void> {
-  await SecureStore.setItemAsync(OAUTH_CONFIG_KEY, JSON.stringify(config));
+// Turn the old single config + token set into the first named connection
+async function migrateLegacyConnection(): Promise<OrgConnection[]> {
+  const legacyConfig = await readSecureJson<{ clientId: string; instanceUrl?: string }>(LEGACY_OAUTH_CONFIG_KEY);
+  if (!legacyConfig?.clientId) return [];
+
+  const legacyTokens = await readSecureJson<Tokens>(LEGACY_TOKENS_KEY);
+  const connection: OrgConnection = {
+    id: createOrgConnectionId(),
+    name: 'Default',
+    authHost: legacyConfig.instanceUrl || legacyTokens?.authHost || DEFAULT_AUTH_HOST,
+    clientId: legacyConfig.clientId,
+    instanceUrl: legacyTokens?.instanceUrl,
+  };
+  console.log('Migrating single-org configuration to connection', connection.id);
+
+  if (legacyTokens) {
+    await SecureStore.setItemAsync(getTokensKey(connection.id), JSON.stringify(legacyTokens));
+  }
+  await SecureStore.setItemAsync(CONNECTIONS_KEY, JSON.stringify([connection]));
+  await SecureStore.setItemAsync(ACTIVE_ORG_KEY, connection.id);
+  await SecureStore.deleteItemAsync(LEGACY_TOKENS_KEY);
+  await SecureStore.deleteItemAsync(LEGACY_OAUTH_CONFIG_KEY);
+  return [connection];
 }
 
-export async function loadOAuthConfig(): Promise<OAuthConfig | null> {
+export async function loadOrgConnections(): Promise<OrgConnection[]> {
   try {
-    const stored = await SecureStore.getItemAsync(OAUTH_CONFIG_KEY);
-    if (!stored) return null;
-    
-    // Check if the stored value looks like JSON
-    if (!stored.startsWith('{') && !stored.startsWith('[')) {
-      console.warn('Stored OAuth config does not appear to be JSON:', stored.substring(0, 50));
-      await SecureStore.deleteItemAsync(OAUTH_CONFIG_KEY);
-      return null;
-    }
-    
-    try {
-      const parsed = JSON.parse(stored);
-      // Validate the parsed object has required properties
-      if (typeof parsed === 'object' && parsed !== null) {
-        return parsed;
-      } else {
-        console.warn('Parsed OAuth config is not a valid object');
-        await SecureStore.deleteItemAsync(OAUTH_CONFIG_KEY);
-        return null;
-      }
-    } catch (parseError) {
-      console.error('Error parsing OAuth config JSON:', parseError);
-      console.error('Stored value:', stored.substring(0, 100));
-      // Clear corrupted data
-      await SecureStore.deleteItemAsync(OAUTH_CONFIG_KEY);
-      return null;
-    }
+    const connections = await readSecureJson<OrgConnection[]>(CONNECTIONS_KEY);
+    if (Array.isArray(connections)) return connections;
+    return await migrateLegacyConnection();
   } catch (error) {
-    console.error('Error loading OAuth config:', error);
+    console.error('Error loading org connections:', error);
+    return [];
+  }
+}
+
+export async function getOrgConnection(orgId: string): Promise<OrgConnection | null> {
+  const connections = await loadOrgConnections();
+  return connections.find(connection => connection.id === orgId) || null;
+}
+
+// Insert or update a connection by id
+export async function saveOrgConnection(connection: OrgConnection): Promise<OrgConnection[]> {
+  const connections = await loadOrgConnections();
+  const index = connections.findIndex(item => item.id === connection.id);
+  const updated = index === -1
+    ? [...connections, connection]
+    : connections.map(item => (item.id === connection.id ? connection : item));
+  await SecureStore.setItemAsync(CONNECTIONS_KEY, JSON.stringify(updated));
+  return updated;
+}
+
+export async function removeOrgConnection(orgId: string): Promise<OrgConnection[]> {
+  await revokeSalesforceToken(orgId);
+  const connections = (await loadOrgConnections()).filter(item => item.id !== orgId);
+  await SecureStore.setItemAsync(CONNECTIONS_KEY, JSON.stringify(connections));
+  if ((await getActiveOrgId()) === orgId) {
+    await SecureStore.deleteItemAsync(ACTIVE_ORG_KEY);
+  }
+  return connections;
+}
+
+export async function getActiveOrgId(): Promise<string | null> {
+  try {
+    return await SecureStore.getItemAsync(ACTIVE_ORG_KEY);
+  } catch (error) {
+    console.error('Error loading active org:', error);
     return null;
   }
 }
 
-export async function loginSalesforce(instanceUrl?: string): Promise<{ tokens: Tokens; userInfo: UserInfo }> {
-  console.log('Starting PKCE OAuth flow');
+export async function setActiveOrgId(orgId: string): Promise<void> {
+  await SecureStore.setItemAsync(ACTIVE_ORG_KEY, orgId);
+}
+
+// Revoke every org's tokens and forget all connections
+export async function clearAllOrgConnections(): Promise<void> {
+  const connections = await loadOrgConnections();
+  for (const connection of connections) {
+    await revokeSalesforceToken(connection.id);
+  }
+  await SecureStore.deleteItemAsync(CONNECTIONS_KEY);
+  await SecureStore.deleteItemAsync(ACTIVE_ORG_KEY);
+}
+
+export async function loginSalesforce(connection: OrgConnection): Promise<{ tokens: Tokens; userInfo: UserInfo }> {
+  console.log('Starting PKCE OAuth flow for org:', connection.name);
   
-  // Load OAuth configuration
-  const oauthConfig = await loadOAuthConfig();
-  if (!oauthConfig || !oauthConfig.clientId) {
+  if (!connection.clientId) {
     throw new Error('OAuth configuration not found. Please configure your Consumer Key first.');
   }
 
-  // Use the configured instance URL or default to production
-  const authHost = instanceUrl || oauthConfig.instanceUrl || DEFAULT_AUTH_HOST;
-  console.log('Using auth host:', authHost);
+  const authHost = connection.authHost || DEFAULT_AUTH_HOST;
   const redirectUri = getRedirectUri();
   
   console.log('Auth Host:', authHost);
   console.log('Redirect URI:', redirectUri);
-  console.log('Client ID:', oauthConfig.clientId);
+  console.log('Client ID:', connection.clientId);
 
   // Create auth request with PKCE
   const request = new AuthSession.AuthRequest({
-    clientId: oauthConfig.clientId,
+    clientId: connection.clientId,
     redirectUri,
-    scopes: SCOPES,
+    scopes: connection.scopes?.length ? connection.scopes : DEFAULT_SCOPES,
     usePKCE: true, // This enables PKCE automatically
     extraParams: {
       prompt: 'login'
     }
   });
 
-  // Update discovery endpoints to use the correct auth host
+  // Endpoints come from the host's OpenID configuration, which also confirms it is a Salesforce login domain
+  const endpoints = await validateLoginHost(authHost);
   const customDiscovery = {
-    authorizationEndpoint: `${authHost}/services/oauth2/authorize`,
-    tokenEndpoint: `${authHost}/services/oauth2/token`,
-    revocationEndpoint: `${authHost}/services/oauth2/revoke`
+    authorizationEndpoint: endpoints.authorizationEndpoint,
+    tokenEndpoint: endpoints.tokenEndpoint,
+    revocationEndpoint: endpoints.revocationEndpoint
   };
 
   // Load and validate params
@@ -146,7 +261,7 @@ export async function loginSalesforce(instanceUrl?: string): Promise<{ tokens: T
   const tokenResponse = await AuthSession.exchangeCodeAsync(
     {
       code: result.params.code,
-      clientId: oauthConfig.clientId,
+      clientId: connection.clientId,
       redirectUri,
       extraParams: {
         code_verifier: request.codeVerifier!,
@@ -161,33 +276,64 @@ export async function loginSalesforce(instanceUrl?: string): Promise<{ tokens: T
   const responseInstanceUrl = (tokenResponse as any).params?.instance_url || (tokenResponse as any).instance_url;
   console.log('Token response instance URL:', responseInstanceUrl);
   
-  // Use the provided instance URL or fall back to the response instance URL
-  const finalInstanceUrl = instanceUrl || responseInstanceUrl || DEFAULT_AUTH_HOST;
+  // The login host only serves OAuth; API calls go to the org's own instance
+  const finalInstanceUrl = responseInstanceUrl || authHost;
   console.log('Final instance URL to use:', finalInstanceUrl);
-  console.log('Response instance URL from token:', responseInstanceUrl);
-  console.log('Provided instance URL:', instanceUrl);
 
   const tokens: Tokens = {
     accessToken: tokenResponse.accessToken!,
     refreshToken: tokenResponse.refreshToken!,
     idToken: tokenResponse.idToken,
     expiresIn: tokenResponse.expiresIn!,
+    expiresAt: await introspectAccessToken(endpoints, connection.clientId, tokenResponse.accessToken!) ?? undefined,
+    scopes: parseGrantedScopes(tokenResponse.scope) ?? undefined,
     issuedAt: Date.now(),
     authHost,
+    endpoints,
     instanceUrl: finalInstanceUrl
   };
 
   // Get comprehensive user info including organization name
-  const userInfo = await fetchUserInfo(finalInstanceUrl, tokenResponse.accessToken!);
+  const userInfo = await fetchUserInfo(finalInstanceUrl, tokenResponse.accessToken!, tokens.scopes);
 
   // Store tokens securely
-  await SecureStore.setItemAsync(TOKENS_KEY, JSON.stringify(tokens));
+  await SecureStore.setItemAsync(getTokensKey(connection.id), JSON.stringify(tokens));
+  await saveOrgConnection({
+    ...connection,
+    instanceUrl: finalInstanceUrl,
+    username: userInfo.username,
+    orgName: userInfo.orgName,
+    recentHosts: addRecentHost(connection.recentHosts, authHost),
+  });
 
   return { tokens, userInfo };
 }
 
-export async function refreshSalesforceToken(): Promise<Tokens> {
-  const raw = await SecureStore.getItemAsync(TOKENS_KEY);
+// Endpoints the tokens were issued through; sessions from before they were stored discover them again
+function getTokenEndpoints(tokens: Tokens): Promise<LoginHostEndpoints> {
+  return tokens.endpoints ? Promise.resolve(tokens.endpoints) : validateLoginHost(tokens.authHost);
+}
+
+// Refreshes in flight per org, so the scheduler, API clients and error handlers share one
+const pendingRefreshes = new Map<string, Promise<Tokens>>();
+
+export function refreshSalesforceToken(orgId: string): Promise<Tokens> {
+  let pending = pendingRefreshes.get(orgId);
+  if (!pending) {
+    pending = requestTokenRefresh(orgId).finally(() => pendingRefreshes.delete(orgId));
+    pendingRefreshes.set(orgId, pending);
+  }
+  return pending;
+}
+
+// The refresh under way for an org, if any, so new requests can wait for its token
+export function getPendingRefresh(orgId: string): Promise<Tokens> | null {
+  return pendingRefreshes.get(orgId) || null;
+}
+
+async function requestTokenRefresh(orgId: string): Promise<Tokens> {
+  const tokensKey = getTokensKey(orgId);
+  const raw = await SecureStore.getItemAsync(tokensKey);
   if (!raw) throw new Error('Not authenticated');
 
   let existing: Tokens;
@@ -197,12 +343,12 @@ export async function refreshSalesforceToken(): Promise<Tokens> {
     console.error('Error parsing existing tokens JSON:', parseError);
     console.error('Raw value:', raw);
     // Clear corrupted data and throw error
-    await SecureStore.deleteItemAsync(TOKENS_KEY);
+    await SecureStore.deleteItemAsync(tokensKey);
     throw new Error('Corrupted token data; please sign in again.');
   }
-  const oauthConfig = await loadOAuthConfig();
+  const connection = await getOrgConnection(orgId);
   
-  if (!oauthConfig) {
+  if (!connection) {
     throw new Error('OAuth configuration not found');
   }
 
@@ -210,11 +356,12 @@ export async function refreshSalesforceToken(): Promise<Tokens> {
 
   const refreshBody = new URLSearchParams({
     grant_type: 'refresh_token',
-    client_id: oauthConfig.clientId,
+    client_id: connection.clientId,
     refresh_token: existing.refreshToken
   }).toString();
 
-  const resp = await fetch(`${existing.authHost}/services/oauth2/token`, {
+  const endpoints = await getTokenEndpoints(existing);
+  const resp = await fetch(endpoints.tokenEndpoint, {
     method: 'POST',
     headers: { 
       'Content-Type': 'application/x-www-form-urlencoded', 
@@ -224,9 +371,13 @@ export async function refreshSalesforceToken(): Promise<Tokens> {
   });
 
   if (!resp.ok) {
-    // Tokens invalid → clear and bubble up
-    await SecureStore.deleteItemAsync(TOKENS_KEY);
-    throw new Error('Refresh failed; please sign in again.');
+    // Only invalid_grant means the refresh token is dead; a 5xx or 429 is worth trying again later
+    const error = await resp.json().catch(() => null);
+    if (resp.status === 400 && error?.error === 'invalid_grant') {
+      await SecureStore.deleteItemAsync(tokensKey);
+      throw new SessionRejectedError('Refresh failed; please sign in again.');
+    }
+    throw new Error(`Token refresh failed: ${resp.status}${error?.error_description ? ` - ${error.error_description}` : ''}`);
   }
 
   const data = await resp.json();
@@ -237,16 +388,21 @@ export async function refreshSalesforceToken(): Promise<Tokens> {
     // Salesforce sometimes omits a new refresh_token; keep the old one
     refreshToken: data.refresh_token || existing.refreshToken,
     expiresIn: data.expires_in,
+    expiresAt: await introspectAccessToken(endpoints, connection.clientId, data.access_token) ?? undefined,
+    // Refresh responses usually repeat the grant; keep the last known one otherwise
+    scopes: parseGrantedScopes(data.scope) ?? existing.scopes,
     issuedAt: Date.now(),
+    endpoints,
     instanceUrl: data.instance_url || existing.instanceUrl
   };
 
-  await SecureStore.setItemAsync(TOKENS_KEY, JSON.stringify(updated));
+  await SecureStore.setItemAsync(tokensKey, JSON.stringify(updated));
   return updated;
 }
 
-export async function revokeSalesforceToken(): Promise<void> {
-  const raw = await SecureStore.getItemAsync(TOKENS_KEY);
+export async function revokeSalesforceToken(orgId: string): Promise<void> {
+  const tokensKey = getTokensKey(orgId);
+  const raw = await SecureStore.getItemAsync(tokensKey);
   if (!raw) return;
   
   let tokens: Tokens;
@@ -255,36 +411,37 @@ export async function revokeSalesforceToken(): Promise<void> {
   } catch (parseError) {
     console.error('Error parsing tokens for revocation:', parseError);
     // Still clear the corrupted data
-    await SecureStore.deleteItemAsync(TOKENS_KEY);
+    await SecureStore.deleteItemAsync(tokensKey);
     return;
   }
   
-  const { accessToken, authHost } = tokens;
-
   // Revoke token on server
   try {
-    await fetch(`${authHost}/services/oauth2/revoke`, {
+    const { revocationEndpoint } = await getTokenEndpoints(tokens);
+    if (!revocationEndpoint) throw new Error('The login host publishes no revocation endpoint');
+    await fetch(revocationEndpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({ token: accessToken }).toString()
+      body: new URLSearchParams({ token: tokens.accessToken }).toString()
     });
   } catch (error) {
     console.warn('Failed to revoke token on server:', error);
   }
 
   // Clear local storage
-  await SecureStore.deleteItemAsync(TOKENS_KEY);
+  await SecureStore.deleteItemAsync(tokensKey);
 }
 
-export async function getStoredTokens(): Promise<Tokens | null> {
+export async function getStoredTokens(orgId: string): Promise<Tokens | null> {
+  const tokensKey = getTokensKey(orgId);
   try {
-    const raw = await SecureStore.getItemAsync(TOKENS_KEY);
+    const raw = await SecureStore.getItemAsync(tokensKey);
     if (!raw) return null;
     
     // Check if the stored value looks like JSON
     if (!raw.startsWith('{') && !raw.startsWith('[')) {
       console.warn('Stored tokens do not appear to be JSON:', raw.substring(0, 50));
-      await SecureStore.deleteItemAsync(TOKENS_KEY);
+      await SecureStore.deleteItemAsync(tokensKey);
       return null;
     }
     
@@ -297,14 +454,14 @@ export async function getStoredTokens(): Promise<Tokens | null> {
         return parsed;
       } else {
         console.warn('Parsed tokens object is missing required properties');
-        await SecureStore.deleteItemAsync(TOKENS_KEY);
+        await SecureStore.deleteItemAsync(tokensKey);
         return null;
       }
     } catch (parseError) {
       console.error('Error parsing tokens JSON:', parseError);
       console.error('Stored value:', raw.substring(0, 100));
       // Clear corrupted data
-      await SecureStore.deleteItemAsync(TOKENS_KEY);
+      await SecureStore.deleteItemAsync(tokensKey);
       return null;
     }
   } catch (error) {
@@ -313,14 +470,109 @@ export async function getStoredTokens(): Promise<Tokens | null> {
   }
 }
 
+// API client for a connected org from its stored tokens, refreshing them when expired or rejected.
+// Every request first waits for waitUntilResumed, e.g. while the app is locked. Null when the org
+// has no stored session
+export async function createOrgClient(
+  orgId: string,
+  waitUntilResumed: () => Promise<void> = () => Promise.resolve()
+): Promise<SalesforceClient | null> {
+  let tokens = await getStoredTokens(orgId);
+  if (!tokens) return null;
+
+  const connection = await getOrgConnection(orgId);
+  let supportedVersions: string[] = [];
+  try {
+    supportedVersions = await fetchApiVersions(tokens.instanceUrl);
+  } catch (error) {
+    console.warn('Could not read supported API versions:', error);
+  }
+
+  const refresh = async (rejectedToken?: string) => {
+    await waitUntilResumed();
+    // Another client may have refreshed already; its token is as good as a new one
+    const stored = await getStoredTokens(orgId);
+    tokens = stored && stored.accessToken !== rejectedToken && !isTokenExpired(stored)
+      ? stored
+      : await refreshSalesforceToken(orgId);
+    return tokens.accessToken;
+  };
+  return new SalesforceClient({
+    instanceUrl: tokens.instanceUrl,
+    apiVersion: negotiateApiVersion(supportedVersions, connection?.apiVersion),
+    tokenProvider: {
+      getAccessToken: async () => {
+        await waitUntilResumed();
+        return tokens && !isTokenExpired(tokens) ? tokens.accessToken : refresh();
+      },
+      refreshAccessToken: refresh,
+    },
+  });
+}
+
+// Expiry of an access token (ms since epoch) as reported by Salesforce, null when introspection is
+// not available to the connected app
+export async function introspectAccessToken(endpoints: LoginHostEndpoints, clientId: string, accessToken: string): Promise<number | null> {
+  if (!endpoints.introspectionEndpoint) return null;
+  try {
+    const resp = await fetch(endpoints.introspectionEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body: new URLSearchParams({
+        token: accessToken,
+        token_type_hint: 'access_token',
+        client_id: clientId
+      }).toString()
+    });
+    if (!resp.ok) {
+      console.warn('Token introspection unavailable:', resp.status);
+      return null;
+    }
+    const data = await resp.json();
+    if (!data.active || typeof data.exp !== 'number') return null;
+    return data.exp * 1000;
+  } catch (error) {
+    console.warn('Token introspection failed:', error);
+    return null;
+  }
+}
+
+// Best known expiry: introspection, then expires_in, then the default session timeout
+export function getTokenExpiry(tokens: Tokens): number {
+  if (tokens.expiresAt) return tokens.expiresAt;
+  if (tokens.expiresIn) return tokens.issuedAt + tokens.expiresIn * 1000;
+  return tokens.issuedAt + DEFAULT_SESSION_LIFETIME_MS;
+}
+
 export function isTokenExpired(tokens: Tokens): boolean {
-  const now = Date.now();
-  const expiresAt = tokens.issuedAt + (tokens.expiresIn * 1000);
-  // Add 5 minute buffer
-  return now >= (expiresAt - 5 * 60 * 1000);
+  return Date.now() >= getTokenExpiry(tokens) - EXPIRY_BUFFER_MS;
 }
 
-export async function fetchUserInfo(instanceUrl: string, accessToken: string): Promise<UserInfo> {
+// The current user from Chatter's users/me, which only needs the api scope. Blank when Chatter is off
+async function fetchUserThroughApi(instanceUrl: string, accessToken: string) {
+  const apiVersion = negotiateApiVersion(await fetchApiVersions(instanceUrl));
+  const response = await fetch(`${instanceUrl}/services/data/${apiVersion}/chatter/users/me`, {
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Accept': 'application/json',
+    },
+  });
+  if (response.status === 401) {
+    throw new SessionRejectedError('Failed to get user information: 401');
+  }
+  if (!response.ok) {
+    console.warn('Current user not available through the REST API:', response.status);
+    return {};
+  }
+  const data = await response.json();
+  return { user_id: data.id, preferred_username: data.username, email: data.email };
+}
+
+// Scopes granted to the token, when known, decide whether the userinfo endpoint can be used
+export async function fetchUserInfo(instanceUrl: string, accessToken: string, grantedScopes?: string[]): Promise<UserInfo> {
   try {
     console.log('Fetching user info from Salesforce...');
     console.log('Instance URL:', instanceUrl);
@@ -334,33 +586,41 @@ export async function fetchUserInfo(instanceUrl: string, accessToken: string): P
     // Clean instance URL
     const cleanInstanceUrl = instanceUrl.replace(/\/$/, '');
     
-    // First, get user info from OAuth endpoint
-    const userInfoUrl = `${cleanInstanceUrl}/services/oauth2/userinfo`;
-    console.log('Fetching user info from:', userInfoUrl);
+    // The userinfo endpoint needs an identity scope; without one the same details come from the REST API
+    let userInfoData: { user_id?: string; preferred_username?: string; email?: string; organization_id?: string };
+    if (isFeatureAvailable(grantedScopes ?? null, 'user-profile')) {
+      const userInfoUrl = `${cleanInstanceUrl}/services/oauth2/userinfo`;
+      console.log('Fetching user info from:', userInfoUrl);
     
-    const userInfoResponse = await fetch(userInfoUrl, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Accept': 'application/json',
-      },
-    });
+      const userInfoResponse = await fetch(userInfoUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Accept': 'application/json',
+        },
+      });
 
-    console.log('User info response status:', userInfoResponse.status);
+      console.log('User info response status:', userInfoResponse.status);
     
-    if (!userInfoResponse.ok) {
-      const errorText = await userInfoResponse.text();
-      console.error('User info error response:', errorText);
+      if (!userInfoResponse.ok) {
+        const errorText = await userInfoResponse.text();
+        console.error('User info error response:', errorText);
       
-      // Handle specific error cases
-      if (userInfoResponse.status === 401 || userInfoResponse.status === 403) {
-        throw new Error(`Failed to get user information: ${userInfoResponse.status}`);
-      }
+        // Handle specific error cases
+        if (userInfoResponse.status === 401) {
+          throw new SessionRejectedError('Failed to get user information: 401');
+        }
+        if (userInfoResponse.status === 403) {
+          throw new Error(`Failed to get user information: ${userInfoResponse.status}`);
+        }
       
-      throw new Error(`Failed to get user information: ${userInfoResponse.status} - ${errorText}`);
-    }
+        throw new Error(`Failed to get user information: ${userInfoResponse.status} - ${errorText}`);
+      }
 
-    const userInfoData = await userInfoResponse.json();
-    console.log('User info retrieved from OAuth endpoint:', {
+      userInfoData = await userInfoResponse.json();
+    } else {
+      userInfoData = await fetchUserThroughApi(cleanInstanceUrl, accessToken);
+    }
+    console.log('User info retrieved:', {
       user_id: userInfoData.user_id,
       preferred_username: userInfoData.preferred_username,
       email: userInfoData.email,
@@ -372,7 +632,8 @@ export async function fetchUserInfo(instanceUrl: string, accessToken: string): P
     
     try {
       const orgQuery = 'SELECT Name FROM Organization LIMIT 1';
-      const orgUrl = `${cleanInstanceUrl}/services/data/v64.0/query/?q=${encodeURIComponent(orgQuery)}`;
+      const apiVersion = negotiateApiVersion(await fetchApiVersions(cleanInstanceUrl));
+      const orgUrl = `${cleanInstanceUrl}/services/data/${apiVersion}/query/?q=${encodeURIComponent(orgQuery)}`;
       console.log('Fetching organization name from:', orgUrl);
       
       const orgResponse = await fetch(orgUrl, {
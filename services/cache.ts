@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Everything under this prefix is wiped by "Clear Cache" in Settings
+export const CACHE_KEY_PREFIX = 'cache_';
+
+export interface CachedValue<T> {
+  value: T;
+  storedAt: string;
+}
+
+// Storage-safe key for an org, e.g. "mydomain.my.salesforce.com"
+export const getOrgKey = (instanceUrl: string) =>
+  instanceUrl.replace(/^https?:\/\//, '').replace(/\/$/, '').replace(/[^a-zA-Z0-9.-]/g, '_');
+
+const getCacheKey = (instanceUrl: string, key: string) => `${CACHE_KEY_PREFIX}${getOrgKey(instanceUrl)}_${key}`;
+
+export async function getCached<T>(instanceUrl: string, key: string, maxAgeMs: number): Promise<CachedValue<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(getCacheKey(instanceUrl, key));
+    if (!raw) return null;
+
+    const entry: CachedValue<T> = JSON.parse(raw);
+    if (Date.now() - new Date(entry.storedAt).getTime() > maxAgeMs) return null;
+    return entry;
+  } catch (error) {
+    console.warn('Error reading cache entry:', key, error);
+    return null;
+  }
+}
+
+export async function setCached<T>(instanceUrl: string, key: string, value: T): Promise<CachedValue<T>> {
+  const entry: CachedValue<T> = { value, storedAt: new Date().toISOString() };
+  try {
+    await AsyncStorage.setItem(getCacheKey(instanceUrl, key), JSON.stringify(entry));
+  } catch (error) {
+    console.warn('Error writing cache entry:', key, error);
+  }
+  return entry;
+}
+
+// Cached value when fresh enough, otherwise fetch, store and return a new one
+export async function withCache<T>(
+  instanceUrl: string,
+  key: string,
+  maxAgeMs: number,
+  fetcher: () => Promise<T>,
+  force = false
+): Promise<CachedValue<T>> {
+  if (!force) {
+    const cached = await getCached<T>(instanceUrl, key, maxAgeMs);
+    if (cached) return cached;
+  }
+  return setCached(instanceUrl, key, await fetcher());
+}
@@ -0,0 +1,41 @@
+import { onlineManager } from '@tanstack/react-query';
+
+// Any response from here means the network is back
+const PROBE_URL = 'https://login.salesforce.com/';
+const PROBE_INTERVAL_MS = 15000;
+const PROBE_TIMEOUT_MS = 5000;
+
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+
+// React Query pauses queries while offline and keeps showing cached results, so screens stay
+// browsable; they resume once a probe or another request gets through
+export function setNetworkOnline(online: boolean) {
+  if (online === onlineManager.isOnline()) return;
+  console.log(online ? 'Network is back' : 'Network unreachable, switching to offline mode');
+  onlineManager.setOnline(online);
+
+  if (online && probeTimer) {
+    clearInterval(probeTimer);
+    probeTimer = null;
+  } else if (!online && !probeTimer) {
+    probeTimer = setInterval(checkConnectivity, PROBE_INTERVAL_MS);
+  }
+}
+
+export async function checkConnectivity(): Promise<boolean> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    await fetch(PROBE_URL, { method: 'HEAD', signal: controller.signal });
+    setNetworkOnline(true);
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export const isNetworkOnline = () => onlineManager.isOnline();
+
+export const subscribeNetworkStatus = (listener: (online: boolean) => void) => onlineManager.subscribe(listener);
@@ -0,0 +1,163 @@
+import { Alert } from 'react-native';
+import { ID_BATCH_SIZE } from '@/services/salesforce';
+import { COMPOSITE_MAX_SUBREQUESTS, TokenExpiredError } from '@/services/salesforce-client';
+import type { SalesforceClient } from '@/services/salesforce-client';
+import type { ApiBudgetCheck, OrgLimit, OrgLimitGroup } from '@/types/salesforce';
+
+// Operations expected to use more than this share of the remaining daily API requests ask first
+export const LARGE_API_SHARE = 0.1;
+
+const LIMIT_LABELS: Record<string, string> = {
+  DailyApiRequests: 'Daily API Requests',
+  DailyBulkApiBatches: 'Bulk API Batches',
+  DailyBulkV2QueryJobs: 'Bulk API 2.0 Query Jobs',
+  DailyBulkV2QueryFileStorageMB: 'Bulk API 2.0 Query Storage',
+  DataStorageMB: 'Data Storage',
+  FileStorageMB: 'File Storage',
+  DailyAsyncApexExecutions: 'Async Apex Executions',
+  DailyAsyncApexTests: 'Async Apex Tests',
+};
+
+const LIMIT_SECTIONS: { title: string; note?: string; matches: (name: string) => boolean }[] = [
+  { title: 'API Requests', matches: name => /Api(Requests|Batches)|BulkV2/.test(name) },
+  {
+    title: 'Tooling API',
+    note: 'Tooling API calls, which make up most metadata scans, count toward Daily API Requests.',
+    matches: name => /Tooling|Metadata/.test(name),
+  },
+  { title: 'Storage', matches: name => name.endsWith('StorageMB') },
+  { title: 'Async', matches: name => name.includes('Async') },
+];
+
+// "HourlyODataCallout" -> "Hourly OData Callout"
+const toLabel = (name: string) =>
+  LIMIT_LABELS[name] || name.replace(/MB$/, '').replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+
+export async function fetchOrgLimits(client: SalesforceClient): Promise<OrgLimit[]> {
+  const data = await client.request<Record<string, { Max?: number; Remaining?: number }>>(`${client.dataPath}/limits`);
+  return Object.entries(data)
+    .filter(([, value]) => typeof value?.Max === 'number' && typeof value?.Remaining === 'number')
+    .map(([name, value]) => ({
+      name,
+      label: toLabel(name),
+      max: value.Max!,
+      remaining: value.Remaining!,
+      unit: name.endsWith('MB') ? 'MB' : null,
+    }));
+}
+
+// Dashboard sections in a fixed order; limits no section claims are listed under Other
+export function groupOrgLimits(limits: OrgLimit[]): OrgLimitGroup[] {
+  const claimed = new Set<string>();
+  const groups: OrgLimitGroup[] = LIMIT_SECTIONS.map(section => {
+    const matching = limits.filter(limit => !claimed.has(limit.name) && section.matches(limit.name));
+    matching.forEach(limit => claimed.add(limit.name));
+    return { title: section.title, note: section.note, limits: matching };
+  });
+  groups.push({ title: 'Other', limits: limits.filter(limit => !claimed.has(limit.name)) });
+  return groups.filter(group => group.limits.length > 0 || group.note);
+}
+
+// Types a live code search scans, each with one listing query
+const SCANNED_TYPES = [
+  'apex-class',
+  'apex-trigger',
+  'flow',
+  'lwc-bundle',
+  'aura-bundle',
+  'validation-rule',
+  'page-layout',
+  'record-type',
+];
+
+// Types whose records are read in further calls after the listing, and how many per call
+type ScanCosts = Record<string, { countQuery: string; recordsPerCall: number }>;
+
+const SEARCH_SCAN_COSTS: ScanCosts = {
+  'apex-class': { countQuery: 'SELECT COUNT() FROM ApexClass', recordsPerCall: ID_BATCH_SIZE },
+  'apex-trigger': { countQuery: 'SELECT COUNT() FROM ApexTrigger', recordsPerCall: ID_BATCH_SIZE },
+  // Flow XML is downloaded one flow at a time
+  'flow': { countQuery: "SELECT COUNT() FROM Flow WHERE Status = 'Active'", recordsPerCall: 1 },
+  'lwc-bundle': { countQuery: 'SELECT COUNT() FROM LightningComponentResource', recordsPerCall: ID_BATCH_SIZE },
+  'aura-bundle': { countQuery: 'SELECT COUNT() FROM AuraDefinition', recordsPerCall: ID_BATCH_SIZE },
+};
+
+// Building the index also reads the Metadata of every validation rule
+const INDEX_SCAN_COSTS: ScanCosts = {
+  ...SEARCH_SCAN_COSTS,
+  'validation-rule': { countQuery: 'SELECT COUNT() FROM ValidationRule', recordsPerCall: COMPOSITE_MAX_SUBREQUESTS },
+};
+
+// Counts the records to scan in one Tooling composite call, so the estimate itself stays cheap
+async function estimateScanCalls(client: SalesforceClient, types: string[], costs: ScanCosts): Promise<number> {
+  const scanned = types.length > 0 ? SCANNED_TYPES.filter(type => types.includes(type)) : SCANNED_TYPES;
+  const counted = scanned.filter(type => costs[type]);
+  let calls = scanned.length;
+  if (counted.length === 0) return calls;
+
+  try {
+    const responses = await client.toolingComposite(counted.map(type => ({
+      method: 'GET' as const,
+      url: `${client.dataPath}/tooling/query/?q=${encodeURIComponent(costs[type].countQuery)}`,
+      referenceId: type.replace(/-/g, '_'),
+    })));
+    responses.forEach((response, i) => {
+      const count = response.httpStatusCode < 400 ? response.body?.totalSize ?? 0 : 0;
+      calls += Math.ceil(count / costs[counted[i]].recordsPerCall);
+    });
+  } catch (error) {
+    if (error instanceof TokenExpiredError) throw error;
+    console.warn('Could not count records for the API call estimate:', error);
+  }
+  return calls + 1;
+}
+
+// Live search: the type scans plus the SOSL search of Apex names
+export async function estimateCodeSearchCalls(client: SalesforceClient, types: string[]): Promise<number> {
+  return await estimateScanCalls(client, types, SEARCH_SCAN_COSTS) + 1;
+}
+
+// Where-used of a field without an index downloads every Apex, flow and component source
+export function estimateFieldReferenceScanCalls(client: SalesforceClient): Promise<number> {
+  return estimateScanCalls(client, ['apex-class', 'apex-trigger', 'flow', 'lwc-bundle', 'aura-bundle'], SEARCH_SCAN_COSTS);
+}
+
+// Full index build; incremental refreshes only read what changed and cost far less
+export function estimateIndexBuildCalls(client: SalesforceClient): Promise<number> {
+  return estimateScanCalls(client, [], INDEX_SCAN_COSTS);
+}
+
+// Null when the operation fits comfortably in today's remaining requests or the limits cannot be read
+export async function checkApiBudget(client: SalesforceClient, estimatedCalls: number): Promise<ApiBudgetCheck | null> {
+  try {
+    const limits = await fetchOrgLimits(client);
+    const daily = limits.find(limit => limit.name === 'DailyApiRequests');
+    if (!daily || estimatedCalls <= daily.remaining * LARGE_API_SHARE) return null;
+    return { estimatedCalls, remaining: daily.remaining, max: daily.max };
+  } catch (error) {
+    if (error instanceof TokenExpiredError) throw error;
+    console.warn('Could not read API limits:', error);
+    return null;
+  }
+}
+
+// Asks before an operation that would use a large share of the remaining daily requests; true to go ahead
+export async function confirmApiUsage(client: SalesforceClient, operation: string, estimatedCalls: number): Promise<boolean> {
+  const budget = await checkApiBudget(client, estimatedCalls);
+  if (!budget) return true;
+
+  const usage = budget.estimatedCalls >= budget.remaining
+    ? `more than the ${budget.remaining.toLocaleString()} left today`
+    : `${Math.round((budget.estimatedCalls / budget.remaining) * 100)}% of the ${budget.remaining.toLocaleString()} left today`;
+  return new Promise(resolve => {
+    Alert.alert(
+      'High API Usage',
+      `${operation} is estimated to use about ${budget.estimatedCalls.toLocaleString()} API requests, ${usage}.`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Continue', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
@@ -0,0 +1,139 @@
+export const PRODUCTION_LOGIN_HOST = 'https://login.salesforce.com';
+export const SANDBOX_LOGIN_HOST = 'https://test.salesforce.com';
+
+const MY_DOMAIN_SUFFIX = '.my.salesforce.com';
+const MAX_RECENT_HOSTS = 5;
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+// Custom covers Experience Cloud sites and any other host, e.g. https://acme.my.site.com/partners
+export type LoginHostKind = 'production' | 'sandbox' | 'my-domain' | 'custom';
+
+export const LOGIN_HOST_KINDS: { kind: LoginHostKind; label: string }[] = [
+  { kind: 'production', label: 'Production' },
+  { kind: 'sandbox', label: 'Sandbox' },
+  { kind: 'my-domain', label: 'My Domain' },
+  { kind: 'custom', label: 'Custom' },
+];
+
+// Endpoints published by the host's OpenID discovery document
+export interface LoginHostEndpoints {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  revocationEndpoint?: string;
+  introspectionEndpoint?: string;
+}
+
+// "acme.my.salesforce.com/" -> "https://acme.my.salesforce.com". Site paths are kept, since an
+// Experience Cloud site serves OAuth under its own path
+export function normalizeLoginHost(input: string): string {
+  const trimmed = input.trim().replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed.replace(/^http:\/\//i, 'https://') : `https://${trimmed}`;
+}
+
+// "acme" or "acme--uat.sandbox" -> "https://acme.my.salesforce.com" / "https://acme--uat.sandbox.my.salesforce.com"
+export function myDomainLoginHost(domain: string): string {
+  const name = domain.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '');
+  if (!name) return '';
+  return normalizeLoginHost(name.endsWith(MY_DOMAIN_SUFFIX) ? name : `${name}${MY_DOMAIN_SUFFIX}`);
+}
+
+// The My Domain name of a login host, e.g. "acme--uat.sandbox"; null for other hosts
+export function myDomainName(host: string): string | null {
+  const match = /^https:\/\/([^/]+)\.my\.salesforce\.com$/i.exec(host);
+  return match ? match[1] : null;
+}
+
+export function detectLoginHostKind(host: string): LoginHostKind {
+  if (host === PRODUCTION_LOGIN_HOST) return 'production';
+  if (host === SANDBOX_LOGIN_HOST) return 'sandbox';
+  if (myDomainName(host)) return 'my-domain';
+  return 'custom';
+}
+
+export function describeLoginHost(host: string): string {
+  switch (detectLoginHostKind(host)) {
+    case 'production':
+      return 'Production';
+    case 'sandbox':
+      return 'Sandbox';
+    case 'my-domain':
+      return `My Domain · ${myDomainName(host)}`;
+    default:
+      return host.replace(/^https:\/\//, '');
+  }
+}
+
+// Most recent first, without duplicates
+export function addRecentHost(recentHosts: string[] | undefined, host: string): string[] {
+  return [host, ...(recentHosts || []).filter(recent => recent !== host)].slice(0, MAX_RECENT_HOSTS);
+}
+
+// Confirms the host is a Salesforce login domain by reading its OpenID configuration: the document
+// must name the host as its issuer and keep every endpoint on the host's origin, so a typo or another
+// provider cannot redirect the login. Throws with a message fit for the user when it is not
+export async function validateLoginHost(host: string): Promise<LoginHostEndpoints> {
+  let url: URL;
+  try {
+    url = new URL(host);
+  } catch {
+    throw new Error(`"${host}" is not a valid URL`);
+  }
+  if (url.protocol !== 'https:') {
+    throw new Error('Login hosts must use https');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), DISCOVERY_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(`${host}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    console.warn('OpenID discovery failed for', host, error);
+    throw new Error(`Could not reach ${url.host}. Check the domain name and your connection.`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+  if (!response.ok) {
+    throw new Error(`${url.host} has no OpenID configuration (HTTP ${response.status}). Check the domain name.`);
+  }
+
+  let config: Record<string, unknown>;
+  try {
+    config = await response.json();
+  } catch {
+    throw new Error(`${url.host} does not look like a Salesforce login domain`);
+  }
+  if (typeof config.issuer !== 'string' || typeof config.authorization_endpoint !== 'string'
+    || typeof config.token_endpoint !== 'string') {
+    throw new Error(`${url.host} does not look like a Salesforce login domain`);
+  }
+  if (normalizeLoginHost(config.issuer).toLowerCase() !== normalizeLoginHost(host).toLowerCase()) {
+    throw new Error(`${url.host} reports a different issuer (${config.issuer}). Check the domain name.`);
+  }
+
+  const optional = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const endpoints: LoginHostEndpoints = {
+    authorizationEndpoint: config.authorization_endpoint,
+    tokenEndpoint: config.token_endpoint,
+    revocationEndpoint: optional(config.revocation_endpoint),
+    introspectionEndpoint: optional(config.introspection_endpoint),
+  };
+  for (const endpoint of Object.values(endpoints)) {
+    if (endpoint && !isSameOrigin(endpoint, url)) {
+      throw new Error(`${url.host} sends sign-in to another domain (${endpoint})`);
+    }
+  }
+  return endpoints;
+}
+
+function isSameOrigin(endpoint: string, host: URL): boolean {
+  try {
+    return new URL(endpoint).origin === host.origin;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,525 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+
+import {
+  queryAllPages,
+  toolingQueryAllPages,
+  toolingScanInIdBatches,
+  fetchFlowXml,
+  fetchToolingMetadata,
+  getAuraFileName,
+} from '@/services/salesforce';
+import { getOrgKey } from '@/services/cache';
+import type { SalesforceClient, PartialFailure } from '@/services/salesforce-client';
+import type { MetadataIndex, MetadataIndexEntry, SearchProgress } from '@/types/salesforce';
+
+const INDEX_KEY_PREFIX = 'metadata_index_';
+
+// Only the manifest stays in AsyncStorage, which Android caps at 6 MB in total; the sources go to
+// files. Web has no file system and keeps them in AsyncStorage
+const INDEX_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}metadata-index/` : null;
+
+// Entries are written in chunks, so no single string grows with the org
+const MAX_CHUNK_CHARS = 512 * 1024;
+
+// Re-read anything modified shortly before the previous sync to cover clock skew
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+// Flows and validation rules need one request per record, run a few at a time
+const DETAIL_BATCH_SIZE = 5;
+
+// Bumped when entries change shape; an older index is then rebuilt in full on its next refresh
+const INDEX_FORMAT_VERSION = 2;
+
+interface StoredIndexManifest {
+  version?: number;
+  instanceUrl: string;
+  lastSync: string | null;
+  chunkCount: number;
+  // Each save writes a new set of chunks and only then points the manifest at them, so a save
+  // that fails halfway leaves the previous index whole. Unset for indexes kept in AsyncStorage
+  generation?: string;
+}
+
+interface IndexContext {
+  client: SalesforceClient;
+}
+
+interface IndexSource {
+  type: string;
+  label: string;
+  // Every live record Id, so components deleted in the org are dropped from the index
+  listIds: (ctx: IndexContext) => Promise<string[]>;
+  // Entries for records modified after `since` (all records when null)
+  fetchChanged: (
+    ctx: IndexContext,
+    since: string | null,
+    onItem: (done: number, total: number) => void
+  ) => Promise<MetadataIndexEntry[]>;
+}
+
+const getManifestKey = (instanceUrl: string) => `${INDEX_KEY_PREFIX}${getOrgKey(instanceUrl)}`;
+
+// Chunks of indexes from before the sources moved to files
+const getLegacyChunkKey = (instanceUrl: string, chunk: number) => `${getManifestKey(instanceUrl)}_${chunk}`;
+
+const getChunkName = (instanceUrl: string, generation: string, chunk: number) =>
+  `${getOrgKey(instanceUrl)}_${generation}_${chunk}`;
+
+async function writeChunk(name: string, content: string): Promise<void> {
+  if (!INDEX_DIRECTORY) {
+    await AsyncStorage.setItem(`${INDEX_KEY_PREFIX}${name}`, content);
+    return;
+  }
+  await FileSystem.writeAsStringAsync(`${INDEX_DIRECTORY}${name}.json`, content);
+}
+
+async function readChunk(name: string): Promise<string | null> {
+  if (!INDEX_DIRECTORY) return AsyncStorage.getItem(`${INDEX_KEY_PREFIX}${name}`);
+  try {
+    return await FileSystem.readAsStringAsync(`${INDEX_DIRECTORY}${name}.json`);
+  } catch {
+    return null;
+  }
+}
+
+async function removeChunks(names: string[]): Promise<void> {
+  if (names.length === 0) return;
+  if (!INDEX_DIRECTORY) {
+    await AsyncStorage.multiRemove(names.map(name => `${INDEX_KEY_PREFIX}${name}`));
+    return;
+  }
+  await Promise.all(names.map(name =>
+    FileSystem.deleteAsync(`${INDEX_DIRECTORY}${name}.json`, { idempotent: true })));
+}
+
+const getManifestChunkNames = (manifest: StoredIndexManifest) =>
+  manifest.generation
+    ? Array.from({ length: manifest.chunkCount }, (_, i) => getChunkName(manifest.instanceUrl, manifest.generation!, i))
+    : [];
+
+// Drops an index and its chunks. One saved before the sources moved to files is dropped on load
+// to free AsyncStorage; the next refresh builds it again
+async function removeStoredIndex(manifest: StoredIndexManifest): Promise<void> {
+  await AsyncStorage.removeItem(getManifestKey(manifest.instanceUrl));
+  if (manifest.generation) {
+    await removeChunks(getManifestChunkNames(manifest));
+  } else {
+    await AsyncStorage.multiRemove(
+      Array.from({ length: manifest.chunkCount }, (_, i) => getLegacyChunkKey(manifest.instanceUrl, i))
+    );
+  }
+}
+
+// SOQL datetime literals do not accept milliseconds
+const toSoqlDateTime = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const sinceFilter = (since: string | null, hasWhere = false) =>
+  since ? `${hasWhere ? ' AND' : ' WHERE'} LastModifiedDate > ${since}` : '';
+
+// TableEnumOrId holds a durable id (01I...) for custom objects; object: filters need the API name
+const toObjectName = (record: any): string => record.EntityDefinition?.QualifiedApiName || record.TableEnumOrId;
+
+const listToolingIds = async (ctx: IndexContext, soql: string) => {
+  const { records } = await toolingQueryAllPages(ctx.client, soql, 20000);
+  return records.map((r: any) => r.Id as string);
+};
+
+// Run `fetchOne` over records a few at a time, reporting progress after each batch
+async function fetchInBatches<T>(
+  records: any[],
+  fetchOne: (record: any) => Promise<T | null>,
+  onItem: (done: number, total: number) => void
+): Promise<T[]> {
+  const results: T[] = [];
+  onItem(0, records.length);
+  for (let i = 0; i < records.length; i += DETAIL_BATCH_SIZE) {
+    const batch = records.slice(i, i + DETAIL_BATCH_SIZE);
+    const batchResults = await Promise.all(batch.map(fetchOne));
+    batchResults.forEach(result => {
+      if (result) results.push(result);
+    });
+    onItem(Math.min(i + DETAIL_BATCH_SIZE, records.length), records.length);
+  }
+  return results;
+}
+
+const INDEX_SOURCES: IndexSource[] = [
+  {
+    type: 'apex-class',
+    label: 'Apex classes',
+    listIds: (ctx) => listToolingIds(ctx, 'SELECT Id FROM ApexClass'),
+    // Bodies are read 100 classes at a time, as one query for all of them runs into response-size
+    // and timeout limits on large orgs
+    fetchChanged: async (ctx, since, onItem) => {
+      const records: any[] = [];
+      await toolingScanInIdBatches(
+        ctx.client,
+        `SELECT Id FROM ApexClass${sinceFilter(since)}`,
+        (idList) => `SELECT Id, Name, Body, LastModifiedDate FROM ApexClass WHERE Id IN (${idList})`,
+        (r) => records.push(r),
+        onItem
+      );
+      return records.map((r: any) => ({
+        id: `apex-class-${r.Id}`,
+        sourceId: r.Id,
+        type: 'apex-class',
+        name: r.Name,
+        label: r.Name,
+        fileName: `${r.Name}.cls`,
+        content: r.Body || '',
+        lastModifiedDate: r.LastModifiedDate,
+      }));
+    },
+  },
+  {
+    type: 'apex-trigger',
+    label: 'Apex triggers',
+    listIds: (ctx) => listToolingIds(ctx, 'SELECT Id FROM ApexTrigger'),
+    fetchChanged: async (ctx, since, onItem) => {
+      const records: any[] = [];
+      await toolingScanInIdBatches(
+        ctx.client,
+        `SELECT Id FROM ApexTrigger${sinceFilter(since)}`,
+        (idList) => `SELECT Id, Name, Body, TableEnumOrId, EntityDefinition.QualifiedApiName, LastModifiedDate FROM ApexTrigger WHERE Id IN (${idList})`,
+        (r) => records.push(r),
+        onItem
+      );
+      return records.map((r: any) => {
+        const objectName = toObjectName(r);
+        return {
+          id: `apex-trigger-${r.Id}`,
+          sourceId: r.Id,
+          type: 'apex-trigger',
+          name: r.Name,
+          label: `${r.Name} (${objectName})`,
+          fileName: `${r.Name}.trigger`,
+          content: r.Body || '',
+          lastModifiedDate: r.LastModifiedDate,
+          objectName,
+        };
+      });
+    },
+  },
+  {
+    type: 'flow',
+    label: 'flows',
+    listIds: (ctx) => listToolingIds(ctx, "SELECT Id FROM Flow WHERE Status = 'Active'"),
+    fetchChanged: async (ctx, since, onItem) => {
+      const { records } = await toolingQueryAllPages(
+        ctx.client,
+        `SELECT Id, MasterLabel, LastModifiedDate FROM Flow WHERE Status = 'Active' AND MasterLabel != null${sinceFilter(since, true)}`,
+        15000
+      );
+      return fetchInBatches<MetadataIndexEntry>(records, async (r) => {
+        const xml = await fetchFlowXml(ctx.client, r.Id);
+        if (xml === null) return null;
+        return {
+          id: `flow-${r.Id}`,
+          sourceId: r.Id,
+          type: 'flow',
+          name: r.MasterLabel,
+          label: r.MasterLabel,
+          fileName: `${r.MasterLabel}.flow`,
+          content: xml,
+          lastModifiedDate: r.LastModifiedDate,
+        };
+      }, onItem);
+    },
+  },
+  {
+    type: 'validation-rule',
+    label: 'validation rules',
+    listIds: (ctx) => listToolingIds(ctx, 'SELECT Id FROM ValidationRule'),
+    fetchChanged: async (ctx, since, onItem) => {
+      const { records } = await toolingQueryAllPages(
+        ctx.client,
+        `SELECT Id, ValidationName, ErrorMessage, EntityDefinition.QualifiedApiName, LastModifiedDate FROM ValidationRule${sinceFilter(since)}`,
+        15000
+      );
+      // The Metadata column holds the formula
+      const metadata = await fetchToolingMetadata(ctx.client, 'ValidationRule', records.map((r: any) => r.Id), onItem);
+      return records.map((r: any): MetadataIndexEntry => {
+        const formula = metadata.get(r.Id)?.errorConditionFormula || '';
+        const objectName = r.EntityDefinition?.QualifiedApiName || 'Object';
+        return {
+          id: `validation-rule-${r.Id}`,
+          sourceId: r.Id,
+          type: 'validation-rule',
+          name: r.ValidationName,
+          label: `${r.ValidationName} (${objectName})`,
+          fileName: `${objectName}.${r.ValidationName}.validationRule`,
+          content: [formula, r.ErrorMessage].filter(Boolean).join('\n'),
+          lastModifiedDate: r.LastModifiedDate,
+          objectName: r.EntityDefinition?.QualifiedApiName,
+        };
+      });
+    },
+  },
+  {
+    type: 'lwc-bundle',
+    label: 'Lightning web component files',
+    listIds: (ctx) => listToolingIds(ctx, 'SELECT Id FROM LightningComponentResource'),
+    fetchChanged: async (ctx, since, onItem) => {
+      const { records } = await toolingQueryAllPages(
+        ctx.client,
+        `SELECT Id, FilePath, Source, LightningComponentBundle.DeveloperName, LastModifiedDate FROM LightningComponentResource${sinceFilter(since)}`,
+        30000
+      );
+      onItem(records.length, records.length);
+      return records.map((r: any) => ({
+        id: `lwc-resource-${r.Id}`,
+        sourceId: r.Id,
+        type: 'lwc-bundle',
+        name: r.LightningComponentBundle?.DeveloperName || r.FilePath,
+        label: r.FilePath,
+        fileName: r.FilePath,
+        content: r.Source || '',
+        lastModifiedDate: r.LastModifiedDate,
+      }));
+    },
+  },
+  {
+    type: 'aura-bundle',
+    label: 'Aura component files',
+    listIds: (ctx) => listToolingIds(ctx, 'SELECT Id FROM AuraDefinition'),
+    fetchChanged: async (ctx, since, onItem) => {
+      const { records } = await toolingQueryAllPages(
+        ctx.client,
+        `SELECT Id, DefType, Source, AuraDefinitionBundle.DeveloperName, LastModifiedDate FROM AuraDefinition${sinceFilter(since)}`,
+        30000
+      );
+      onItem(records.length, records.length);
+      return records.map((r: any) => {
+        const bundleName = r.AuraDefinitionBundle?.DeveloperName || 'aura';
+        const fileName = getAuraFileName(bundleName, r.DefType);
+        return {
+          id: `aura-definition-${r.Id}`,
+          sourceId: r.Id,
+          type: 'aura-bundle',
+          name: bundleName,
+          label: fileName,
+          fileName,
+          content: r.Source || '',
+          lastModifiedDate: r.LastModifiedDate,
+        };
+      });
+    },
+  },
+  {
+    type: 'page-layout',
+    label: 'page layouts',
+    listIds: (ctx) => listToolingIds(ctx, 'SELECT Id FROM Layout'),
+    fetchChanged: async (ctx, since, onItem) => {
+      const { records } = await toolingQueryAllPages(
+        ctx.client,
+        `SELECT Id, Name, TableEnumOrId, EntityDefinition.QualifiedApiName, LastModifiedDate FROM Layout${sinceFilter(since)}`,
+        15000
+      );
+      onItem(records.length, records.length);
+      return records.map((r: any) => {
+        const objectName = toObjectName(r);
+        return {
+          id: `page-layout-${r.Id}`,
+          sourceId: r.Id,
+          type: 'page-layout',
+          name: r.Name,
+          label: `${r.Name} (${objectName})`,
+          fileName: `${objectName}.${r.Name}.layout`,
+          content: r.Name,
+          lastModifiedDate: r.LastModifiedDate,
+          objectName,
+        };
+      });
+    },
+  },
+  {
+    type: 'record-type',
+    label: 'record types',
+    listIds: async (ctx) => {
+      // RecordType is read through the standard API as the Tooling object has field limitations
+      const { records } = await queryAllPages(ctx.client, 'SELECT Id FROM RecordType', 15000);
+      return records.map((r: any) => r.Id as string);
+    },
+    fetchChanged: async (ctx, since, onItem) => {
+      const { records } = await queryAllPages(
+        ctx.client,
+        `SELECT Id, Name, SobjectType, Description, LastModifiedDate FROM RecordType${sinceFilter(since)}`,
+        15000
+      );
+      onItem(records.length, records.length);
+      return records.map((r: any) => ({
+        id: `record-type-${r.Id}`,
+        sourceId: r.Id,
+        type: 'record-type',
+        name: r.Name,
+        label: `${r.Name} (${r.SobjectType})`,
+        fileName: `${r.SobjectType}.${r.Name}.recordType`,
+        content: [r.Name, r.Description].filter(Boolean).join('\n'),
+        lastModifiedDate: r.LastModifiedDate,
+        objectName: r.SobjectType,
+      }));
+    },
+  },
+];
+
+export async function loadMetadataIndex(instanceUrl: string): Promise<MetadataIndex | null> {
+  try {
+    const rawManifest = await AsyncStorage.getItem(getManifestKey(instanceUrl));
+    if (!rawManifest) return null;
+
+    const manifest: StoredIndexManifest = JSON.parse(rawManifest);
+    if (!manifest.generation) {
+      console.log('Dropping metadata index kept in AsyncStorage; it is rebuilt in files');
+      await removeStoredIndex(manifest);
+      return null;
+    }
+
+    const entries: MetadataIndexEntry[] = [];
+    for (const name of getManifestChunkNames(manifest)) {
+      const value = await readChunk(name);
+      if (!value) {
+        console.warn('Metadata index chunk missing, discarding index:', name);
+        return null;
+      }
+      entries.push(...JSON.parse(value));
+    }
+
+    return {
+      instanceUrl: manifest.instanceUrl,
+      lastSync: manifest.version === INDEX_FORMAT_VERSION ? manifest.lastSync : null,
+      entries,
+    };
+  } catch (error) {
+    console.error('Error loading metadata index:', error);
+    return null;
+  }
+}
+
+async function saveMetadataIndex(index: MetadataIndex): Promise<void> {
+  const chunks: string[] = [];
+  let current: MetadataIndexEntry[] = [];
+  let currentSize = 0;
+
+  for (const entry of index.entries) {
+    const entrySize = entry.content.length + entry.fileName.length + 256;
+    if (current.length > 0 && currentSize + entrySize > MAX_CHUNK_CHARS) {
+      chunks.push(JSON.stringify(current));
+      current = [];
+      currentSize = 0;
+    }
+    current.push(entry);
+    currentSize += entrySize;
+  }
+  if (current.length > 0) {
+    chunks.push(JSON.stringify(current));
+  }
+
+  const previous = await AsyncStorage.getItem(getManifestKey(index.instanceUrl));
+  const previousManifest: StoredIndexManifest | null = previous ? JSON.parse(previous) : null;
+
+  const manifest: StoredIndexManifest = {
+    version: INDEX_FORMAT_VERSION,
+    instanceUrl: index.instanceUrl,
+    lastSync: index.lastSync,
+    chunkCount: chunks.length,
+    generation: Date.now().toString(36),
+  };
+  const names = getManifestChunkNames(manifest);
+
+  try {
+    if (INDEX_DIRECTORY) {
+      await FileSystem.makeDirectoryAsync(INDEX_DIRECTORY, { intermediates: true });
+    }
+    for (let i = 0; i < chunks.length; i++) {
+      await writeChunk(names[i], chunks[i]);
+    }
+    await AsyncStorage.setItem(getManifestKey(index.instanceUrl), JSON.stringify(manifest));
+  } catch (error) {
+    console.error('Error saving metadata index:', error);
+    await removeChunks(names).catch(cleanupError => console.warn('Could not remove partial index:', cleanupError));
+    const message = 'The offline index could not be saved, most likely because the device is low on storage.';
+    throw new Error(previousManifest ? `${message} The previous index was kept.` : message);
+  }
+
+  // The manifest points at the new chunks, so the previous set can go
+  if (previousManifest?.generation) {
+    await removeChunks(getManifestChunkNames(previousManifest))
+      .catch(error => console.warn('Could not remove the previous index:', error));
+  }
+}
+
+// Build the index on first use, then only re-download what changed since the last sync
+export async function refreshMetadataIndex(
+  client: SalesforceClient,
+  onProgress?: (progress: SearchProgress) => void
+): Promise<MetadataIndex> {
+  const existing = await loadMetadataIndex(client.instanceUrl);
+  const syncStartedAt = new Date();
+  const since = existing?.lastSync
+    ? toSoqlDateTime(new Date(Date.parse(existing.lastSync) - SYNC_OVERLAP_MS))
+    : null;
+
+  console.log(since ? `Refreshing metadata index (changes since ${since})` : 'Building metadata index');
+
+  // Reads that failed are skipped quietly, so they have to hold back lastSync below
+  const failures: PartialFailure[] = [];
+  const ctx: IndexContext = { client: client.withPartialFailureListener(failure => failures.push(failure)) };
+  const entriesById = new Map<string, MetadataIndexEntry>(
+    (existing?.entries || []).map(entry => [entry.id, entry])
+  );
+
+  for (const source of INDEX_SOURCES) {
+    const liveIds = new Set(await source.listIds(ctx));
+    const changed = await source.fetchChanged(ctx, since, (done, total) => {
+      onProgress?.({ type: source.type, label: source.label, scanned: done, total });
+    });
+    changed.forEach(entry => entriesById.set(entry.id, entry));
+
+    // An empty Id list is far more likely a failed query than an org without any of this type
+    if (liveIds.size === 0) {
+      console.warn(`No ${source.label} listed, skipping deletion check`);
+      continue;
+    }
+    for (const [id, entry] of entriesById) {
+      if (entry.type === source.type && !liveIds.has(entry.sourceId)) {
+        entriesById.delete(id);
+      }
+    }
+  }
+
+  // Moving lastSync past a failed read would hide its changes from every later refresh, so the
+  // next refresh starts from the previous sync again
+  if (failures.length > 0) {
+    console.warn(`Metadata index refresh skipped ${failures.length} reads, keeping the previous sync time`);
+  }
+  const index: MetadataIndex = {
+    instanceUrl: client.instanceUrl,
+    lastSync: failures.length > 0 ? existing?.lastSync ?? null : syncStartedAt.toISOString(),
+    entries: Array.from(entriesById.values()).sort((a, b) => a.fileName.localeCompare(b.fileName)),
+  };
+
+  await saveMetadataIndex(index);
+  console.log(`Metadata index saved with ${index.entries.length} entries`);
+  return index;
+}
+
+export async function clearMetadataIndex(instanceUrl: string): Promise<void> {
+  try {
+    const rawManifest = await AsyncStorage.getItem(getManifestKey(instanceUrl));
+    if (!rawManifest) return;
+    await removeStoredIndex(JSON.parse(rawManifest));
+  } catch (error) {
+    console.error('Error clearing metadata index:', error);
+  }
+}
+
+// Every org's index files, for "Reset App Data"; their manifests go with the rest of AsyncStorage
+export async function clearAllMetadataIndexes(): Promise<void> {
+  if (!INDEX_DIRECTORY) return;
+  try {
+    await FileSystem.deleteAsync(INDEX_DIRECTORY, { idempotent: true });
+  } catch (error) {
+    console.error('Error clearing metadata index files:', error);
+  }
+}
@@ -0,0 +1,42 @@
+// Scopes requested when a connection does not choose its own
+export const DEFAULT_SCOPES = ['api', 'refresh_token', 'openid', 'profile', 'email'];
+
+// Least privilege: metadata access and staying signed in, nothing about the user
+export const LEAST_PRIVILEGE_SCOPES = ['api', 'refresh_token'];
+
+export const AVAILABLE_SCOPES: { scope: string; description: string }[] = [
+  { scope: 'api', description: 'REST and Tooling API access; needed for all metadata features' },
+  { scope: 'refresh_token', description: 'Stay signed in after the access token expires' },
+  { scope: 'openid', description: 'OpenID Connect identity and ID token' },
+  { scope: 'id', description: 'Identity URL service' },
+  { scope: 'profile', description: 'Username and profile details' },
+  { scope: 'email', description: 'Email address' },
+  { scope: 'web', description: 'Use the session in web pages' },
+  { scope: 'full', description: 'Full access; includes api but not refresh_token' },
+];
+
+// App features that depend on what the org granted
+export type ScopedFeature = 'metadata' | 'stay-signed-in' | 'user-profile';
+
+// Each feature works with any one of its scopes
+export const FEATURE_SCOPES: Record<ScopedFeature, { label: string; anyOf: string[] }> = {
+  'metadata': { label: 'Metadata browsing, search and export', anyOf: ['api', 'full'] },
+  'stay-signed-in': { label: 'Staying signed in', anyOf: ['refresh_token', 'offline_access'] },
+  'user-profile': { label: 'Username and email', anyOf: ['openid', 'id', 'profile'] },
+};
+
+// "api refresh_token openid" -> ["api", "refresh_token", "openid"]; null when the token response left it out
+export function parseGrantedScopes(scope: unknown): string[] | null {
+  if (typeof scope !== 'string' || !scope.trim()) return null;
+  return scope.trim().split(/\s+/);
+}
+
+// Unknown grants (null), e.g. tokens stored before scopes were recorded, leave every feature on
+export function isFeatureAvailable(grantedScopes: string[] | null, feature: ScopedFeature): boolean {
+  if (!grantedScopes) return true;
+  return FEATURE_SCOPES[feature].anyOf.some(scope => grantedScopes.includes(scope));
+}
+
+export function getUnavailableFeatures(grantedScopes: string[] | null): ScopedFeature[] {
+  return (Object.keys(FEATURE_SCOPES) as ScopedFeature[]).filter(feature => !isFeatureAvailable(grantedScopes, feature));
+}
@@ -0,0 +1,319 @@
+import * as Crypto from 'expo-crypto';
+
+import {
+  fetchSalesforceObjects,
+  fetchObjectDescribes,
+  queryAllPages,
+  toolingQueryAllPages,
+} from '@/services/salesforce';
+import type { SalesforceClient } from '@/services/salesforce-client';
+import type {
+  OrgSchema,
+  SchemaField,
+  SearchProgress,
+  MetadataDiffCategory,
+  MetadataDiffChange,
+  MetadataDiffItem,
+} from '@/types/salesforce';
+
+const CATEGORY_ORDER: MetadataDiffCategory[] = ['object', 'field', 'validationRule', 'apexClass', 'flow'];
+
+export const DIFF_CATEGORY_LABELS: Record<MetadataDiffCategory, string> = {
+  object: 'Objects',
+  field: 'Fields',
+  validationRule: 'Validation Rules',
+  apexClass: 'Apex Classes',
+  flow: 'Flows',
+};
+
+export interface CaptureOptions {
+  // Describe every queryable object instead of custom objects only; much slower on large orgs
+  includeStandardObjects?: boolean;
+  // Download class bodies to hash them, so edits that keep the length are caught
+  includeClassBodies?: boolean;
+}
+
+async function fetchValidationRules(client: SalesforceClient): Promise<OrgSchema['validationRules']> {
+  const { records } = await toolingQueryAllPages(
+    client,
+    'SELECT ValidationName, Active, ErrorMessage, ErrorDisplayField, EntityDefinition.QualifiedApiName FROM ValidationRule',
+    20000
+  );
+  const rules: OrgSchema['validationRules'] = {};
+  records.forEach((r: any) => {
+    const objectName = r.EntityDefinition?.QualifiedApiName || 'Unknown';
+    rules[`${objectName}.${r.ValidationName}`] = {
+      active: !!r.Active,
+      errorMessage: r.ErrorMessage || '',
+      errorDisplayField: r.ErrorDisplayField || null,
+    };
+  });
+  return rules;
+}
+
+async function fetchApexClasses(
+  client: SalesforceClient,
+  includeBodies: boolean
+): Promise<OrgSchema['apexClasses']> {
+  const { records } = await queryAllPages(
+    client,
+    `SELECT Name, ApiVersion, Status, LengthWithoutComments${includeBodies ? ', Body' : ''} FROM ApexClass WHERE NamespacePrefix = null`,
+    includeBodies ? 30000 : 20000
+  );
+  const classes: OrgSchema['apexClasses'] = {};
+  for (const r of records) {
+    classes[r.Name] = {
+      apiVersion: r.ApiVersion,
+      status: r.Status,
+      length: r.LengthWithoutComments,
+      bodyHash: includeBodies
+        ? await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, r.Body || '')
+        : undefined,
+    };
+  }
+  return classes;
+}
+
+async function fetchFlowVersions(client: SalesforceClient): Promise<OrgSchema['flows']> {
+  const { records } = await toolingQueryAllPages(
+    client,
+    'SELECT DeveloperName, MasterLabel, ActiveVersion.VersionNumber, LatestVersion.VersionNumber FROM FlowDefinition WHERE NamespacePrefix = null',
+    20000
+  );
+  const flows: OrgSchema['flows'] = {};
+  records.forEach((r: any) => {
+    flows[r.DeveloperName] = {
+      label: r.MasterLabel || r.DeveloperName,
+      activeVersion: r.ActiveVersion?.VersionNumber ?? null,
+      latestVersion: r.LatestVersion?.VersionNumber ?? null,
+    };
+  });
+  return flows;
+}
+
+async function fetchSchemaFields(
+  client: SalesforceClient,
+  objectNames: string[],
+  onProgress: (progress: SearchProgress) => void
+): Promise<OrgSchema['fields']> {
+  // Objects that fail to describe are left out of the schema, so their fields are not compared
+  // rather than reported as removed
+  const describes = await fetchObjectDescribes(client, objectNames, (scanned, total) => {
+    onProgress({ type: 'field', label: 'Fields', scanned, total });
+  });
+
+  const fields: OrgSchema['fields'] = {};
+  describes.forEach((describe, objectName) => {
+    const objectFields: Record<string, SchemaField> = {};
+    describe.fields.forEach(field => {
+      objectFields[field.name] = {
+        label: field.label,
+        type: field.type,
+        length: field.length,
+        required: field.required,
+        picklistValues: (field.picklistValues || []).filter(value => value.active).map(value => value.value),
+      };
+    });
+    fields[objectName] = objectFields;
+  });
+  return fields;
+}
+
+// Runs one category's reads. A lenient read that fails returns nothing, which would show every
+// record in the other org as added or removed, so the category is marked unavailable instead
+async function readCategory<T>(
+  client: SalesforceClient,
+  category: MetadataDiffCategory,
+  unavailable: MetadataDiffCategory[],
+  read: (client: SalesforceClient) => Promise<T>
+): Promise<T> {
+  let failed = false;
+  const result = await read(client.withPartialFailureListener(() => {
+    failed = true;
+  }));
+  if (failed) {
+    console.warn(`${DIFF_CATEGORY_LABELS[category]} could not be read completely, leaving them out of comparisons`);
+    unavailable.push(category);
+  }
+  return result;
+}
+
+// Read everything the comparison looks at from one org
+export async function captureOrgSchema(
+  client: SalesforceClient,
+  options: CaptureOptions = {},
+  onProgress: (progress: SearchProgress) => void = () => {}
+): Promise<OrgSchema> {
+  onProgress({ type: 'object', label: 'Objects', scanned: 0, total: 1 });
+  const objectList = await fetchSalesforceObjects(client);
+  const objects: OrgSchema['objects'] = {};
+  objectList.forEach(obj => {
+    objects[obj.name] = { label: obj.label, custom: obj.custom };
+  });
+  onProgress({ type: 'object', label: 'Objects', scanned: 1, total: 1 });
+
+  onProgress({ type: 'metadata', label: 'Validation rules, classes and flows', scanned: 0, total: 1 });
+  const unavailable: MetadataDiffCategory[] = [];
+  const [validationRules, apexClasses, flows] = await Promise.all([
+    readCategory(client, 'validationRule', unavailable, fetchValidationRules),
+    readCategory(client, 'apexClass', unavailable, categoryClient =>
+      fetchApexClasses(categoryClient, !!options.includeClassBodies)
+    ),
+    readCategory(client, 'flow', unavailable, fetchFlowVersions),
+  ]);
+  onProgress({ type: 'metadata', label: 'Validation rules, classes and flows', scanned: 1, total: 1 });
+
+  const describedObjects = objectList
+    .filter(obj => options.includeStandardObjects || obj.custom)
+    .map(obj => obj.name);
+  const fields = await fetchSchemaFields(client, describedObjects, onProgress);
+
+  return {
+    instanceUrl: client.instanceUrl,
+    capturedAt: new Date().toISOString(),
+    objects,
+    fields,
+    validationRules,
+    apexClasses,
+    flows,
+    unavailable,
+  };
+}
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? '—' : String(value));
+
+// Property-by-property changes between two versions of the same item
+function compareProperties<T extends object>(
+  source: T,
+  target: T,
+  properties: [keyof T, string][]
+): MetadataDiffChange[] {
+  return properties
+    .filter(([key]) => source[key] !== target[key])
+    .map(([key, property]) => ({ property, source: formatValue(source[key]), target: formatValue(target[key]) }));
+}
+
+function compareFields(source: SchemaField, target: SchemaField): MetadataDiffChange[] {
+  const changes = compareProperties(source, target, [
+    ['type', 'Type'],
+    ['length', 'Length'],
+    ['required', 'Required'],
+  ]);
+  const sourceOnly = source.picklistValues.filter(value => !target.picklistValues.includes(value));
+  const targetOnly = target.picklistValues.filter(value => !source.picklistValues.includes(value));
+  if (sourceOnly.length > 0 || targetOnly.length > 0) {
+    // Each side lists the values the other org does not have
+    changes.push({
+      property: 'Picklist values',
+      source: sourceOnly.join(', ') || '—',
+      target: targetOnly.join(', ') || '—',
+    });
+  }
+  return changes;
+}
+
+function compareApexClasses(
+  source: OrgSchema['apexClasses'][string],
+  target: OrgSchema['apexClasses'][string]
+): MetadataDiffChange[] {
+  const changes = compareProperties(source, target, [
+    ['apiVersion', 'API version'],
+    ['status', 'Status'],
+    ['length', 'Length without comments'],
+  ]);
+  // Either side may have been captured without bodies
+  if (source.bodyHash && target.bodyHash && source.bodyHash !== target.bodyHash) {
+    changes.push({ property: 'Body', source: source.bodyHash.slice(0, 12), target: target.bodyHash.slice(0, 12) });
+  }
+  return changes;
+}
+
+function diffRecords<T>(
+  category: MetadataDiffCategory,
+  source: Record<string, T>,
+  target: Record<string, T>,
+  compare: (source: T, target: T) => MetadataDiffChange[],
+  namePrefix = ''
+): MetadataDiffItem[] {
+  const items: MetadataDiffItem[] = [];
+  Object.keys(source).forEach(name => {
+    if (!(name in target)) {
+      items.push({ category, status: 'removed', name: `${namePrefix}${name}`, changes: [] });
+      return;
+    }
+    const changes = compare(source[name], target[name]);
+    if (changes.length > 0) {
+      items.push({ category, status: 'changed', name: `${namePrefix}${name}`, changes });
+    }
+  });
+  Object.keys(target).forEach(name => {
+    if (!(name in source)) {
+      items.push({ category, status: 'added', name: `${namePrefix}${name}`, changes: [] });
+    }
+  });
+  return items;
+}
+
+// Categories either side could not read
+export function getSkippedCategories(source: OrgSchema, target: OrgSchema): MetadataDiffCategory[] {
+  const skipped = new Set([...(source.unavailable || []), ...(target.unavailable || [])]);
+  return CATEGORY_ORDER.filter(category => skipped.has(category));
+}
+
+// Everything that differs going from the source schema to the target one (two orgs, or two snapshots).
+// Categories either side could not read are left out
+export function diffOrgSchemas(source: OrgSchema, target: OrgSchema): MetadataDiffItem[] {
+  const skipped = getSkippedCategories(source, target);
+  const compared = (category: MetadataDiffCategory) => !skipped.includes(category);
+  const items: MetadataDiffItem[] = [
+    ...diffRecords('object', source.objects, target.objects, (a, b) =>
+      compareProperties(a, b, [['label', 'Label']])
+    ),
+    ...(compared('validationRule') ? diffRecords('validationRule', source.validationRules, target.validationRules, (a, b) =>
+      compareProperties(a, b, [
+        ['active', 'Active'],
+        ['errorMessage', 'Error message'],
+        ['errorDisplayField', 'Error location'],
+      ])
+    ) : []),
+    ...(compared('apexClass') ? diffRecords('apexClass', source.apexClasses, target.apexClasses, compareApexClasses) : []),
+    ...(compared('flow') ? diffRecords('flow', source.flows, target.flows, (a, b) =>
+      compareProperties(a, b, [
+        ['activeVersion', 'Active version'],
+        ['latestVersion', 'Latest version'],
+      ])
+    ) : []),
+  ];
+
+  // Fields only for objects described on both sides; a missing object is already reported above
+  Object.keys(source.fields)
+    .filter(objectName => objectName in target.fields)
+    .forEach(objectName => {
+      items.push(
+        ...diffRecords('field', source.fields[objectName], target.fields[objectName], compareFields, `${objectName}.`)
+      );
+    });
+
+  return items.sort((a, b) =>
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.name.localeCompare(b.name)
+  );
+}
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// One row per changed property, or a single row for added and removed items
+export function diffToCsv(items: MetadataDiffItem[], sourceName: string, targetName: string): string {
+  const rows = [['Category', 'Status', 'Name', 'Property', sourceName, targetName].map(csvCell).join(',')];
+  items.forEach(item => {
+    const category = DIFF_CATEGORY_LABELS[item.category];
+    if (item.changes.length === 0) {
+      const present = item.status === 'added' ? ['', 'Present'] : ['Present', ''];
+      rows.push([category, item.status, item.name, '', ...present].map(csvCell).join(','));
+      return;
+    }
+    item.changes.forEach(change => {
+      rows.push([category, item.status, item.name, change.property, change.source, change.target].map(csvCell).join(','));
+    });
+  });
+  return rows.join('\n');
+}
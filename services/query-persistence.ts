@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { dehydrate, hydrate, type DehydratedState, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import { CACHE_KEY_PREFIX } from '@/services/cache';
+
+type PersistedQuery = DehydratedState['queries'][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long results are kept for offline browsing, by the first element of the query key.
+// Queries not listed here stay in memory only
+export const PERSISTED_QUERY_TTLS: Record<string, number> = {
+  'salesforce-objects': 7 * DAY_MS,
+  'salesforce-describe': 7 * DAY_MS,
+  'object-relationships': 7 * DAY_MS,
+  'field-references': 3 * DAY_MS,
+  'field-population': DAY_MS,
+  'field-audit': DAY_MS,
+};
+
+// Saves are batched, so a screen loading many queries writes once
+const SAVE_DELAY_MS = 1000;
+
+// Under the cache prefix, so "Clear Cache" in Settings removes it too
+const QUERIES_KEY_PREFIX = `${CACHE_KEY_PREFIX}queries_`;
+
+const getQueriesKey = (orgId: string) => `${QUERIES_KEY_PREFIX}${orgId}`;
+
+// Saved results per org by query hash. Kept apart from the query cache so a result whose refetch
+// failed, e.g. while offline, stays saved
+const savedQueries = new Map<string, Map<string, PersistedQuery>>();
+
+// Query keys start with the query name and the org id, e.g. ["salesforce-describe", orgId, "Account", instanceUrl]
+const isPersisted = (queryKey: QueryKey, orgId: string) =>
+  typeof queryKey[0] === 'string' && queryKey[0] in PERSISTED_QUERY_TTLS && queryKey[1] === orgId;
+
+const isExpired = (query: PersistedQuery, now: number) =>
+  now - query.state.dataUpdatedAt > PERSISTED_QUERY_TTLS[query.queryKey[0] as string];
+
+async function saveQueries(queryClient: QueryClient, orgId: string): Promise<void> {
+  const saved = savedQueries.get(orgId) || new Map<string, PersistedQuery>();
+  savedQueries.set(orgId, saved);
+
+  const { queries } = dehydrate(queryClient, {
+    shouldDehydrateQuery: query => query.state.status === 'success' && isPersisted(query.queryKey, orgId),
+  });
+  queries.forEach(query => saved.set(query.queryHash, query));
+
+  const now = Date.now();
+  saved.forEach((query, hash) => {
+    if (isExpired(query, now)) saved.delete(hash);
+  });
+  try {
+    if (saved.size === 0) {
+      await AsyncStorage.removeItem(getQueriesKey(orgId));
+    } else {
+      await AsyncStorage.setItem(getQueriesKey(orgId), JSON.stringify([...saved.values()]));
+    }
+  } catch (error) {
+    console.warn('Error saving cached queries:', error);
+  }
+}
+
+async function restoreQueries(queryClient: QueryClient, orgId: string): Promise<void> {
+  try {
+    const raw = await AsyncStorage.getItem(getQueriesKey(orgId));
+    if (!raw) return;
+
+    const now = Date.now();
+    const queries = (JSON.parse(raw) as PersistedQuery[])
+      .filter(query => isPersisted(query.queryKey, orgId) && !isExpired(query, now));
+    savedQueries.set(orgId, new Map(queries.map(query => [query.queryHash, query])));
+    // Newer results already in memory are kept
+    hydrate(queryClient, { queries, mutations: [] });
+    console.log(`Restored ${queries.length} cached queries for org`, orgId);
+  } catch (error) {
+    console.warn('Error restoring cached queries:', error);
+  }
+}
+
+// Restore an org's saved query results, then save them again as they change. Returns the function
+// that stops saving, after writing any pending changes
+export function startQueryPersistence(queryClient: QueryClient, orgId: string): () => void {
+  // Keep results in memory for as long as they are saved, instead of the default few minutes
+  Object.entries(PERSISTED_QUERY_TTLS).forEach(([name, ttl]) => {
+    queryClient.setQueryDefaults([name], { gcTime: ttl });
+  });
+
+  const restored = restoreQueries(queryClient, orgId);
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    saveTimer = null;
+    restored.then(() => saveQueries(queryClient, orgId));
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(event => {
+    if (event.type !== 'updated' || event.action.type !== 'success') return;
+    if (!isPersisted(event.query.queryKey, orgId)) return;
+    if (!saveTimer) saveTimer = setTimeout(flush, SAVE_DELAY_MS);
+  });
+
+  return () => {
+    unsubscribe();
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      flush();
+    }
+  };
+}
+
+// Forget the saved results of one org, or of every org
+export async function clearPersistedQueries(orgId?: string): Promise<void> {
+  try {
+    if (orgId) {
+      savedQueries.delete(orgId);
+      await AsyncStorage.removeItem(getQueriesKey(orgId));
+      return;
+    }
+    savedQueries.clear();
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(QUERIES_KEY_PREFIX)));
+  } catch (error) {
+    console.warn('Error clearing cached queries:', error);
+  }
+}
@@ -0,0 +1,643 @@
+import { setNetworkOnline } from '@/services/connectivity';
+
+// Used when the org's version list cannot be read
+export const DEFAULT_API_VERSION = 'v64.0';
+
+// Most subrequests the Composite and Composite Batch resources accept per call
+export const COMPOSITE_MAX_SUBREQUESTS = 25;
+
+// Composite calls in flight at once for whole-org reads; more mostly trips concurrent request limits
+export const COMPOSITE_CONCURRENCY = 4;
+
+// Requests in flight at once per org, across every client for it. Salesforce counts concurrent
+// long-running requests per org, so separate screens share one budget
+export const ORG_MAX_CONCURRENT_REQUESTS = 10;
+
+export interface RetryPolicy {
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Applies to 5xx responses, 429s, concurrent request limits and dropped connections; see retryReason
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export class TokenExpiredError extends Error {
+  constructor(message: string = 'Token expired or invalid') {
+    super(message);
+    this.name = 'TokenExpiredError';
+  }
+}
+
+// No API client yet: the org's supported API versions are still being read after sign-in
+export class NotConnectedError extends Error {
+  constructor(message: string = 'Still connecting to the org. Try again in a moment.') {
+    super(message);
+    this.name = 'NotConnectedError';
+  }
+}
+
+// Map a failed REST response to TokenExpiredError or an Error carrying Salesforce's message
+export function handleApiError(response: Response, errorText: string): never {
+  try {
+    const errorJson = JSON.parse(errorText);
+    if (errorJson[0]?.errorCode === 'INVALID_SESSION_ID' ||
+        errorJson[0]?.message?.includes('Session expired')) {
+      throw new TokenExpiredError(errorJson[0].message);
+    }
+    if (errorJson[0]?.message) {
+      throw new Error(`Salesforce API Error: ${errorJson[0].message}`);
+    }
+  } catch (parseError) {
+    if (parseError instanceof TokenExpiredError) {
+      throw parseError;
+    }
+    if (parseError instanceof Error && parseError.message.startsWith('Salesforce API Error')) {
+      throw parseError;
+    }
+    // If not JSON, check for 401 status
+    if (response.status === 401) {
+      throw new TokenExpiredError('Session expired or invalid');
+    }
+  }
+
+  throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
+}
+
+const versionNumber = (version: string) => parseFloat(version.replace(/^v/, ''));
+
+export const compareApiVersions = (a: string, b: string) => versionNumber(a) - versionNumber(b);
+
+// REST API versions the org supports, oldest first, e.g. ['v20.0', ..., 'v64.0']. Needs no session
+export async function fetchApiVersions(instanceUrl: string, signal?: AbortSignal): Promise<string[]> {
+  const response = await fetch(`${instanceUrl.replace(/\/$/, '')}/services/data/`, {
+    headers: { Accept: 'application/json' },
+    signal,
+  });
+  if (!response.ok) {
+    handleApiError(response, await response.text());
+  }
+  const data = await response.json();
+  return (Array.isArray(data) ? data : [])
+    .map((item: any) => `v${item.version}`)
+    .sort(compareApiVersions);
+}
+
+// The pinned version when the org supports it, otherwise the newest one it does
+export function negotiateApiVersion(supported: string[], pinned?: string | null): string {
+  if (pinned && (supported.length === 0 || supported.includes(pinned))) return pinned;
+  if (pinned) {
+    console.warn(`Pinned API version ${pinned} is not supported by this org, using the newest`);
+  }
+  return supported.length > 0 ? supported[supported.length - 1] : DEFAULT_API_VERSION;
+}
+
+export interface TokenProvider {
+  getAccessToken: () => string | Promise<string>;
+  // A new token after the given one was rejected; without it a 401 surfaces as TokenExpiredError
+  refreshAccessToken?: (rejectedToken: string) => Promise<string>;
+}
+
+export interface SalesforceClientOptions {
+  instanceUrl: string;
+  // A plain token for one-off calls, or a provider that can refresh it
+  tokenProvider: TokenProvider | string;
+  apiVersion?: string;
+  // Default cancellation signal for every request made through this client
+  signal?: AbortSignal;
+  retryPolicy?: RetryPolicy;
+  onPartialFailure?: (failure: PartialFailure) => void;
+}
+
+// A read that still failed after retries and was skipped, leaving the results incomplete
+export interface PartialFailure {
+  // What could not be read, e.g. the queried sobject
+  source: string;
+  message: string;
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  // Objects are sent as JSON, strings as-is
+  body?: unknown;
+  headers?: Record<string, string>;
+  accept?: string;
+  signal?: AbortSignal;
+  // Milliseconds before the request is aborted
+  timeout?: number;
+  // POST and PATCH may have run when they fail, so they are only retried when rejected up front.
+  // Set for POSTs that only read, e.g. composite GETs
+  idempotent?: boolean;
+}
+
+export interface QueryPage<T = any> {
+  records: T[];
+  totalSize: number;
+  done: boolean;
+  nextRecordsUrl?: string;
+}
+
+export interface CompositeSubrequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  // Path starting with /services/data/...
+  url: string;
+  referenceId: string;
+  body?: unknown;
+}
+
+export interface CompositeSubresponse<T = any> {
+  body: T;
+  httpStatusCode: number;
+  referenceId: string;
+}
+
+export interface BatchSubrequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  // Path relative to /services/data, starting with the version, e.g. v64.0/sobjects/Account/describe
+  url: string;
+}
+
+export interface BatchSubresponse<T = any> {
+  result: T;
+  statusCode: number;
+}
+
+export interface DescribeManyOptions extends RequestOptions {
+  concurrency?: number;
+  onProgress?: (described: number, total: number) => void;
+}
+
+// Error for a failed composite subrequest, whose body is Salesforce's usual error array
+export function toSubrequestError(body: any, statusCode: number): Error {
+  const error = Array.isArray(body) ? body[0] : body;
+  if (error?.errorCode === 'INVALID_SESSION_ID') {
+    return new TokenExpiredError(error.message);
+  }
+  return new Error(error?.message ? `Salesforce API Error: ${error.message}` : `HTTP error! status: ${statusCode}`);
+}
+
+// Run `fn` over every item with at most `limit` calls pending; results keep the input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Refreshes are shared by every client derived from the same one, so concurrent 401s refresh once
+interface RefreshState {
+  pending: Promise<string> | null;
+}
+
+// Abort when either the caller's signal fires or the timeout elapses
+function combineSignals(signal: AbortSignal | undefined, timeout: number | undefined) {
+  if (!timeout) return { signal, clear: () => {} };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+const abortError = () => Object.assign(new Error('Request aborted'), { name: 'AbortError' });
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// Exponential backoff with full jitter, or the server's Retry-After when it sends one
+function retryDelay(retry: number, policy: RetryPolicy, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, policy.maxDelayMs);
+  }
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+}
+
+// fetch rejects with a TypeError when the connection drops; aborts and timeouts are not retried
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+// 'limit' when the org is pushing back and every request to it should wait, 'server' for other
+// transient failures, null when retrying cannot help. An exhausted daily limit is final. Only
+// rejections that mean the request never ran are retried for non-idempotent requests, and SOAP
+// faults come back as 500s for errors that would only happen again
+async function retryReason(response: Response, idempotent: boolean): Promise<'limit' | 'server' | null> {
+  if (response.status === 429) return 'limit';
+  if (response.status === 403) {
+    const text = await response.clone().text();
+    return text.includes('REQUEST_LIMIT_EXCEEDED') && !text.includes('TotalRequests') ? 'limit' : null;
+  }
+  if (response.status < 500 || !idempotent) return null;
+  if ((response.headers.get('Content-Type') || '').includes('xml')) {
+    const text = await response.clone().text();
+    if (/<(\w+:)?Fault>/.test(text)) return null;
+  }
+  return response.status === 503 ? 'limit' : 'server';
+}
+
+// Per-org slots for in-flight requests, paused for everyone when the org asks to back off
+class RequestBudget {
+  private active = 0;
+  private pausedUntil = 0;
+  private readonly waiting: (() => void)[] = [];
+  private readonly maxConcurrent: number;
+
+  constructor(maxConcurrent: number) {
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause, signal);
+      } else if (this.active < this.maxConcurrent) {
+        this.active++;
+        return;
+      } else {
+        await this.waitForSlot(signal);
+      }
+    }
+  }
+
+  // A cancelled request gives up its place in line instead of waiting for a slot it no longer needs
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const onAbort = () => {
+        const index = this.waiting.indexOf(wake);
+        if (index !== -1) this.waiting.splice(index, 1);
+        reject(abortError());
+      };
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(wake);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+const orgBudgets = new Map<string, RequestBudget>();
+
+function getOrgBudget(instanceUrl: string): RequestBudget {
+  let budget = orgBudgets.get(instanceUrl);
+  if (!budget) {
+    budget = new RequestBudget(ORG_MAX_CONCURRENT_REQUESTS);
+    orgBudgets.set(instanceUrl, budget);
+  }
+  return budget;
+}
+
+export class SalesforceClient {
+  readonly instanceUrl: string;
+  readonly apiVersion: string;
+  private readonly tokenProvider: TokenProvider;
+  private readonly signal?: AbortSignal;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly onPartialFailure?: (failure: PartialFailure) => void;
+  private readonly refreshState: RefreshState;
+  private readonly budget: RequestBudget;
+
+  constructor(options: SalesforceClientOptions, refreshState: RefreshState = { pending: null }) {
+    this.instanceUrl = options.instanceUrl.replace(/\/$/, '');
+    this.apiVersion = options.apiVersion || DEFAULT_API_VERSION;
+    this.tokenProvider = typeof options.tokenProvider === 'string'
+      ? { getAccessToken: () => options.tokenProvider as string }
+      : options.tokenProvider;
+    this.signal = options.signal;
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+    this.onPartialFailure = options.onPartialFailure;
+    this.refreshState = refreshState;
+    this.budget = getOrgBudget(this.instanceUrl);
+  }
+
+  // REST resource root for this client's API version, e.g. /services/data/v64.0
+  get dataPath(): string {
+    return `/services/data/${this.apiVersion}`;
+  }
+
+  // Same org and token handling, with requests cancelled when `signal` aborts (e.g. React Query's)
+  withSignal(signal: AbortSignal | undefined): SalesforceClient {
+    return this.derive({ signal });
+  }
+
+  // Same client, with skipped reads reported to `listener` (e.g. to warn that results are partial).
+  // Listeners already attached keep hearing about them
+  withPartialFailureListener(listener: (failure: PartialFailure) => void): SalesforceClient {
+    const previous = this.onPartialFailure;
+    return this.derive({
+      onPartialFailure: failure => {
+        previous?.(failure);
+        listener(failure);
+      },
+    });
+  }
+
+  private derive(overrides: Partial<SalesforceClientOptions>): SalesforceClient {
+    return new SalesforceClient(
+      {
+        instanceUrl: this.instanceUrl,
+        tokenProvider: this.tokenProvider,
+        apiVersion: this.apiVersion,
+        signal: this.signal,
+        retryPolicy: this.retryPolicy,
+        onPartialFailure: this.onPartialFailure,
+        ...overrides,
+      },
+      this.refreshState
+    );
+  }
+
+  // Record a read that failed for good and was skipped so the rest of an operation could finish
+  reportPartialFailure(source: string, error: unknown) {
+    const message = error instanceof Error
+      ? (error.name === 'AbortError' ? 'Timed out' : error.message)
+      : String(error);
+    console.warn(`${source} could not be read:`, message);
+    this.onPartialFailure?.({ source, message });
+  }
+
+  getAccessToken(): Promise<string> {
+    return Promise.resolve(this.tokenProvider.getAccessToken());
+  }
+
+  private async refreshAccessToken(rejectedToken: string): Promise<string> {
+    if (!this.tokenProvider.refreshAccessToken) {
+      throw new TokenExpiredError('Session expired or invalid');
+    }
+    if (!this.refreshState.pending) {
+      this.refreshState.pending = this.tokenProvider.refreshAccessToken(rejectedToken)
+        .catch(error => {
+          // A failed refresh means the session is gone; callers handle that as an expired token
+          if (error instanceof TokenExpiredError) throw error;
+          throw new TokenExpiredError(error instanceof Error ? error.message : 'Session expired or invalid');
+        })
+        .finally(() => {
+          this.refreshState.pending = null;
+        });
+    }
+    return this.refreshState.pending;
+  }
+
+  // Raw authorized response. A 401 refreshes the token and retries once, and transient failures
+  // are retried with backoff per the retry policy. Callers check response.ok
+  async send(path: string, options: RequestOptions = {}): Promise<Response> {
+    const callerSignal = options.signal || this.signal;
+    const idempotent = options.idempotent ?? !['POST', 'PATCH'].includes(options.method || 'GET');
+    const attempt = async (accessToken: string) => {
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: options.accept || 'application/json',
+        ...options.headers,
+      };
+      let body: string | undefined;
+      if (options.body !== undefined) {
+        body = typeof options.body === 'string' ? options.body : JSON.stringify(options.body);
+        headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+      }
+
+      // The timeout starts once a slot is free, not while waiting for one
+      await this.budget.acquire(callerSignal);
+      const { signal, clear } = combineSignals(callerSignal, options.timeout);
+      try {
+        return await fetch(`${this.instanceUrl}${path}`, {
+          method: options.method || 'GET',
+          headers,
+          body,
+          signal,
+        });
+      } finally {
+        clear();
+        this.budget.release();
+      }
+    };
+
+    let accessToken = await this.getAccessToken();
+    let refreshed = false;
+    let retries = 0;
+    for (;;) {
+      let response: Response;
+      try {
+        response = await attempt(accessToken);
+      } catch (error) {
+        // A dropped connection may still have delivered a non-idempotent request
+        if (!isNetworkError(error) || !idempotent) throw error;
+        if (retries >= this.retryPolicy.maxRetries) {
+          setNetworkOnline(false);
+          throw error;
+        }
+        const delay = retryDelay(retries++, this.retryPolicy, null);
+        console.log(`Network error, retrying in ${Math.round(delay)}ms:`, path);
+        await sleep(delay, callerSignal);
+        continue;
+      }
+      setNetworkOnline(true);
+
+      if (response.status === 401 && !refreshed && this.tokenProvider.refreshAccessToken) {
+        console.log('Access token rejected, refreshing and retrying:', path);
+        refreshed = true;
+        accessToken = await this.refreshAccessToken(accessToken);
+        continue;
+      }
+
+      const reason = retries < this.retryPolicy.maxRetries ? await retryReason(response, idempotent) : null;
+      if (!reason) return response;
+      const delay = retryDelay(retries++, this.retryPolicy, response.headers.get('Retry-After'));
+      // Other requests to the org hold off too, rather than each running into the limit
+      if (reason === 'limit') this.budget.pause(delay);
+      console.log(`Salesforce answered ${response.status}, retrying in ${Math.round(delay)}ms:`, path);
+      await sleep(delay, callerSignal);
+    }
+  }
+
+  // JSON body of a successful response, errors mapped through handleApiError
+  async request<T = any>(path: string, options: RequestOptions = {}): Promise<T> {
+    const response = await this.send(path, options);
+    if (!response.ok) {
+      handleApiError(response, await response.text());
+    }
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  }
+
+  async requestText(path: string, options: RequestOptions = {}): Promise<string> {
+    const response = await this.send(path, { accept: '*/*', ...options });
+    if (!response.ok) {
+      handleApiError(response, await response.text());
+    }
+    return response.text();
+  }
+
+  // First page of a SOQL query
+  query<T = any>(soql: string, options: RequestOptions = {}): Promise<QueryPage<T>> {
+    console.log('Executing query:', soql);
+    return this.request(`${this.dataPath}/query/?q=${encodeURIComponent(soql)}`, options);
+  }
+
+  // Next page from a previous page's nextRecordsUrl
+  queryMore<T = any>(nextRecordsUrl: string, options: RequestOptions = {}): Promise<QueryPage<T>> {
+    return this.request(nextRecordsUrl, options);
+  }
+
+  // Every page of a SOQL query, following nextRecordsUrl. Not Salesforce's /queryAll, which also
+  // returns deleted and archived rows
+  queryAllPages<T = any>(soql: string, options: RequestOptions = {}): Promise<{ records: T[] }> {
+    console.log('Executing query:', soql);
+    return this.readAllPages(`${this.dataPath}/query/?q=${encodeURIComponent(soql)}`, options);
+  }
+
+  // Every page of a Tooling API query
+  toolingQuery<T = any>(soql: string, options: RequestOptions = {}): Promise<{ records: T[] }> {
+    console.log('Executing tooling query:', soql);
+    return this.readAllPages(`${this.dataPath}/tooling/query/?q=${encodeURIComponent(soql)}`, options);
+  }
+
+  private async readAllPages<T>(path: string, options: RequestOptions): Promise<{ records: T[] }> {
+    let page = await this.request<QueryPage<T>>(path, options);
+    const records: T[] = [...(page.records || [])];
+    while (page.nextRecordsUrl) {
+      page = await this.request<QueryPage<T>>(page.nextRecordsUrl, options);
+      records.push(...(page.records || []));
+    }
+    console.log(`Query returned ${records.length} records`);
+    return { records };
+  }
+
+  describeGlobal(options: RequestOptions = {}): Promise<any> {
+    return this.request(`${this.dataPath}/sobjects/`, options);
+  }
+
+  describe(objectName: string, options: RequestOptions = {}): Promise<any> {
+    return this.request(`${this.dataPath}/sobjects/${objectName}/describe/`, options);
+  }
+
+  sosl(search: string, options: RequestOptions = {}): Promise<{ searchRecords: any[] }> {
+    return this.request(`${this.dataPath}/search/?q=${encodeURIComponent(search)}`, options);
+  }
+
+  // Up to 25 subrequests in one round-trip; each subresponse carries its own status
+  async composite<T = any>(
+    subrequests: CompositeSubrequest[],
+    options: RequestOptions & { allOrNone?: boolean } = {}
+  ): Promise<CompositeSubresponse<T>[]> {
+    const { allOrNone = false, ...requestOptions } = options;
+    const result = await this.request<{ compositeResponse: CompositeSubresponse<T>[] }>(`${this.dataPath}/composite`, {
+      idempotent: subrequests.every(subrequest => subrequest.method === 'GET'),
+      ...requestOptions,
+      method: 'POST',
+      body: { allOrNone, compositeRequest: subrequests },
+    });
+    return result.compositeResponse || [];
+  }
+
+  // Composite over the Tooling API, e.g. several Metadata reads that cannot share one query
+  async toolingComposite<T = any>(
+    subrequests: CompositeSubrequest[],
+    options: RequestOptions & { allOrNone?: boolean } = {}
+  ): Promise<CompositeSubresponse<T>[]> {
+    const { allOrNone = false, ...requestOptions } = options;
+    const result = await this.request<{ compositeResponse: CompositeSubresponse<T>[] }>(`${this.dataPath}/tooling/composite`, {
+      idempotent: subrequests.every(subrequest => subrequest.method === 'GET'),
+      ...requestOptions,
+      method: 'POST',
+      body: { allOrNone, compositeRequest: subrequests },
+    });
+    return result.compositeResponse || [];
+  }
+
+  // Up to 25 independent GETs in one round-trip; unlike composite, the URLs start at the version
+  async compositeBatch<T = any>(subrequests: BatchSubrequest[], options: RequestOptions = {}): Promise<BatchSubresponse<T>[]> {
+    const result = await this.request<{ results: BatchSubresponse<T>[] }>(`${this.dataPath}/composite/batch`, {
+      idempotent: subrequests.every(subrequest => subrequest.method === 'GET'),
+      ...options,
+      method: 'POST',
+      body: { haltOnError: false, batchRequests: subrequests },
+    });
+    return result.results || [];
+  }
+
+  // Describes of many objects, 25 per Composite Batch call. Objects that fail to describe map to
+  // their Error; an expired session fails the whole call
+  async describeMany(objectNames: string[], options: DescribeManyOptions = {}): Promise<Map<string, any>> {
+    const { concurrency = COMPOSITE_CONCURRENCY, onProgress, ...requestOptions } = options;
+    const describes = new Map<string, any>();
+    let described = 0;
+    onProgress?.(0, objectNames.length);
+
+    await mapWithConcurrency(chunk(objectNames, COMPOSITE_MAX_SUBREQUESTS), concurrency, async names => {
+      const results = await this.compositeBatch(
+        names.map(name => ({ method: 'GET' as const, url: `${this.apiVersion}/sobjects/${name}/describe` })),
+        requestOptions
+      );
+      names.forEach((name, i) => {
+        const result = results[i];
+        const failed = !result || result.statusCode >= 400;
+        const value = failed ? toSubrequestError(result?.result, result?.statusCode ?? 0) : result.result;
+        if (value instanceof TokenExpiredError) throw value;
+        describes.set(name, value);
+      });
+      described += names.length;
+      onProgress?.(described, objectNames.length);
+    });
+    return describes;
+  }
+}
@@ -1,10 +1,45 @@
 import type { 
     SalesforceObject, 
     SalesforceField, 
-    MetadataReference 
+    MetadataReference,
+    ReferenceConfidence,
+    SearchProgress,
+    MetadataIndex,
+    FieldPopulationStats,
+    ObjectRelationship,
+    ObjectRelationships,
+    SalesforceObjectDescribe,
+    ChildRelationship,
+    RecordTypeInfo,
+    SetupAuditEntry,
+    SetupAuditFilters,
+    SetupAuditPage
   } from "@/types/salesforce";
+  import {
+    parseSearchQuery,
+    matchesQueryContent,
+    matchesQueryName,
+    matchesQueryObject,
+    findQueryMatch,
+    toSoqlNameCondition,
+    toSoqlObjectCondition,
+    toSoqlWhere,
+    type SearchQuery,
+  } from "@/services/search-query";
+  import {
+    SalesforceClient,
+    TokenExpiredError,
+    COMPOSITE_MAX_SUBREQUESTS,
+    COMPOSITE_CONCURRENCY,
+    chunk,
+    mapWithConcurrency,
+    toSubrequestError,
+  } from "@/services/salesforce-client";
   
-  const API_VERSION = "v64.0";
+  // Number of Ids per "WHERE Id IN (...)" batch when pulling Body/Source columns
+  export const ID_BATCH_SIZE = 100;
+  
+  export { TokenExpiredError };
   
   // Escape all SOSL-reserved characters inside FIND {...}
   export function escapeSOSL(input: string): string {
@@ -12,80 +47,162 @@ import type {
     return input.replace(/([\\?&|!{}\[\]()^~*:\\"'\+\-])/g, "\\$1");
   }
   
-  // Build a safe REST search URL
-  export function buildSearchUrl(base: string, searchTerm: string, objectTypes: string[] = ['ApexClass', 'ApexTrigger']): string {
+  // Build a safe REST search URL under a versioned data root, e.g. client.dataPath
+  export function buildSearchUrl(dataPath: string, searchTerm: string, objectTypes: string[] = ['ApexClass', 'ApexTrigger']): string {
     const escaped = escapeSOSL(searchTerm);
     const returning = objectTypes.map(type => `${type}(Id,Name)`).join(', ');
     const sosl = `FIND {"${escaped}"} IN ALL FIELDS RETURNING ${returning}`;
-    return `${base}/services/data/v64.0/search/?q=${encodeURIComponent(sosl)}`;
+    return `${dataPath}/search/?q=${encodeURIComponent(sosl)}`;
   }
   
-  export class TokenExpiredError extends Error {
-    constructor(message: string = 'Token expired or invalid') {
-      super(message);
-      this.name = 'TokenExpiredError';
+  // Lenient query: failures are logged and yield no records so one bad query does not sink a scan;
+  // an expired session still throws
+  async function queryLeniently(
+    client: SalesforceClient,
+    run: () => Promise<{ records: any[] }>,
+    soql: string
+  ): Promise<{ records: any[] }> {
+    try {
+      return await run();
+    } catch (error) {
+      if (error instanceof TokenExpiredError) {
+        throw error; // Re-throw token errors
+      }
+      // The client has already retried transient failures; report what is missing
+      console.warn('Query failed:', soql);
+      client.reportPartialFailure(soql.match(/\bFROM\s+(\w+)/i)?.[1] || 'Query', error);
+      return { records: [] };
     }
   }
   
-  function handleApiError(response: Response, errorText: string) {
+  export function queryAllPages(client: SalesforceClient, soql: string, timeout = 10000) {
+    return queryLeniently(client, () => client.queryAllPages(soql, { timeout }), soql);
+  }
+  
+  export function toolingQueryAllPages(client: SalesforceClient, soql: string, timeout = 10000) {
+    return queryLeniently(client, () => client.toolingQuery(soql, { timeout }), soql);
+  }
+  
+  // List every Id first (cheap, up to 2,000 per page), then pull the heavy Body/Source
+  // column in Id batches so orgs with thousands of components are fully scanned
+  export async function toolingScanInIdBatches(
+    client: SalesforceClient,
+    idQuery: string,
+    detailQuery: (idList: string) => string,
+    onRecord: (record: any) => void,
+    onBatch?: (scanned: number, total: number) => void
+  ): Promise<void> {
+    const { records: idRecords } = await toolingQueryAllPages(client, idQuery, 15000);
+    const total = idRecords.length;
+    onBatch?.(0, total);
+    
+    for (let i = 0; i < total; i += ID_BATCH_SIZE) {
+      const idList = idRecords
+        .slice(i, i + ID_BATCH_SIZE)
+        .map((r: any) => `'${r.Id}'`)
+        .join(',');
+      const { records } = await toolingQueryAllPages(client, detailQuery(idList), 20000);
+      records.forEach(onRecord);
+      onBatch?.(Math.min(i + ID_BATCH_SIZE, total), total);
+    }
+  }
+  
+  // Flow definitions are only available as XML through the Tooling sobject endpoint
+  export async function fetchFlowXml(client: SalesforceClient, flowId: string): Promise<string | null> {
     try {
-      const errorJson = JSON.parse(errorText);
-      if (errorJson[0]?.errorCode === 'INVALID_SESSION_ID' || 
-          errorJson[0]?.message?.includes('Session expired')) {
-        throw new TokenExpiredError(errorJson[0].message);
-      }
-      if (errorJson[0]?.message) {
-        throw new Error(`Salesforce API Error: ${errorJson[0].message}`);
-      }
-    } catch (parseError) {
-      if (parseError instanceof TokenExpiredError) {
-        throw parseError;
-      }
-      // If not JSON, check for 401 status
-      if (response.status === 401) {
-        throw new TokenExpiredError('Session expired or invalid');
+      const xmlResponse = await client.send(`${client.dataPath}/tooling/sobjects/Flow/${flowId}`, {
+        accept: 'application/xml',
+      });
+      
+      if (!xmlResponse.ok) {
+        const errorText = await xmlResponse.text();
+        console.warn(`Failed to get XML for flow ${flowId}: ${xmlResponse.status} - ${errorText}`);
+        client.reportPartialFailure('Flow', `HTTP ${xmlResponse.status}`);
+        return null;
       }
+      
+      const xmlContent = await xmlResponse.text();
+      console.log(`Got XML content for flow ${flowId}, length: ${xmlContent.length}`);
+      return xmlContent;
+    } catch (xmlError) {
+      console.warn(`Error getting XML for flow ${flowId}:`, xmlError);
+      client.reportPartialFailure('Flow', xmlError);
+      return null;
+    }
+  }
+  
+  // File suffix per AuraDefinition.DefType, used to name individual bundle files
+  const AURA_DEF_TYPE_SUFFIXES: Record<string, string> = {
+    APPLICATION: '.app',
+    COMPONENT: '.cmp',
+    EVENT: '.evt',
+    INTERFACE: '.intf',
+    TOKENS: '.tokens',
+    CONTROLLER: 'Controller.js',
+    HELPER: 'Helper.js',
+    RENDERER: 'Renderer.js',
+    STYLE: '.css',
+    DOCUMENTATION: '.auradoc',
+    DESIGN: '.design',
+    SVG: '.svg',
+  };
+  
+  // Source-layout path of an Aura bundle file, e.g. aura/accountCard/accountCardController.js
+  export function getAuraFileName(bundleName: string, defType: string): string {
+    const suffix = AURA_DEF_TYPE_SUFFIXES[defType] || `.${String(defType).toLowerCase()}`;
+    return `aura/${bundleName}/${bundleName}${suffix}`;
+  }
+  
+  const SOURCE_FILE_KINDS: [RegExp, string][] = [
+    [/\.js-meta\.xml$/, 'Metadata XML'],
+    [/^aura\/.*Controller\.js$/, 'Controller'],
+    [/^aura\/.*Helper\.js$/, 'Helper'],
+    [/^aura\/.*Renderer\.js$/, 'Renderer'],
+    [/\.js$/, 'JavaScript'],
+    [/\.html$/, 'HTML'],
+    [/\.css$/, 'CSS'],
+    [/\.cmp$/, 'Component Markup'],
+    [/\.app$/, 'Application'],
+    [/\.evt$/, 'Event'],
+    [/\.intf$/, 'Interface'],
+    [/\.design$/, 'Design'],
+    [/\.auradoc$/, 'Documentation'],
+    [/\.svg$/, 'SVG'],
+    [/\.tokens$/, 'Tokens'],
+  ];
+  
+  // Human-readable kind of an LWC/Aura bundle file, shown as the match context
+  export function getSourceFileKind(fileName: string): string {
+    const kind = SOURCE_FILE_KINDS.find(([pattern]) => pattern.test(fileName));
+    return kind ? kind[1] : 'Source';
+  }
+  
+  // Approximate record counts per object, refreshed by Salesforce in the background
+  async function fetchRecordCounts(client: SalesforceClient): Promise<Map<string, number> | null> {
+    try {
+      const data = await client.request(`${client.dataPath}/limits/recordCount`);
+      const counts = new Map<string, number>();
+      (data.sObjects || []).forEach((item: any) => counts.set(item.name, item.count));
+      return counts;
+    } catch (e) {
+      console.warn('Record counts unavailable', e);
+      if (e instanceof TokenExpiredError) throw e;
+      return null;
     }
-    
-    throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
   }
   
   export async function fetchSalesforceObjects(
-    instanceUrl: string,
-    accessToken: string
+    client: SalesforceClient
   ): Promise<SalesforceObject[]> {
     try {
-      console.log('Fetching Salesforce objects from:', instanceUrl);
-      console.log('Access Token:', accessToken ? `Present (${accessToken.substring(0, 10)}...)` : 'Missing');
+      console.log('Fetching Salesforce objects from:', client.instanceUrl);
       
       // Validate instance URL
-      if (!instanceUrl || !instanceUrl.startsWith('https://')) {
-        throw new Error(`Invalid instance URL: ${instanceUrl}`);
+      if (!client.instanceUrl.startsWith('https://')) {
+        throw new Error(`Invalid instance URL: ${client.instanceUrl}`);
       }
       
-      // Ensure the instance URL is properly formatted
-      const cleanInstanceUrl = instanceUrl.replace(/\/$/, '');
-      const url = `${cleanInstanceUrl}/services/data/${API_VERSION}/sobjects/`;
-      console.log('API URL:', url);
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-      });
-      
-      console.log('Response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        handleApiError(response, errorText);
-      }
-      
-      const data = await response.json();
+      const data = await client.describeGlobal();
       console.log('API Response received, sobjects count:', data.sobjects?.length || 0);
       
       if (!data.sobjects || !Array.isArray(data.sobjects)) {
@@ -110,6 +227,14 @@ import type {
           .join(' ');
       };
   
+      const recordCounts = await fetchRecordCounts(client);
+      const getRecordCount = (obj: any): number | undefined => {
+        if (!recordCounts) return undefined;
+        if (recordCounts.has(obj.name)) return recordCounts.get(obj.name);
+        // Objects without records are left out of the response; only custom objects are always tracked
+        return obj.name.endsWith('__c') ? 0 : undefined;
+      };
+  
       // Transform Salesforce API response to our format
       const objects: SalesforceObject[] = data.sobjects
         .filter((obj: any) => obj.queryable)
@@ -118,7 +243,7 @@ import type {
           label: generateLabel(obj.name, obj.label),
           custom: obj.custom,
           queryable: obj.queryable,
-          recordCount: undefined,
+          recordCount: getRecordCount(obj),
         }))
         .sort((a: SalesforceObject, b: SalesforceObject) => a.label.localeCompare(b.label));
       
@@ -132,346 +257,1136 @@ import type {
   }
   
   export async function fetchObjectFields(
-    instanceUrl: string,
-    accessToken: string,
+    client: SalesforceClient,
     objectName: string
   ): Promise<SalesforceField[]> {
-    try {
-      console.log('Fetching fields for object:', objectName);
-      console.log('Instance URL:', instanceUrl);
-      
-      const cleanInstanceUrl = instanceUrl.replace(/\/$/, '');
-      const url = `${cleanInstanceUrl}/services/data/${API_VERSION}/sobjects/${objectName}/describe/`;
-      console.log('Fields API URL:', url);
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-      });
-      
-      console.log('Fields response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Fields API Error Response:', errorText);
-        handleApiError(response, errorText);
+    const describe = await fetchObjectDescribe(client, objectName);
+    return describe.fields;
+  }
+  
+  // Our describe model from a raw sObject describe. `entity` is the object's EntityDefinition row,
+  // which carries the sharing models the describe leaves out
+  function toObjectDescribe(data: any, entity: any = null): SalesforceObjectDescribe {
+    if (!data.fields || !Array.isArray(data.fields)) {
+      console.error('Invalid fields API response structure:', data);
+      throw new Error('Invalid response structure from Salesforce Fields API');
+    }
+    
+    // Helper function to generate meaningful labels from field names
+    const generateFieldLabel = (name: string, originalLabel?: string): string => {
+      // If we have a valid original label, use it
+      if (originalLabel && originalLabel.trim() && originalLabel !== name) {
+        return originalLabel;
       }
       
-      const data = await response.json();
-      console.log('Fields API Response received, fields count:', data.fields?.length || 0);
+      // Generate a human-readable label from the field name
+      return name
+        .replace(/__c$/, '') // Remove custom field suffix
+        .replace(/__pc$/, '') // Remove person account suffix
+        .replace(/__r$/, '') // Remove relationship suffix
+        .replace(/_/g, ' ') // Replace underscores with spaces
+        .replace(/([a-z])([A-Z])/g, '$1 $2') // Add space before capital letters
+        .split(' ')
+        .map(word => {
+          // Handle common abbreviations
+          const upperWord = word.toUpperCase();
+          if (['ID', 'URL', 'API', 'CRM', 'ERP', 'SLA'].includes(upperWord)) {
+            return upperWord;
+          }
+          return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+        })
+        .join(' ');
+    };
+  
+    // Transform Salesforce API response to our format
+    const fields: SalesforceField[] = data.fields.map((field: any) => ({
+      name: field.name,
+      label: generateFieldLabel(field.name, field.label),
+      type: field.type,
+      length: field.length || 0,
+      custom: field.custom,
+      required: !field.nillable && !field.defaultedOnCreate,
+      unique: field.unique,
+      nillable: field.nillable,
+      referenceTo: field.referenceTo || [],
+      relationshipName: field.relationshipName,
+      relationshipOrder: field.relationshipOrder ?? undefined,
+      restrictedPicklist: field.restrictedPicklist,
+      cascadeDelete: field.cascadeDelete,
+      picklistValues: field.picklistValues || [],
+    }));
+    
+    console.log('Processed fields count:', fields.length);
+  
+    // Each child relationship's field lives on the child object and points back at this one
+    const childRelationships: ChildRelationship[] = (data.childRelationships || [])
+      .map((rel: any) => ({
+        childSObject: rel.childSObject,
+        field: rel.field,
+        relationshipName: rel.relationshipName || undefined,
+        cascadeDelete: !!rel.cascadeDelete,
+        restrictedDelete: !!rel.restrictedDelete,
+      }))
+      .sort((a: ChildRelationship, b: ChildRelationship) =>
+        a.childSObject.localeCompare(b.childSObject) || a.field.localeCompare(b.field)
+      );
+  
+    const recordTypes: RecordTypeInfo[] = (data.recordTypeInfos || []).map((info: any) => ({
+      recordTypeId: info.recordTypeId,
+      name: info.name,
+      developerName: info.developerName,
+      active: !!info.active,
+      available: !!info.available,
+      defaultRecordTypeMapping: !!info.defaultRecordTypeMapping,
+      master: !!info.master,
+    }));
+  
+    return {
+      name: data.name,
+      label: data.label,
+      labelPlural: data.labelPlural,
+      keyPrefix: data.keyPrefix || null,
+      custom: !!data.custom,
+      customSetting: !!data.customSetting,
+      queryable: !!data.queryable,
+      searchable: !!data.searchable,
+      createable: !!data.createable,
+      updateable: !!data.updateable,
+      deletable: !!data.deletable,
+      triggerable: !!data.triggerable,
+      feedEnabled: !!data.feedEnabled,
+      internalSharingModel: entity?.InternalSharingModel || undefined,
+      externalSharingModel: entity?.ExternalSharingModel || undefined,
+      urls: data.urls || {},
+      fields,
+      childRelationships,
+      recordTypes,
+    };
+  }
+  
+  // Full object describe: fields plus child relationships, record types, key prefix, capabilities and URLs
+  export async function fetchObjectDescribe(
+    client: SalesforceClient,
+    objectName: string
+  ): Promise<SalesforceObjectDescribe> {
+    try {
+      console.log('Fetching describe for object:', objectName);
+      console.log('Instance URL:', client.instanceUrl);
       
-      if (!data.fields || !Array.isArray(data.fields)) {
-        console.error('Invalid fields API response structure:', data);
-        throw new Error('Invalid response structure from Salesforce Fields API');
-      }
+      const data = await client.describe(objectName);
+      console.log('Fields API Response received, fields count:', data.fields?.length || 0);
       
-      // Helper function to generate meaningful labels from field names
-      const generateFieldLabel = (name: string, originalLabel?: string): string => {
-        // If we have a valid original label, use it
-        if (originalLabel && originalLabel.trim() && originalLabel !== name) {
-          return originalLabel;
-        }
-        
-        // Generate a human-readable label from the field name
-        return name
-          .replace(/__c$/, '') // Remove custom field suffix
-          .replace(/__pc$/, '') // Remove person account suffix
-          .replace(/__r$/, '') // Remove relationship suffix
-          .replace(/_/g, ' ') // Replace underscores with spaces
-          .replace(/([a-z])([A-Z])/g, '$1 $2') // Add space before capital letters
-          .split(' ')
-          .map(word => {
-            // Handle common abbreviations
-            const upperWord = word.toUpperCase();
-            if (['ID', 'URL', 'API', 'CRM', 'ERP', 'SLA'].includes(upperWord)) {
-              return upperWord;
-            }
-            return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
-          })
-          .join(' ');
-      };
+      // Sharing models are not part of the describe; a failed lookup just leaves them out
+      const { records: entities } = await queryAllPages(
+        client,
+        `SELECT InternalSharingModel, ExternalSharingModel FROM EntityDefinition WHERE QualifiedApiName = '${data.name}'`
+      );
   
-      // Transform Salesforce API response to our format
-      const fields: SalesforceField[] = data.fields.map((field: any) => ({
-        name: field.name,
-        label: generateFieldLabel(field.name, field.label),
-        type: field.type,
-        length: field.length || 0,
-        custom: field.custom,
-        required: !field.nillable && !field.defaultedOnCreate,
-        unique: field.unique,
-        nillable: field.nillable,
-        referenceTo: field.referenceTo || [],
-        relationshipName: field.relationshipName,
-        childRelationships: data.childRelationships?.filter((rel: any) => 
-          rel.field === field.name
-        ).map((rel: any) => ({
-          childSObject: rel.childSObject,
-          field: rel.field,
-          relationshipName: rel.relationshipName,
-        })) || [],
-        restrictedPicklist: field.restrictedPicklist,
-        cascadeDelete: field.cascadeDelete,
-        picklistValues: field.picklistValues || [],
-      }));
-      
-      console.log('Processed fields count:', fields.length);
-      return fields;
+      return toObjectDescribe(data, entities[0]);
       
     } catch (error) {
-      console.error('Error fetching fields:', error);
+      console.error('Error fetching object describe:', error);
       throw error;
     }
   }
   
-  export async function fetchFieldMetadata(
-    instanceUrl: string,
-    accessToken: string,
+  // Describes of many objects in a few Composite Batch calls, for whole-org reads. Sharing models are
+  // left out, and objects that fail to describe are skipped with a warning
+  export async function fetchObjectDescribes(
+    client: SalesforceClient,
+    objectNames: string[],
+    onProgress?: (described: number, total: number) => void
+  ): Promise<Map<string, SalesforceObjectDescribe>> {
+    const raw = await client.describeMany(objectNames, { onProgress });
+    const describes = new Map<string, SalesforceObjectDescribe>();
+    raw.forEach((data, objectName) => {
+      try {
+        if (data instanceof Error) throw data;
+        describes.set(objectName, toObjectDescribe(data));
+      } catch (error) {
+        console.warn('Error describing object:', objectName, error);
+        client.reportPartialFailure(objectName, error);
+      }
+    });
+    return describes;
+  }
+  
+  // Lookups and master-details of an object in both directions, for the relationship diagram
+  export async function fetchObjectRelationships(
+    client: SalesforceClient,
+    objectName: string
+  ): Promise<ObjectRelationships> {
+    const describe = await fetchObjectDescribe(client, objectName);
+  
+    const relationships: ObjectRelationship[] = [];
+    describe.fields
+      .filter(field => field.type === 'reference')
+      .forEach(field => {
+        // Only master-detail fields have a relationshipOrder (0 or 1)
+        const kind = field.relationshipOrder !== undefined ? 'master-detail' : 'lookup';
+        (field.referenceTo || []).forEach(parent => {
+          relationships.push({
+            direction: 'parent',
+            kind,
+            objectName: parent,
+            field: field.name,
+            relationshipName: field.relationshipName || undefined,
+          });
+        });
+      });
+  
+    describe.childRelationships.forEach(rel => {
+      relationships.push({
+        direction: 'child',
+        // Custom lookups cannot cascade deletes, so a cascading custom field is a master-detail
+        kind: rel.cascadeDelete && rel.field.endsWith('__c') ? 'master-detail' : 'lookup',
+        objectName: rel.childSObject,
+        field: rel.field,
+        relationshipName: rel.relationshipName,
+      });
+    });
+  
+    return { objectName: describe.name, label: describe.label, relationships };
+  }
+  
+  // Records sampled for fields that cannot be counted or filtered in SOQL
+  const POPULATION_SAMPLE_SIZE = 200;
+  
+  // How many records of an object have a value in the field, and when one was last populated
+  export async function fetchFieldPopulation(
+    client: SalesforceClient,
     objectName: string,
     fieldName: string
-  ): Promise<MetadataReference[]> {
-    const cleanInstanceUrl = instanceUrl.replace(/\/$/, '');
-    const headers = {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    };
+  ): Promise<FieldPopulationStats> {
+    const runQuery = (soql: string) => client.query(soql);
+  
+    const describe = await client.describe(objectName);
+    const field = (describe.fields || []).find((f: any) => f.name === fieldName);
+    if (!field) {
+      throw new Error(`Field ${objectName}.${fieldName} was not found`);
+    }
   
-    // Escape % and _ for SOQL LIKE
-    const likeNeedle = `%${fieldName.replace(/[%_]/g, (m) => `\\${m}`)}%`;
+    const total = await runQuery(`SELECT COUNT() FROM ${objectName}`);
+    const totalRecords: number = total.totalSize || 0;
   
-    const refs: MetadataReference[] = [];
+    // Checkboxes are never null, so "populated" means checked
+    const hasValue = field.type === 'boolean' ? `${fieldName} = true` : `${fieldName} != null`;
+  
+    if (!field.filterable) {
+      // Long and rich text areas cannot appear in WHERE or COUNT(): look at recent records instead
+      const sample = await runQuery(
+        `SELECT ${fieldName}, LastModifiedDate FROM ${objectName} ORDER BY LastModifiedDate DESC LIMIT ${POPULATION_SAMPLE_SIZE}`
+      );
+      const records: any[] = sample.records || [];
+      const populated = records.filter(r => r[fieldName] !== null && r[fieldName] !== '');
+      return {
+        totalRecords,
+        populatedRecords: populated.length,
+        method: 'sample',
+        sampleSize: records.length,
+        lastPopulatedDate: populated[0]?.LastModifiedDate || null,
+      };
+    }
+  
+    let populatedRecords: number;
+    let method: FieldPopulationStats['method'];
+    if (field.aggregatable && field.type !== 'boolean') {
+      const result = await runQuery(`SELECT COUNT(Id) total, COUNT(${fieldName}) populated FROM ${objectName}`);
+      populatedRecords = result.records?.[0]?.populated || 0;
+      method = 'aggregate';
+    } else {
+      const result = await runQuery(`SELECT COUNT() FROM ${objectName} WHERE ${hasValue}`);
+      populatedRecords = result.totalSize || 0;
+      method = 'filter';
+    }
+  
+    let lastPopulatedDate: string | null = null;
+    try {
+      const latest = await runQuery(
+        `SELECT LastModifiedDate FROM ${objectName} WHERE ${hasValue} ORDER BY LastModifiedDate DESC LIMIT 1`
+      );
+      lastPopulatedDate = latest.records?.[0]?.LastModifiedDate || null;
+    } catch (e) {
+      // Some objects (e.g. history and share tables) have no LastModifiedDate
+      console.warn('Last populated date lookup failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+    }
+  
+    return { totalRecords, populatedRecords, method, lastPopulatedDate };
+  }
+  
+  // Smallest batch size the query API accepts
+  const AUDIT_PAGE_SIZE = 200;
+  
+  // Quoted SOQL LIKE pattern matching the value anywhere
+  const toSoqlContains = (value: string) =>
+    `'%${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/([%_])/g, '\\$1')}%'`;
+  
+  // One page of Setup Audit Trail entries, newest first; pass the previous page's nextRecordsUrl to continue
+  export async function fetchSetupAuditTrail(
+    client: SalesforceClient,
+    filters: SetupAuditFilters = {},
+    nextRecordsUrl: string | null = null
+  ): Promise<SetupAuditPage> {
+    const options = { headers: { 'Sforce-Query-Options': `batchSize=${AUDIT_PAGE_SIZE}` } };
+    let data;
+    if (nextRecordsUrl) {
+      data = await client.queryMore(nextRecordsUrl, options);
+    } else {
+      const conditions: string[] = [];
+      if (filters.user?.trim()) conditions.push(`CreatedBy.Name LIKE ${toSoqlContains(filters.user.trim())}`);
+      if (filters.section?.trim()) conditions.push(`Section LIKE ${toSoqlContains(filters.section.trim())}`);
+      if (filters.since) conditions.push(`CreatedDate >= ${filters.since.replace(/\.\d{3}Z$/, 'Z')}`);
+      const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+      const soql = `SELECT Id, Action, Section, Display, CreatedDate, CreatedBy.Name, DelegateUser FROM SetupAuditTrail${where} ORDER BY CreatedDate DESC`;
+      data = await client.query(soql, options);
+    }
+  
+    const entries: SetupAuditEntry[] = (data.records || []).map((r: any) => ({
+      id: r.Id,
+      createdDate: r.CreatedDate,
+      action: r.Action,
+      section: r.Section || null,
+      display: r.Display || r.Action,
+      createdBy: r.CreatedBy?.Name || null,
+      delegateUser: r.DelegateUser || null,
+    }));
+    return { entries, nextRecordsUrl: data.nextRecordsUrl || null };
+  }
+  
+  // Display type, result id prefix and file suffix per MetadataComponentDependency component type
+  const DEPENDENCY_COMPONENT_TYPES: Record<string, { type: string; idPrefix: string; suffix: string }> = {
+    ApexClass: { type: 'Apex Class', idPrefix: 'apex-class', suffix: '.cls' },
+    ApexTrigger: { type: 'Apex Trigger', idPrefix: 'apex-trigger', suffix: '.trigger' },
+    Flow: { type: 'Flow', idPrefix: 'flow', suffix: '.flow' },
+    LightningComponentBundle: { type: 'LWC Bundle', idPrefix: 'lwc-bundle', suffix: '' },
+    AuraDefinitionBundle: { type: 'Aura Bundle', idPrefix: 'aura-bundle', suffix: '' },
+    ValidationRule: { type: 'Validation Rule', idPrefix: 'vr', suffix: '.validationRule' },
+    Layout: { type: 'Page Layout', idPrefix: 'layout', suffix: '.layout' },
+    FlexiPage: { type: 'Lightning Page', idPrefix: 'flexipage', suffix: '.flexipage' },
+    CompactLayout: { type: 'Compact Layout', idPrefix: 'compact-layout', suffix: '.compactLayout' },
+    ApexPage: { type: 'Visualforce Page', idPrefix: 'apex-page', suffix: '.page' },
+    ApexComponent: { type: 'Visualforce Component', idPrefix: 'apex-component', suffix: '.component' },
+    WorkflowRule: { type: 'Workflow Rule', idPrefix: 'workflow-rule', suffix: '.workflowRule' },
+    WorkflowFieldUpdate: { type: 'Workflow Field Update', idPrefix: 'workflow-field-update', suffix: '.fieldUpdate' },
+    EmailTemplate: { type: 'Email Template', idPrefix: 'email-template', suffix: '.email' },
+    Report: { type: 'Report', idPrefix: 'report', suffix: '.report' },
+    CustomField: { type: 'Custom Field', idPrefix: 'custom-field', suffix: '.field' },
+  };
+  
+  const CONFIDENCE_RANK: Record<ReferenceConfidence, number> = { confirmed: 0, parsed: 1, possible: 2 };
   
-    // Helper: run Tooling SOQL, catch & log but don't throw
-    const toolingQuery = async (q: string) => {
-      const url = `${cleanInstanceUrl}/services/data/${API_VERSION}/tooling/query/?q=${encodeURIComponent(q)}`;
-      const res = await fetch(url, { headers });
-      if (!res.ok) {
-        const txt = await res.text();
-        console.warn('Tooling query failed', q, res.status, txt);
-        return { records: [] as any[] };
+  // The object's durable id: its API name for standard objects, an 01I... id for custom ones.
+  // Tooling rows (CustomField, ValidationRule, WorkflowFieldUpdate...) are keyed by it
+  export async function resolveEntityDurableId(
+    client: SalesforceClient,
+    objectName: string
+  ): Promise<string | null> {
+    const { records } = await toolingQueryAllPages(
+      client,
+      `SELECT DurableId FROM EntityDefinition WHERE QualifiedApiName = '${objectName}'`
+    );
+    return records[0]?.DurableId || null;
+  }
+  
+  // object: names as they appear in TableEnumOrId: API names for standard objects plus the durable
+  // ids custom objects are stored under
+  async function resolveObjectTableIds(client: SalesforceClient, objectNames: string[]): Promise<string[]> {
+    const durableIds = await Promise.all(objectNames.map(name => resolveEntityDurableId(client, name)));
+    return [...objectNames, ...durableIds.filter((id): id is string => !!id && !objectNames.includes(id))];
+  }
+  
+  // CustomField records are keyed by the object's durable id and the field name without namespace or __c
+  export async function resolveCustomFieldId(
+    client: SalesforceClient,
+    objectName: string,
+    fieldName: string
+  ): Promise<string | null> {
+    const match = fieldName.match(/^(?:([a-zA-Z0-9]+)__)?(\w+?)__c$/);
+    if (!match) return null; // Standard fields have no CustomField record
+    const [, namespace, developerName] = match;
+  
+    const durableId = await resolveEntityDurableId(client, objectName);
+    if (!durableId) return null;
+  
+    const { records: fields } = await toolingQueryAllPages(
+      client,
+      `SELECT Id FROM CustomField WHERE TableEnumOrId = '${durableId}' AND DeveloperName = '${developerName}'` +
+        (namespace ? ` AND NamespacePrefix = '${namespace}'` : ' AND NamespacePrefix = null')
+    );
+    return fields[0]?.Id || null;
+  }
+  
+  // Metadata API readMetadata over SOAP, for types the Tooling API does not expose
+  // (e.g. ApprovalProcess). Returns one pretty-printed <records> XML block per component
+  export async function readMetadata(
+    client: SalesforceClient,
+    type: string,
+    fullNames: string[]
+  ): Promise<string[]> {
+    const escapeXml = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const records: string[] = [];
+    // The SOAP API takes the session in the envelope rather than the Authorization header
+    const sessionId = await client.getAccessToken();
+  
+    // readMetadata accepts at most 10 names per call
+    for (let i = 0; i < fullNames.length; i += 10) {
+      const names = fullNames.slice(i, i + 10)
+        .map(name => `<met:fullNames>${escapeXml(name)}</met:fullNames>`)
+        .join('');
+      const envelope = `<?xml version="1.0" encoding="utf-8"?>
+  <soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:met="http://soap.sforce.com/2006/04/metadata">
+    <soapenv:Header><met:SessionHeader><met:sessionId>${escapeXml(sessionId)}</met:sessionId></met:SessionHeader></soapenv:Header>
+    <soapenv:Body><met:readMetadata><met:type>${type}</met:type>${names}</met:readMetadata></soapenv:Body>
+  </soapenv:Envelope>`;
+  
+      const response = await client.send(
+        `/services/Soap/m/${client.apiVersion.replace(/^v/, '')}`,
+        {
+          method: 'POST',
+          // Only reads, so transient failures are retried; faults are not
+          idempotent: true,
+          headers: { 'Content-Type': 'text/xml; charset=UTF-8', SOAPAction: '""' },
+          accept: 'text/xml',
+          body: envelope,
+        }
+      );
+      const xml = await response.text();
+      if (!response.ok) {
+        if (xml.includes('INVALID_SESSION_ID')) {
+          throw new TokenExpiredError('Session expired or invalid');
+        }
+        console.warn(`readMetadata ${type} failed:`, response.status, xml);
+        client.reportPartialFailure(type, `HTTP ${response.status}`);
+        continue;
+      }
+  
+      for (const block of xml.match(/<records[\s\S]*?<\/records>/g) || []) {
+        records.push(block.replace(/>\s*</g, '>\n<'));
       }
-      return res.json();
+    }
+    return records;
+  }
+  
+  interface ComponentReference {
+    // Id of the component as MetadataComponentDependency would report it, when known
+    componentId?: string;
+    reference: MetadataReference;
+  }
+  
+  // `Metadata` of each record. The column can only be queried one row at a time, so the per-record
+  // queries go 25 to a Tooling composite call, a few calls at a time
+  export async function fetchToolingMetadata(
+    client: SalesforceClient,
+    sobject: string,
+    ids: string[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<Map<string, any>> {
+    const metadata = new Map<string, any>();
+    let done = 0;
+    await mapWithConcurrency(chunk(ids, COMPOSITE_MAX_SUBREQUESTS), COMPOSITE_CONCURRENCY, async (batch) => {
+      try {
+        const responses = await client.toolingComposite(batch.map(id => ({
+          method: 'GET' as const,
+          url: `${client.dataPath}/tooling/query/?q=${encodeURIComponent(`SELECT Id, Metadata FROM ${sobject} WHERE Id = '${id}'`)}`,
+          referenceId: `r${id}`,
+        })));
+        responses.forEach((response, i) => {
+          if (response.httpStatusCode >= 400) {
+            const error = toSubrequestError(response.body, response.httpStatusCode);
+            if (error instanceof TokenExpiredError) throw error;
+            console.warn(`${sobject} Metadata read failed:`, batch[i], error.message);
+            client.reportPartialFailure(`${sobject} Metadata`, error);
+            return;
+          }
+          const record = response.body?.records?.[0];
+          if (record?.Metadata) metadata.set(batch[i], record.Metadata);
+        });
+      } catch (error) {
+        if (error instanceof TokenExpiredError) throw error;
+        client.reportPartialFailure(`${sobject} Metadata`, error);
+      }
+      done += batch.length;
+      onProgress?.(done, ids.length);
+    });
+    return metadata;
+  }
+  
+  // Formula fields, validation rules, workflow, approval processes and roll-up summaries that use
+  // the field. Only logic defined on the field's own object (or, for roll-ups, its master) is covered
+  async function fetchFieldLogicReferences(
+    client: SalesforceClient,
+    objectName: string,
+    fieldName: string
+  ): Promise<ComponentReference[]> {
+    const results: ComponentReference[] = [];
+    const qualifiedName = `${objectName}.${fieldName}`;
+  
+    // Formulas are object-relative: `Industry` or `Account.Industry`, but not `Parent.Industry`
+    const formulaQuery = parseSearchQuery(`regex:/(^|[^.\\w$])(${objectName}\\.)?${fieldName}\\b/`);
+    const formulaLines = (formula: string, context: string) =>
+      findContentMatches(formula, formulaQuery, context).map(m => ({
+        line: m.line,
+        snippet: m.snippet,
+        context,
+      }));
+    const isQualifiedField = (value?: string) => (value || '').toLowerCase() === qualifiedName.toLowerCase();
+  
+    const durableId = await resolveEntityDurableId(client, objectName);
+  
+    // Custom field Ids by developer name, so formula and roll-up fields line up with MetadataComponentDependency
+    const customFieldIds = async (entityId: string) => {
+      const { records } = await toolingQueryAllPages(
+        client,
+        `SELECT Id, DeveloperName, NamespacePrefix FROM CustomField WHERE TableEnumOrId = '${entityId}'`
+      );
+      return new Map<string, string>(records.map((r: any) => [
+        `${r.NamespacePrefix ? `${r.NamespacePrefix}__` : ''}${r.DeveloperName}__c`.toLowerCase(),
+        r.Id,
+      ]));
     };
   
-    // 1) SOSL for ApexClass & ApexTrigger (with proper escaping)
+    let describe: any = null;
     try {
-      const searchUrl = buildSearchUrl(cleanInstanceUrl, fieldName, ['ApexClass', 'ApexTrigger']);
-      const sRes = await fetch(searchUrl, { headers });
-      if (sRes.ok) {
-        const data = await sRes.json();
-        if (Array.isArray(data.searchRecords)) {
-          for (const r of data.searchRecords) {
-            const t = r?.attributes?.type;
-            if (t === 'ApexClass') {
-              refs.push({
-                id: `apex-class-${r.Id}`,
-                fileName: `${r.Name}.cls`,
-                type: 'Apex Class',
-                references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Found via SOSL' }],
-              });
-            } else if (t === 'ApexTrigger') {
-              refs.push({
-                id: `apex-trigger-${r.Id}`,
-                fileName: `${r.Name}.trigger`,
-                type: 'Apex Trigger',
-                references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Found via SOSL' }],
-              });
-            }
+      describe = await client.describe(objectName);
+    } catch (e) {
+      console.warn('Describe for formula scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure(objectName, e);
+    }
+  
+    // 1) Formula fields and default value formulas on the same object
+    try {
+      const ids = durableId ? await customFieldIds(durableId) : new Map<string, string>();
+      for (const field of describe?.fields || []) {
+        if (field.name === fieldName) continue;
+        const references = [
+          ...(field.calculatedFormula ? formulaLines(field.calculatedFormula, 'Formula') : []),
+          ...(field.defaultValueFormula ? formulaLines(field.defaultValueFormula, 'Default value formula') : []),
+        ];
+        if (references.length === 0) continue;
+        const componentId = ids.get(field.name.toLowerCase());
+        results.push({
+          componentId,
+          reference: {
+            id: componentId ? `custom-field-${componentId}` : `formula-${objectName}.${field.name}`,
+            fileName: `${objectName}.${field.name}`,
+            type: 'Formula Field',
+            confidence: 'parsed',
+            references,
+          },
+        });
+      }
+    } catch (e) {
+      console.warn('Formula field scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Formula field', e);
+    }
+  
+    if (durableId) {
+      // 2) Validation rule conditions
+      try {
+        const { records: rules } = await toolingQueryAllPages(
+          client,
+          `SELECT Id, ValidationName FROM ValidationRule WHERE EntityDefinitionId = '${durableId}'`
+        );
+        const metadata = await fetchToolingMetadata(client, 'ValidationRule', rules.map((r: any) => r.Id));
+        for (const rule of rules) {
+          const ruleMetadata = metadata.get(rule.Id);
+          if (!ruleMetadata) continue;
+          const references = formulaLines(ruleMetadata.errorConditionFormula || '', 'Error condition formula');
+          if (ruleMetadata.errorDisplayField === fieldName) {
+            references.push({ line: 1, snippet: `Error displayed on ${fieldName}`, context: 'Error location' });
           }
+          if (references.length === 0) continue;
+          results.push({
+            componentId: rule.Id,
+            reference: {
+              id: `vr-${rule.Id}`,
+              fileName: `${objectName}.${rule.ValidationName}.validationRule`,
+              type: 'Validation Rule',
+              confidence: 'parsed',
+              references,
+            },
+          });
         }
-      } else {
-        console.warn('SOSL failed', await sRes.text());
+      } catch (e) {
+        console.warn('Validation rule formula scan failed', e);
+        if (e instanceof TokenExpiredError) throw e;
+        client.reportPartialFailure('Validation rule formula', e);
+      }
+  
+      // 3) Workflow field updates that set the field or read it in their formula
+      try {
+        const { records: updates } = await toolingQueryAllPages(
+          client,
+          `SELECT Id, Name FROM WorkflowFieldUpdate WHERE SourceTableEnumOrId = '${durableId}'`
+        );
+        const metadata = await fetchToolingMetadata(client, 'WorkflowFieldUpdate', updates.map((r: any) => r.Id));
+        for (const update of updates) {
+          const updateMetadata = metadata.get(update.Id);
+          if (!updateMetadata) continue;
+          const references = formulaLines(updateMetadata.formula || '', 'New value formula');
+          if (updateMetadata.field === fieldName) {
+            references.unshift({
+              line: 1,
+              snippet: updateMetadata.literalValue != null
+                ? `${fieldName} = ${updateMetadata.literalValue}`
+                : `Updates ${fieldName} (${updateMetadata.operation || 'formula'})`,
+              context: 'Field to update',
+            });
+          }
+          if (references.length === 0) continue;
+          results.push({
+            componentId: update.Id,
+            reference: {
+              id: `workflow-field-update-${update.Id}`,
+              fileName: `${objectName}.${update.Name}.fieldUpdate`,
+              type: 'Workflow Field Update',
+              confidence: 'parsed',
+              references,
+            },
+          });
+        }
+      } catch (e) {
+        console.warn('Workflow field update scan failed', e);
+        if (e instanceof TokenExpiredError) throw e;
+        client.reportPartialFailure('Workflow field update', e);
       }
-    } catch (e) {
-      console.warn('SOSL error', e);
     }
   
-    // 2) ApexClass via Tooling (Name LIKE - Body field cannot be filtered)
+    // 4) Workflow rule criteria (filter items or rule formula)
     try {
-      const q = `SELECT Id, Name FROM ApexClass WHERE Name LIKE '${likeNeedle}' LIMIT 100`;
-      const { records } = await toolingQuery(q);
-      for (const r of records) {
-        refs.push({
-          id: `apex-class-${r.Id}`,
-          fileName: `${r.Name}.cls`,
-          type: 'Apex Class',
-          references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Tooling: ApexClass.Name LIKE' }],
+      const { records: rules } = await toolingQueryAllPages(
+        client,
+        `SELECT Id, Name FROM WorkflowRule WHERE TableEnumOrId IN ('${objectName}'${durableId ? `, '${durableId}'` : ''})`
+      );
+      const metadata = await fetchToolingMetadata(client, 'WorkflowRule', rules.map((r: any) => r.Id));
+      for (const rule of rules) {
+        const ruleMetadata = metadata.get(rule.Id);
+        if (!ruleMetadata) continue;
+        const references = [
+          ...(ruleMetadata.criteriaItems || [])
+            .filter((item: any) => isQualifiedField(item.field))
+            .map((item: any, index: number) => ({
+              line: index + 1,
+              snippet: `${item.field} ${item.operation} ${item.value ?? ''}`.trim(),
+              context: 'Rule criteria',
+            })),
+          ...formulaLines(ruleMetadata.formula || '', 'Rule formula'),
+        ];
+        if (references.length === 0) continue;
+        results.push({
+          componentId: rule.Id,
+          reference: {
+            id: `workflow-rule-${rule.Id}`,
+            fileName: `${objectName}.${rule.Name}.workflowRule`,
+            type: 'Workflow Rule',
+            confidence: 'parsed',
+            references,
+          },
         });
       }
     } catch (e) {
-      console.warn('ApexClass LIKE failed', e);
+      console.warn('Workflow rule scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Workflow rule', e);
     }
   
-    // 3) ApexTrigger via Tooling (Name LIKE - Body field cannot be filtered)
+    // 5) Approval process entry and step criteria (only readable through the Metadata API)
     try {
-      const q = `SELECT Id, Name FROM ApexTrigger WHERE Name LIKE '${likeNeedle}' LIMIT 100`;
-      const { records } = await toolingQuery(q);
-      for (const r of records) {
-        refs.push({
-          id: `apex-trigger-${r.Id}`,
-          fileName: `${r.Name}.trigger`,
-          type: 'Apex Trigger',
-          references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Tooling: ApexTrigger.Name LIKE' }],
-        });
+      const { records: processes } = await queryAllPages(
+        client,
+        `SELECT Id, DeveloperName FROM ProcessDefinition WHERE Type = 'Approval' AND TableEnumOrId = '${objectName}'`
+      );
+      if (processes.length > 0) {
+        const blocks = await readMetadata(
+          client,
+          'ApprovalProcess',
+          processes.map((p: any) => `${objectName}.${p.DeveloperName}`)
+        );
+        const criteriaQuery = parseSearchQuery(`regex:/(<field>${qualifiedName}<\\/field>)|((^|[^.\\w$])(${objectName}\\.)?${fieldName}\\b)/`);
+        for (const block of blocks) {
+          const fullName = block.match(/<fullName>([^<]+)<\/fullName>/)?.[1] || '';
+          const process = processes.find((p: any) => `${objectName}.${p.DeveloperName}` === fullName);
+          const references = findContentMatches(block, criteriaQuery, 'Approval Process')
+            .filter(m => !m.snippet.includes('<fullName>'))
+            .map(m => ({ line: m.line, snippet: m.snippet, context: m.context }));
+          if (references.length === 0) continue;
+          results.push({
+            reference: {
+              id: `approval-process-${process?.Id || fullName}`,
+              fileName: `${fullName}.approvalProcess`,
+              type: 'Approval Process',
+              confidence: 'parsed',
+              references,
+            },
+          });
+        }
       }
     } catch (e) {
-      console.warn('ApexTrigger LIKE failed', e);
+      console.warn('Approval process scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Approval process', e);
     }
   
-    // 4) Aura components (AuraDefinitionBundle.DeveloperName LIKE - Source field cannot be filtered)
+    // 6) Roll-up summary fields on master objects that summarize or filter on this field
     try {
-      const q = `
-        SELECT Id, DeveloperName
-        FROM AuraDefinitionBundle
-        WHERE DeveloperName LIKE '${likeNeedle}'
-        LIMIT 100
-      `;
-      const { records } = await toolingQuery(q);
-      for (const r of records) {
-        refs.push({
-          id: `aura-${r.Id}`,
-          fileName: `${r.DeveloperName || 'Aura'}.cmp`,
-          type: 'Aura Bundle',
-          references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Tooling: AuraDefinitionBundle.DeveloperName LIKE' }],
+      const masters: string[] = Array.from(new Set(
+        (describe?.fields || [])
+          .filter((field: any) => field.type === 'reference' && field.relationshipOrder != null)
+          .flatMap((field: any) => field.referenceTo || [])
+      ));
+      for (const master of masters) {
+        const masterDurableId = await resolveEntityDurableId(client, master);
+        if (!masterDurableId) continue;
+        const ids = await customFieldIds(masterDurableId);
+        const metadata = await fetchToolingMetadata(client, 'CustomField', Array.from(ids.values()));
+        ids.forEach((id, name) => {
+          const fieldMetadata = metadata.get(id);
+          if (fieldMetadata?.type !== 'Summary') return;
+          const references = [];
+          if (isQualifiedField(fieldMetadata.summarizedField)) {
+            references.push({ line: 1, snippet: `${fieldMetadata.summaryOperation} of ${fieldMetadata.summarizedField}`, context: 'Summarized field' });
+          }
+          if (isQualifiedField(fieldMetadata.summaryForeignKey)) {
+            references.push({ line: 1, snippet: `Roll-up through ${fieldMetadata.summaryForeignKey}`, context: 'Master-detail relationship' });
+          }
+          (fieldMetadata.summaryFilterItems || []).forEach((item: any, index: number) => {
+            if (isQualifiedField(item.field)) {
+              references.push({ line: index + 2, snippet: `${item.field} ${item.operation} ${item.value ?? ''}`.trim(), context: 'Filter criteria' });
+            }
+          });
+          if (references.length === 0) return;
+          results.push({
+            componentId: id,
+            reference: {
+              id: `custom-field-${id}`,
+              fileName: `${master}.${name}`,
+              type: 'Roll-Up Summary',
+              confidence: 'parsed',
+              references,
+            },
+          });
         });
       }
     } catch (e) {
-      console.warn('AuraDefinitionBundle LIKE failed', e);
+      console.warn('Roll-up summary scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Roll-up summary', e);
     }
   
-    // 5) Lightning Web Components (LightningComponentBundle.DeveloperName LIKE - Source field cannot be filtered)
+    return results;
+  }
+  
+  // Page layouts, compact layouts and Lightning record pages that place the field, with the
+  // section (or page region) it sits in as the reference context
+  async function fetchFieldPlacementReferences(
+    client: SalesforceClient,
+    objectName: string,
+    fieldName: string
+  ): Promise<ComponentReference[]> {
+    const results: ComponentReference[] = [];
+    const durableId = await resolveEntityDurableId(client, objectName);
+    if (!durableId) return results;
+  
+    // 1) Page layouts: Metadata.layoutSections[].layoutColumns[].layoutItems[].field
     try {
-      const q = `
-        SELECT Id, DeveloperName
-        FROM LightningComponentBundle
-        WHERE DeveloperName LIKE '${likeNeedle}'
-        LIMIT 100
-      `;
-      const { records } = await toolingQuery(q);
-      for (const r of records) {
-        refs.push({
-          id: `lwc-${r.Id}`,
-          fileName: `${r.DeveloperName || 'lwc'}.js`,
-          type: 'LWC Bundle',
-          references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Tooling: LightningComponentBundle.DeveloperName LIKE' }],
+      const { records: layouts } = await toolingQueryAllPages(
+        client,
+        `SELECT Id, Name FROM Layout WHERE TableEnumOrId = '${durableId}'`
+      );
+      const metadata = await fetchToolingMetadata(client, 'Layout', layouts.map((r: any) => r.Id));
+      for (const layout of layouts) {
+        const references: MetadataReference['references'] = [];
+        (metadata.get(layout.Id)?.layoutSections || []).forEach((section: any, index: number) => {
+          for (const column of section.layoutColumns || []) {
+            for (const item of column.layoutItems || []) {
+              if (item.field !== fieldName) continue;
+              references.push({
+                line: index + 1,
+                snippet: `${fieldName} (${item.behavior || 'Edit'})`,
+                context: section.label || `Section ${index + 1}`,
+              });
+            }
+          }
+        });
+        if (references.length === 0) continue;
+        results.push({
+          componentId: layout.Id,
+          reference: {
+            id: `layout-${layout.Id}`,
+            fileName: `${objectName}.${layout.Name}.layout`,
+            type: 'Page Layout',
+            confidence: 'parsed',
+            references,
+          },
         });
       }
     } catch (e) {
-      console.warn('LightningComponentBundle LIKE failed', e);
+      console.warn('Layout placement scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Layout placement', e);
     }
   
-    // 6) Flows (using correct Flow object with proper fields)
+    // 2) Compact layouts: Metadata.fields is the ordered list of highlighted fields
     try {
-      // Use a more reliable Flow query with proper field names
-      const q = `
-        SELECT Id, MasterLabel, Status
-        FROM Flow
-        WHERE Status = 'Active'
-        AND MasterLabel != null
-        LIMIT 100
-      `;
-      const { records } = await toolingQuery(q);
-      console.log(`Found ${records.length} flows to search`);
-      
-      // Filter flows that match the search term
-      const matchingFlows = records.filter((r: any) => 
-        r.MasterLabel && r.MasterLabel.toLowerCase().includes(fieldName.toLowerCase())
+      const { records: compactLayouts } = await toolingQueryAllPages(
+        client,
+        `SELECT Id, DeveloperName, MasterLabel FROM CompactLayout WHERE SobjectType = '${objectName}'`
       );
-      
-      for (const r of matchingFlows) {
-        refs.push({
-          id: `flow-${r.Id}`,
-          fileName: `${r.MasterLabel || 'Flow'}.flow`,
-          type: 'Flow',
-          references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Flow: MasterLabel contains term' }],
+      const metadata = await fetchToolingMetadata(client, 'CompactLayout', compactLayouts.map((r: any) => r.Id));
+      for (const compactLayout of compactLayouts) {
+        const fields: string[] = metadata.get(compactLayout.Id)?.fields || [];
+        const position = fields.indexOf(fieldName);
+        if (position === -1) continue;
+        results.push({
+          componentId: compactLayout.Id,
+          reference: {
+            id: `compact-layout-${compactLayout.Id}`,
+            fileName: `${objectName}.${compactLayout.DeveloperName}.compactLayout`,
+            type: 'Compact Layout',
+            confidence: 'parsed',
+            references: [{
+              line: position + 1,
+              snippet: `${fieldName} (field ${position + 1} of ${fields.length})`,
+              context: compactLayout.MasterLabel || 'Compact layout fields',
+            }],
+          },
         });
       }
-      console.log(`Found ${matchingFlows.length} matching flows`);
     } catch (e) {
-      console.warn('Flow search failed:', e);
+      console.warn('Compact layout placement scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Compact layout placement', e);
     }
   
-    // 7) Validation Rules (using standard fields only)
+    // 3) Lightning record pages: Dynamic Forms fields (`Record.Field`) and visibility rules.
+    //    Fields sit in facets; a facet's section label comes from the component whose
+    //    properties point at it (field section -> column -> facet)
     try {
-      const q = `
-        SELECT Id, ValidationName
-        FROM ValidationRule
-        WHERE ValidationName LIKE '${likeNeedle}'
-        LIMIT 100
-      `;
-      const { records } = await toolingQuery(q);
-      for (const r of records) {
-        refs.push({
-          id: `vr-${r.Id}`,
-          fileName: `${objectName}.${r.ValidationName}.validationRule`,
-          type: 'Validation Rule',
-          references: [{ line: 1, snippet: `…${fieldName}…`, context: 'Tooling: ValidationRule.ValidationName LIKE' }],
+      const { records: pages } = await toolingQueryAllPages(
+        client,
+        `SELECT Id, DeveloperName, MasterLabel FROM FlexiPage WHERE EntityDefinitionId = '${durableId}'`
+      );
+      const metadata = await fetchToolingMetadata(client, 'FlexiPage', pages.map((r: any) => r.Id));
+      const recordField = `Record.${fieldName}`;
+      for (const page of pages) {
+        const regions: any[] = metadata.get(page.Id)?.flexiPageRegions || [];
+        const parentRegion = new Map<string, string>();
+        const facetLabel = new Map<string, string>();
+        for (const region of regions) {
+          for (const instance of region.itemInstances || []) {
+            const properties: any[] = instance.componentInstance?.componentInstanceProperties || [];
+            const label = properties.find(p => p.name === 'label')?.value;
+            for (const property of properties) {
+              if (typeof property.value === 'string' && regions.some(r => r.name === property.value)) {
+                parentRegion.set(property.value, region.name);
+                if (label) facetLabel.set(property.value, label);
+              }
+            }
+          }
+        }
+        const sectionOf = (regionName: string) => {
+          let current: string | undefined = regionName;
+          for (let depth = 0; current && depth < 10; depth++) {
+            const label = facetLabel.get(current);
+            if (label) return label;
+            if (!parentRegion.has(current)) return current;
+            current = parentRegion.get(current);
+          }
+          return regionName;
+        };
+  
+        const references: MetadataReference['references'] = [];
+        regions.forEach((region, index) => {
+          for (const instance of region.itemInstances || []) {
+            if (instance.fieldInstance?.fieldItem === recordField) {
+              const uiBehavior = (instance.fieldInstance.fieldInstanceProperties || [])
+                .find((p: any) => p.name === 'uiBehavior')?.value;
+              references.push({
+                line: index + 1,
+                snippet: `${recordField} (${uiBehavior || 'none'})`,
+                context: sectionOf(region.name),
+              });
+            }
+            const visibilityRule = instance.componentInstance?.visibilityRule || instance.fieldInstance?.visibilityRule;
+            if (visibilityRule && JSON.stringify(visibilityRule).includes(`{!${recordField}}`)) {
+              references.push({
+                line: index + 1,
+                snippet: instance.componentInstance?.componentName || recordField,
+                context: `Visibility rule in ${sectionOf(region.name)}`,
+              });
+            }
+          }
+        });
+        if (references.length === 0) continue;
+        results.push({
+          componentId: page.Id,
+          reference: {
+            id: `flexipage-${page.Id}`,
+            fileName: `${page.DeveloperName}.flexipage`,
+            type: 'Lightning Page',
+            confidence: 'parsed',
+            references,
+          },
         });
       }
     } catch (e) {
-      console.warn('ValidationRule LIKE failed', e);
+      console.warn('Lightning page placement scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Lightning page placement', e);
     }
   
-    // 8) Record Types (using standard API instead of Tooling API)
+    return results;
+  }
+  
+  // Index entry types whose sources are parsed for field references, with their reference type
+  const INDEXED_SOURCE_TYPES: Record<string, string> = {
+    'apex-class': 'Apex Class',
+    'apex-trigger': 'Apex Trigger',
+    'flow': 'Flow',
+    'aura-bundle': 'Aura Bundle',
+    'lwc-bundle': 'LWC Bundle',
+  };
+  
+  export interface FieldMetadataOptions {
+    // Apex, flow and component sources are read from this on-device index instead of the org
+    index?: MetadataIndex | null;
+    // False skips downloading every source, e.g. when the API budget is low. MetadataComponentDependency
+    // and declarative logic are still checked
+    scanSources?: boolean;
+  }
+  
+  export async function fetchFieldMetadata(
+    client: SalesforceClient,
+    objectName: string,
+    fieldName: string,
+    options: FieldMetadataOptions = {}
+  ): Promise<MetadataReference[]> {
+    const refs: MetadataReference[] = [];
+  
+    // 1) Salesforce's own dependency graph - exact, but custom fields only and blind to dynamic references
+    const confirmed = new Map<string, { type: string; name: string }>();
     try {
-      // Use standard REST API for RecordType as Tooling API has limited fields
-      const recordTypeUrl = `${cleanInstanceUrl}/services/data/${API_VERSION}/query/?q=${encodeURIComponent(
-        `SELECT Id, Name, SobjectType FROM RecordType WHERE SobjectType = '${objectName}' AND Name LIKE '${likeNeedle}' LIMIT 100`
-      )}`;
-      const response = await fetch(recordTypeUrl, { headers });
-      if (response.ok) {
-        const { records } = await response.json();
-        console.log(`Found ${records.length} record types to search`);
+      const customFieldId = await resolveCustomFieldId(client, objectName, fieldName);
+      if (customFieldId) {
+        const { records } = await toolingQueryAllPages(
+          client,
+          `SELECT MetadataComponentId, MetadataComponentName, MetadataComponentType FROM MetadataComponentDependency WHERE RefMetadataComponentId = '${customFieldId}'`,
+          20000
+        );
         for (const r of records) {
-          refs.push({
-            id: `recordtype-${r.Id}`,
-            fileName: `${r.SobjectType}.${r.Name}.recordType`,
-            type: 'Record Type',
-            references: [{
-              line: 1,
-              snippet: `…${fieldName}…`,
-              context: 'Standard API: RecordType.Name LIKE'
-            }]
-          });
+          confirmed.set(r.MetadataComponentId, { type: r.MetadataComponentType, name: r.MetadataComponentName });
         }
-      } else {
-        console.warn('RecordType standard API query failed:', await response.text());
+        console.log(`MetadataComponentDependency reported ${confirmed.size} components for ${objectName}.${fieldName}`);
       }
     } catch (e) {
-      console.warn('RecordType LIKE failed', e);
+      console.warn('MetadataComponentDependency lookup failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('MetadataComponentDependency lookup', e);
     }
   
-    // 9) Page Layouts (Layout.Name LIKE - Metadata field cannot be filtered)
-    try {
-      const q = `
-        SELECT Id, Name, TableEnumOrId
-        FROM Layout
-        WHERE TableEnumOrId = '${objectName}'
-        AND Name LIKE '${likeNeedle}'
-        LIMIT 100
-      `;
-      const { records } = await toolingQuery(q);
-      for (const r of records) {
-        refs.push({
-          id: `layout-${r.Id}`,
-          fileName: `${r.TableEnumOrId}.${r.Name}.layout`,
-          type: 'Page Layout',
-          references: [{
-            line: 1,
-            snippet: `…${fieldName}…`,
-            context: 'Tooling: Layout.Name LIKE'
-          }]
+    // 2) Parse sources line by line. `Object.Field` tokens (Account.Industry,
+    //    @salesforce/schema/Account.Industry) are "parsed"; a bare field name is only "possible",
+    //    and for standard fields only counts in files that also mention the object
+    const fieldQuery = parseSearchQuery(fieldName, { wholeWord: true });
+    const tokenRegex = new RegExp(`\\b${objectName}\\.${fieldName}\\b`, 'i');
+    const objectRegex = new RegExp(`\\b${objectName}\\b`, 'i');
+    const isCustomField = /__c$/i.test(fieldName);
+    const coveredIds = new Set<string>();
+  
+    const pushParsedReference = (
+      id: string,
+      componentId: string,
+      fileName: string,
+      type: string,
+      source: string,
+      kind: string,
+      isFlow = false
+    ) => {
+      if (!source || !matchesQueryContent(fieldQuery, source)) return;
+      const matches = isFlow ? findFlowXmlMatches(source, fieldQuery, 25) : findContentMatches(source, fieldQuery, kind, 25);
+      if (matches.length === 0) return;
+  
+      let confidence: ReferenceConfidence | null;
+      if (confirmed.has(componentId)) {
+        confidence = 'confirmed';
+      } else if (matches.some(m => tokenRegex.test(m.snippet))
+        || (isFlow && source.includes(`<object>${objectName}</object>`))) {
+        confidence = 'parsed';
+      } else if (isCustomField || objectRegex.test(source)) {
+        confidence = 'possible';
+      } else {
+        confidence = null;
+      }
+      if (!confidence) return;
+  
+      coveredIds.add(componentId);
+      refs.push({
+        id,
+        fileName,
+        type,
+        confidence,
+        references: matches.map(m => ({
+          line: m.line,
+          snippet: m.snippet,
+          context: tokenRegex.test(m.snippet) ? `${m.context}: ${objectName}.${fieldName}` : m.context,
+        })),
+      });
+    };
+  
+    if (options.index) {
+      // The on-device index already holds the sources, so only flows it lacks are downloaded
+      for (const entry of options.index.entries) {
+        const type = INDEXED_SOURCE_TYPES[entry.type];
+        if (!type) continue;
+        const isFlow = entry.type === 'flow';
+        const kind = entry.type.endsWith('-bundle') ? getSourceFileKind(entry.fileName) : type;
+        pushParsedReference(entry.id, entry.sourceId, entry.fileName, type, entry.content, kind, isFlow);
+      }
+      // Inactive flow versions the dependency API pointed at are not indexed
+      const indexedIds = new Set(options.index.entries.map(entry => entry.sourceId));
+      const missingFlows = Array.from(confirmed).filter(([componentId, component]) =>
+        component.type === 'Flow' && !indexedIds.has(componentId));
+      await mapWithConcurrency(missingFlows, 5, async ([flowId, component]) => {
+        const xml = await fetchFlowXml(client, flowId);
+        if (xml) {
+          pushParsedReference(`flow-${flowId}`, flowId, `${component.name}.flow`, 'Flow', xml, 'Flow', true);
+        }
+      });
+    } else if (options.scanSources !== false) {
+      try {
+        await toolingScanInIdBatches(
+          client,
+          'SELECT Id FROM ApexClass ORDER BY Name',
+          (idList) => `SELECT Id, Name, Body FROM ApexClass WHERE Id IN (${idList})`,
+          (r) => pushParsedReference(`apex-class-${r.Id}`, r.Id, `${r.Name}.cls`, 'Apex Class', r.Body, 'Apex Class')
+        );
+      } catch (e) {
+        console.warn('ApexClass body scan failed', e);
+        if (e instanceof TokenExpiredError) throw e;
+        client.reportPartialFailure('ApexClass body', e);
+      }
+  
+      try {
+        await toolingScanInIdBatches(
+          client,
+          'SELECT Id FROM ApexTrigger ORDER BY Name',
+          (idList) => `SELECT Id, Name, Body FROM ApexTrigger WHERE Id IN (${idList})`,
+          (r) => pushParsedReference(`apex-trigger-${r.Id}`, r.Id, `${r.Name}.trigger`, 'Apex Trigger', r.Body, 'Apex Trigger')
+        );
+      } catch (e) {
+        console.warn('ApexTrigger body scan failed', e);
+        if (e instanceof TokenExpiredError) throw e;
+        client.reportPartialFailure('ApexTrigger body', e);
+      }
+  
+      // Flows: every active version plus any version the dependency API pointed at
+      try {
+        const { records: activeFlows } = await toolingQueryAllPages(
+          client,
+          "SELECT Id, MasterLabel FROM Flow WHERE Status = 'Active' AND MasterLabel != null",
+          15000
+        );
+        const flows = [...activeFlows];
+        confirmed.forEach((component, componentId) => {
+          if (component.type === 'Flow' && !flows.some((f: any) => f.Id === componentId)) {
+            flows.push({ Id: componentId, MasterLabel: component.name });
+          }
         });
+  
+        const batchSize = 5;
+        for (let i = 0; i < flows.length; i += batchSize) {
+          await Promise.all(flows.slice(i, i + batchSize).map(async (flow: any) => {
+            const xml = await fetchFlowXml(client, flow.Id);
+            if (xml) {
+              pushParsedReference(`flow-${flow.Id}`, flow.Id, `${flow.MasterLabel}.flow`, 'Flow', xml, 'Flow', true);
+            }
+          }));
+        }
+      } catch (e) {
+        console.warn('Flow XML scan failed', e);
+        if (e instanceof TokenExpiredError) throw e;
+        client.reportPartialFailure('Flow XML', e);
+      }
+  
+      // Aura and LWC bundle files - scan the actual Source of every file
+      //    (e.g. `@salesforce/schema/Account.Industry`, `{!v.record.Industry}`, `record.fields.Industry`)
+      try {
+        const { records } = await toolingQueryAllPages(
+          client,
+          'SELECT Id, DefType, Source, AuraDefinitionBundleId, AuraDefinitionBundle.DeveloperName FROM AuraDefinition',
+          30000
+        );
+        for (const r of records) {
+          const fileName = getAuraFileName(r.AuraDefinitionBundle?.DeveloperName || 'aura', r.DefType);
+          pushParsedReference(`aura-definition-${r.Id}`, r.AuraDefinitionBundleId, fileName, 'Aura Bundle', r.Source, getSourceFileKind(fileName));
+        }
+      } catch (e) {
+        console.warn('AuraDefinition source scan failed', e);
+        if (e instanceof TokenExpiredError) throw e;
+        client.reportPartialFailure('AuraDefinition source', e);
+      }
+  
+      try {
+        const { records } = await toolingQueryAllPages(
+          client,
+          'SELECT Id, FilePath, Source, LightningComponentBundleId FROM LightningComponentResource',
+          30000
+        );
+        for (const r of records) {
+          pushParsedReference(`lwc-resource-${r.Id}`, r.LightningComponentBundleId, r.FilePath, 'LWC Bundle', r.Source, getSourceFileKind(r.FilePath));
+        }
+      } catch (e) {
+        console.warn('LightningComponentResource source scan failed', e);
+        if (e instanceof TokenExpiredError) throw e;
+        client.reportPartialFailure('LightningComponentResource source', e);
+      }
+    }
+  
+    // 3) Declarative logic (formulas, validation rules, workflow, approvals, roll-ups)
+    //    and placement on page layouts, compact layouts and Lightning record pages
+    try {
+      const componentReferences = [
+        ...await fetchFieldLogicReferences(client, objectName, fieldName),
+        ...await fetchFieldPlacementReferences(client, objectName, fieldName),
+      ];
+      for (const { componentId, reference } of componentReferences) {
+        if (componentId && confirmed.has(componentId)) {
+          reference.confidence = 'confirmed';
+          coveredIds.add(componentId);
+        }
+        refs.push(reference);
       }
     } catch (e) {
-      console.warn('Layout LIKE failed', e);
+      console.warn('Declarative logic scan failed', e);
+      if (e instanceof TokenExpiredError) throw e;
+      client.reportPartialFailure('Declarative logic', e);
     }
   
+    // 4) Confirmed components without parseable source (Visualforce, email templates...)
+    //    or whose source only references the field dynamically
+    confirmed.forEach((component, componentId) => {
+      if (coveredIds.has(componentId)) return;
+      const known = DEPENDENCY_COMPONENT_TYPES[component.type];
+      const fileName = component.type === 'ValidationRule'
+        ? `${objectName}.${component.name}${known.suffix}`
+        : `${component.name}${known ? known.suffix : ''}`;
+      refs.push({
+        id: `${known ? known.idPrefix : 'dependency'}-${componentId}`,
+        fileName,
+        type: known ? known.type : component.type,
+        confidence: 'confirmed',
+        references: [{
+          line: 1,
+          snippet: component.name,
+          context: 'Reported by MetadataComponentDependency'
+        }],
+      });
+    });
+  
     // Deduplicate references by ID to avoid React key conflicts
     const uniqueRefs = refs.reduce((acc, current) => {
       const existingIndex = acc.findIndex(item => item.id === current.id);
@@ -487,6 +1402,10 @@ import type {
       return acc;
     }, [] as MetadataReference[]);
   
+    uniqueRefs.sort((a, b) =>
+      CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] || a.fileName.localeCompare(b.fileName)
+    );
+  
     console.log('Total metadata references found:', refs.length);
     console.log('Unique metadata references after deduplication:', uniqueRefs.length);
     return uniqueRefs;
@@ -507,116 +1426,268 @@ import type {
     totalMatches: number;
   }
   
+  export interface CodeSearchOptions {
+    // Called as each metadata type is scanned so the UI can show "scanned N of M"
+    onProgress?: (progress: SearchProgress) => void;
+    // When given, the search is answered from this on-device index instead of the org
+    index?: MetadataIndex | null;
+  }
+  
+  type CodeSearchMatch = CodeSearchResult['matches'][number];
+  
+  const FLOW_ELEMENT_TYPES: Record<string, string> = {
+    'label': 'Element Label',
+    'name': 'Element Name',
+    'description': 'Element Description',
+    'helpText': 'Help Text',
+    'value': 'Value',
+    'stringValue': 'String Value',
+    'formula': 'Formula',
+    'elementReference': 'Element Reference',
+    'choiceText': 'Choice Text',
+    'defaultValue': 'Default Value',
+    'errorMessage': 'Error Message',
+    'validationRule': 'Validation Rule',
+    'screenField': 'Screen Field',
+    'inputParameter': 'Input Parameter',
+    'outputParameter': 'Output Parameter',
+    'variable': 'Variable',
+    'textTemplate': 'Text Template',
+    'recordLookup': 'Record Lookup',
+    'recordCreate': 'Record Create',
+    'recordUpdate': 'Record Update',
+    'assignment': 'Assignment',
+    'decision': 'Decision',
+    'screen': 'Screen',
+    'subflow': 'Subflow',
+    'loop': 'Loop',
+    'wait': 'Wait',
+    'actionCall': 'Action Call',
+    'collectionProcessor': 'Collection Processor'
+  };
+  
+  // Snippet around the match plus the neighbouring non-empty lines for context
+  function buildMatch(lines: string[], i: number, query: SearchQuery, padding: number, context: string): CodeSearchMatch {
+    const line = lines[i];
+    const lineNumber = i + 1;
+    
+    const found = findQueryMatch(query, line) || { index: 0, length: 0 };
+    const start = Math.max(0, found.index - padding);
+    const end = Math.min(line.length, found.index + found.length + padding);
+    const snippet = (start > 0 ? '...' : '') + line.substring(start, end).trim() + (end < line.length ? '...' : '');
+    
+    const contextLines = [];
+    if (i > 0 && lines[i - 1].trim()) {
+      contextLines.push(`${i}: ${lines[i - 1].trim()}`);
+    }
+    contextLines.push(`${lineNumber}: ${line.trim()}`);
+    if (i < lines.length - 1 && lines[i + 1].trim()) {
+      contextLines.push(`${i + 2}: ${lines[i + 1].trim()}`);
+    }
+    
+    return {
+      line: lineNumber,
+      content: contextLines.join('\n'), // Multi-line content for better context
+      snippet,
+      context
+    };
+  }
+  
+  // Line-by-line matches inside code or text content
+  function findContentMatches(content: string, query: SearchQuery, type: string, maxMatches = 15): CodeSearchMatch[] {
+    const matches: CodeSearchMatch[] = [];
+    const lines = content.split('\n');
+    
+    for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
+      if (findQueryMatch(query, lines[i])) {
+        matches.push(buildMatch(lines, i, query, 50, `Line ${i + 1} (${type})`));
+      }
+    }
+    return matches;
+  }
+  
+  // Line-by-line matches inside flow XML, labelled with the flow element the line belongs to
+  function findFlowXmlMatches(xmlContent: string, query: SearchQuery, maxMatches = 10): CodeSearchMatch[] {
+    const matches: CodeSearchMatch[] = [];
+    const xmlLines = xmlContent.split('\n');
+    
+    for (let i = 0; i < xmlLines.length && matches.length < maxMatches; i++) {
+      const line = xmlLines[i];
+      if (!findQueryMatch(query, line)) continue;
+      
+      // Extract meaningful context from XML tags
+      let context = 'Flow XML';
+      const tagMatch = line.match(/<(\w+)[^>]*>/);
+      if (tagMatch) {
+        const tagName = tagMatch[1];
+        context = FLOW_ELEMENT_TYPES[tagName] || `Flow XML (${tagName})`;
+      }
+      
+      matches.push(buildMatch(xmlLines, i, query, 60, `${context} Line ${i + 1}`));
+    }
+    return matches;
+  }
+  
+  // Placeholder line for files that match only on name: or object: (no search terms to show)
+  function nameOnlyMatch(name: string): CodeSearchMatch {
+    return {
+      line: 1,
+      content: `Name: ${name}`,
+      snippet: name,
+      context: 'Name'
+    };
+  }
+  
+  // Deduplicate by type and file, then sort by relevance
+  function rankResults(results: CodeSearchResult[], searchTerm: string): CodeSearchResult[] {
+    // Deduplicate results by file and type (especially important for Flows)
+    const uniqueResults = results.reduce((acc, current) => {
+      const key = `${current.type}-${current.fileName}`;
+      const existingIndex = acc.findIndex(item => `${item.type}-${item.fileName}` === key);
+      
+      if (existingIndex === -1) {
+        acc.push(current);
+      } else {
+        // Merge matches from duplicate entries
+        const existing = acc[existingIndex];
+        const combinedMatches = [...existing.matches, ...current.matches];
+        
+        // Remove duplicate matches based on line number and content
+        const uniqueMatches = combinedMatches.reduce((matchAcc, match) => {
+          const matchKey = `${match.line}-${match.snippet}`;
+          if (!matchAcc.find(m => `${m.line}-${m.snippet}` === matchKey)) {
+            matchAcc.push(match);
+          }
+          return matchAcc;
+        }, [] as CodeSearchMatch[]);
+        
+        acc[existingIndex] = {
+          ...existing,
+          matches: uniqueMatches,
+          totalMatches: uniqueMatches.length
+        };
+      }
+      return acc;
+    }, [] as CodeSearchResult[]);
+    
+    // Sort results by relevance (total matches and recency)
+    uniqueResults.sort((a, b) => {
+      // Primary sort: total matches
+      const matchDiff = (b.totalMatches || 0) - (a.totalMatches || 0);
+      if (matchDiff !== 0) return matchDiff;
+      
+      // Secondary sort: alphabetical by name
+      return a.name.localeCompare(b.name);
+    });
+    
+    console.log(`Found ${uniqueResults.length} unique files with matches for "${searchTerm}"`);
+    console.log(`Total matches across all files: ${uniqueResults.reduce((sum, r) => sum + (r.totalMatches || 0), 0)}`);
+    
+    // Log breakdown by type for debugging
+    const typeBreakdown = uniqueResults.reduce((acc, result) => {
+      acc[result.type] = (acc[result.type] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    console.log('Search results by type:', typeBreakdown);
+    
+    return uniqueResults;
+  }
+  
+  // Answer a search entirely from the on-device metadata index (no network)
+  function searchIndexEntries(index: MetadataIndex, query: SearchQuery): CodeSearchResult[] {
+    const results: CodeSearchResult[] = [];
+    
+    for (const entry of index.entries) {
+      if (query.types.length > 0 && !query.types.includes(entry.type)) continue;
+      if (!matchesQueryName(query, entry.name)) continue;
+      if (!matchesQueryObject(query, entry.objectName, entry.content)) continue;
+      if (!matchesQueryContent(query, `${entry.name}\n${entry.content}`)) continue;
+      
+      const isBundleFile = entry.type === 'lwc-bundle' || entry.type === 'aura-bundle';
+      const matches = entry.type === 'flow'
+        ? findFlowXmlMatches(entry.content, query)
+        : findContentMatches(entry.content, query, isBundleFile ? getSourceFileKind(entry.fileName) : entry.type);
+      
+      if (matches.length === 0) {
+        // Name-only hit (e.g. a flow label or layout name that is not in the body)
+        matches.push(nameOnlyMatch(entry.name));
+      }
+      
+      results.push({
+        id: entry.id,
+        type: entry.type,
+        name: entry.name,
+        label: entry.label,
+        fileName: entry.fileName,
+        matches,
+        totalMatches: matches.length
+      });
+    }
+    
+    return results;
+  }
+  
   export async function searchCodeContent(
-    instanceUrl: string,
-    accessToken: string,
-    searchTerm: string
+    client: SalesforceClient,
+    query: SearchQuery,
+    options: CodeSearchOptions = {}
   ): Promise<CodeSearchResult[]> {
     try {
-      console.log('Searching code content for:', searchTerm);
+      console.log('Searching code content for:', query.text);
       
       // Validate inputs
-      if (!instanceUrl || !accessToken || !searchTerm || searchTerm.length < 2) {
+      if (!query) {
         console.log('Invalid search parameters');
         return [];
       }
-      
-      const cleanInstanceUrl = instanceUrl.replace(/\/$/, '');
-      const headers = {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      };
+  
+      console.log('Starting search with needles:', query.needles, 'types:', query.types);
+  
+      if (options.index) {
+        console.log(`Searching on-device index (${options.index.entries.length} entries)`);
+        return rankResults(searchIndexEntries(options.index, query), query.text);
+      }
   
       const results: CodeSearchResult[] = [];
-      const searchRegex = new RegExp(searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
-      
-      console.log('Starting search with regex:', searchRegex);
-  
-      // Helper function for tooling queries with timeout and error handling
-      const toolingQuery = async (soql: string, timeout = 10000) => {
-        try {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), timeout);
-          
-          const url = `${cleanInstanceUrl}/services/data/${API_VERSION}/tooling/query/?q=${encodeURIComponent(soql)}`;
-          console.log('Executing tooling query:', soql);
-          
-          const response = await fetch(url, { 
-            headers, 
-            signal: controller.signal 
-          });
-          
-          clearTimeout(timeoutId);
-          
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.warn('Tooling query failed:', soql, response.status, errorText);
-            
-            // Handle token expiration
-            if (response.status === 401) {
-              handleApiError(response, errorText);
-            }
-            
-            return { records: [] };
-          }
-          
-          const result = await response.json();
-          console.log(`Query returned ${result.records?.length || 0} records`);
-          return result;
-        } catch (error) {
-          if (error instanceof Error && error.name === 'AbortError') {
-            console.warn('Tooling query timed out:', soql);
-          } else if (error instanceof TokenExpiredError) {
-            throw error; // Re-throw token errors
-          } else {
-            console.warn('Tooling query error:', error);
-          }
-          return { records: [] };
-        }
+  
+      // type: in the query (or the type filter pills) skips whole metadata types
+      const wantsType = (type: string) => query.types.length === 0 || query.types.includes(type);
+  
+      // name:, object: and the content terms must all pass before a file's lines are matched
+      const matchesFile = (name: string, content: string, objectName?: string) =>
+        matchesQueryName(query, name)
+        && matchesQueryObject(query, objectName, content)
+        && matchesQueryContent(query, content);
+  
+      const reportProgress = (type: string, label: string, scanned: number, total: number) => {
+        options.onProgress?.({ type, label, scanned, total });
+      };
+  
+      const scanInIdBatches = async (
+        type: string,
+        label: string,
+        idQuery: string,
+        detailQuery: (idList: string) => string,
+        onRecord: (record: any) => void
+      ) => {
+        let scannedTotal = 0;
+        await toolingScanInIdBatches(client, idQuery, detailQuery, onRecord, (scanned, total) => {
+          scannedTotal = total;
+          reportProgress(type, label, scanned, total);
+        });
+        console.log(`Scanned ${scannedTotal} ${label}`);
       };
   
   
   
       // Enhanced helper function to search within text content with better visibility
-      const searchInContent = (content: string, fileName: string, type: string, name: string, label: string, id: string) => {
+      const searchInContent = (content: string, fileName: string, type: string, name: string, label: string, id: string, kind = type) => {
         if (!content || content.length === 0) return;
         
-        const matches: CodeSearchResult['matches'] = [];
-        const lines = content.split('\n');
-        const maxMatches = 15; // Increased limit for better visibility
-        
-        // Use a more efficient search approach
-        for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
-          const line = lines[i];
-          const lineNumber = i + 1;
-          
-          if (searchRegex.test(line)) {
-            // Create snippet with more context (show more characters before and after)
-            const matchIndex = line.toLowerCase().indexOf(searchTerm.toLowerCase());
-            const start = Math.max(0, matchIndex - 50); // Increased context
-            const end = Math.min(line.length, matchIndex + searchTerm.length + 50); // Increased context
-            const snippet = (start > 0 ? '...' : '') + line.substring(start, end).trim() + (end < line.length ? '...' : '');
-            
-            // Also include surrounding lines for better context
-            const contextLines = [];
-            if (i > 0 && lines[i - 1].trim()) {
-              contextLines.push(`${i}: ${lines[i - 1].trim()}`);
-            }
-            contextLines.push(`${lineNumber}: ${line.trim()}`);
-            if (i < lines.length - 1 && lines[i + 1].trim()) {
-              contextLines.push(`${i + 2}: ${lines[i + 1].trim()}`);
-            }
-            
-            matches.push({
-              line: lineNumber,
-              content: contextLines.join('\n'), // Multi-line content for better context
-              snippet,
-              context: `Line ${lineNumber} (${type})`
-            });
-          }
+        const matches = findContentMatches(content, query, kind);
+        if (matches.length === 0 && query.needles.length === 0) {
+          matches.push(nameOnlyMatch(name));
         }
-        
         if (matches.length > 0) {
           results.push({
             id,
@@ -634,32 +1705,29 @@ import type {
       const searchPromises = [];
   
       // 1. Search Apex Classes
-      searchPromises.push(
+      if (wantsType('apex-class')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Apex Classes...');
-            const apexClassQuery = `
-              SELECT Id, Name, Body, NamespacePrefix
-              FROM ApexClass
-              ORDER BY LastModifiedDate DESC
-              LIMIT 50
-            `;
-            const { records: apexClasses } = await toolingQuery(apexClassQuery, 8000);
-            console.log(`Found ${apexClasses.length} Apex classes to search`);
-            
-            for (const cls of apexClasses) {
-              if (cls.Body && cls.Body.trim() && searchRegex.test(cls.Body)) {
-                console.log(`Found matches in Apex class: ${cls.Name}`);
-                searchInContent(
-                  cls.Body,
-                  `${cls.Name}.cls`,
-                  'apex-class',
-                  cls.Name,
-                  cls.Name,
-                  `apex-class-${cls.Id}`
-                );
+            await scanInIdBatches(
+              'apex-class',
+              'Apex classes',
+              `SELECT Id FROM ApexClass${toSoqlWhere([toSoqlNameCondition(query, 'Name')])} ORDER BY Name`,
+              (idList) => `SELECT Id, Name, Body, NamespacePrefix FROM ApexClass WHERE Id IN (${idList})`,
+              (cls) => {
+                if (cls.Body && cls.Body.trim() && matchesFile(cls.Name, cls.Body)) {
+                  console.log(`Found matches in Apex class: ${cls.Name}`);
+                  searchInContent(
+                    cls.Body,
+                    `${cls.Name}.cls`,
+                    'apex-class',
+                    cls.Name,
+                    cls.Name,
+                    `apex-class-${cls.Id}`
+                  );
+                }
               }
-            }
+            );
           } catch (error) {
             console.warn('Apex class content search failed:', error);
             if (error instanceof TokenExpiredError) {
@@ -671,32 +1739,34 @@ import type {
       );
   
       // 2. Search Apex Triggers
-      searchPromises.push(
+      if (wantsType('apex-trigger')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Apex Triggers...');
-            const triggerQuery = `
-              SELECT Id, Name, Body, TableEnumOrId
-              FROM ApexTrigger
-              ORDER BY LastModifiedDate DESC
-              LIMIT 30
-            `;
-            const { records: triggers } = await toolingQuery(triggerQuery, 6000);
-            console.log(`Found ${triggers.length} Apex triggers to search`);
-            
-            for (const trigger of triggers) {
-              if (trigger.Body && trigger.Body.trim() && searchRegex.test(trigger.Body)) {
-                console.log(`Found matches in Apex trigger: ${trigger.Name}`);
-                searchInContent(
-                  trigger.Body,
-                  `${trigger.Name}.trigger`,
-                  'apex-trigger',
-                  trigger.Name,
-                  `${trigger.Name} (${trigger.TableEnumOrId})`,
-                  `apex-trigger-${trigger.Id}`
-                );
+            const triggerTableIds = await resolveObjectTableIds(client, query.objects);
+            await scanInIdBatches(
+              'apex-trigger',
+              'Apex triggers',
+              `SELECT Id FROM ApexTrigger${toSoqlWhere([
+                toSoqlNameCondition(query, 'Name'),
+                toSoqlObjectCondition({ ...query, objects: triggerTableIds }, 'TableEnumOrId'),
+              ])} ORDER BY Name`,
+              (idList) => `SELECT Id, Name, Body, TableEnumOrId, EntityDefinition.QualifiedApiName FROM ApexTrigger WHERE Id IN (${idList})`,
+              (trigger) => {
+                const objectName = trigger.EntityDefinition?.QualifiedApiName || trigger.TableEnumOrId;
+                if (trigger.Body && trigger.Body.trim() && matchesFile(trigger.Name, trigger.Body, objectName)) {
+                  console.log(`Found matches in Apex trigger: ${trigger.Name}`);
+                  searchInContent(
+                    trigger.Body,
+                    `${trigger.Name}.trigger`,
+                    'apex-trigger',
+                    trigger.Name,
+                    `${trigger.Name} (${objectName})`,
+                    `apex-trigger-${trigger.Id}`
+                  );
+                }
               }
-            }
+            );
           } catch (error) {
             console.warn('Apex trigger content search failed:', error);
             if (error instanceof TokenExpiredError) {
@@ -708,7 +1778,7 @@ import type {
       );
   
       // 3. Search Flows (comprehensive XML metadata search)
-      searchPromises.push(
+      if (wantsType('flow')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Flows and their XML metadata...');
@@ -720,10 +1790,12 @@ import type {
               WHERE Status = 'Active'
               AND MasterLabel != null
               ORDER BY LastModifiedDate DESC
-              LIMIT 50
             `;
-            const { records: flows } = await toolingQuery(flowQuery, 15000);
+            const { records: allFlows } = await toolingQueryAllPages(client, flowQuery, 15000);
+            // Apply name: before downloading any XML
+            const flows = allFlows.filter((flow: any) => matchesQueryName(query, flow.MasterLabel));
             console.log(`Found ${flows.length} flows for comprehensive search`);
+            reportProgress('flow', 'flows', 0, flows.length);
             
             // Process flows in small batches to avoid timeout
             const batchSize = 3;
@@ -735,8 +1807,18 @@ import type {
                   let flowMatches: CodeSearchResult['matches'] = [];
                   let totalMatches = 0;
                   
+                  // Get Flow XML metadata - this is the key part for deep search
+                  console.log(`Attempting to get XML for flow: ${flow.MasterLabel}`);
+                  const xmlContent = await fetchFlowXml(client, flow.Id) || '';
+                  
+                  // The label counts as part of the flow, so terms may be split between label and XML
+                  if (!matchesFile(flow.MasterLabel, `${flow.MasterLabel}\n${xmlContent}`)) {
+                    console.log(`No matches found for flow: ${flow.MasterLabel}`);
+                    return;
+                  }
+                  
                   // Search in flow name first
-                  if (flow.MasterLabel && searchRegex.test(flow.MasterLabel)) {
+                  if (flow.MasterLabel && findQueryMatch(query, flow.MasterLabel)) {
                     flowMatches.push({
                       line: 1,
                       content: `Flow Name: ${flow.MasterLabel}`,
@@ -746,108 +1828,16 @@ import type {
                     totalMatches++;
                   }
                   
-                  // Get Flow XML metadata - this is the key part for deep search
-                  try {
-                    console.log(`Attempting to get XML for flow: ${flow.MasterLabel}`);
-                    
-                    // Try to get Flow XML using the Tooling API with XML Accept header
-                    const flowXmlUrl = `${cleanInstanceUrl}/services/data/${API_VERSION}/tooling/sobjects/Flow/${flow.Id}`;
-                    const xmlResponse = await fetch(flowXmlUrl, {
-                      headers: {
-                        ...headers,
-                        'Accept': 'application/xml'
-                      }
-                    });
-                    
-                    if (xmlResponse.ok) {
-                      const xmlContent = await xmlResponse.text();
-                      console.log(`Got XML content for flow ${flow.MasterLabel}, length: ${xmlContent.length}`);
-                      
-                      if (xmlContent && xmlContent.trim().length > 0 && searchRegex.test(xmlContent)) {
-                        console.log(`Found matches in flow XML: ${flow.MasterLabel}`);
-                        
-                        // Parse XML content line by line for matches
-                        const xmlLines = xmlContent.split('\n');
-                        const maxXmlMatches = 10;
-                        let xmlMatchCount = 0;
-                        
-                        for (let lineIndex = 0; lineIndex < xmlLines.length && xmlMatchCount < maxXmlMatches; lineIndex++) {
-                          const line = xmlLines[lineIndex];
-                          const lineNumber = lineIndex + 1;
-                          
-                          if (searchRegex.test(line)) {
-                            const matchIndex = line.toLowerCase().indexOf(searchTerm.toLowerCase());
-                            const start = Math.max(0, matchIndex - 60);
-                            const end = Math.min(line.length, matchIndex + searchTerm.length + 60);
-                            const snippet = (start > 0 ? '...' : '') + line.substring(start, end).trim() + (end < line.length ? '...' : '');
-                            
-                            // Extract meaningful context from XML tags
-                            let context = 'Flow XML';
-                            const tagMatch = line.match(/<(\w+)[^>]*>/);
-                            if (tagMatch) {
-                              const tagName = tagMatch[1];
-                              const flowElementTypes: Record<string, string> = {
-                                'label': 'Element Label',
-                                'name': 'Element Name',
-                                'description': 'Element Description',
-                                'helpText': 'Help Text',
-                                'value': 'Value',
-                                'stringValue': 'String Value',
-                                'formula': 'Formula',
-                                'elementReference': 'Element Reference',
-                                'choiceText': 'Choice Text',
-                                'defaultValue': 'Default Value',
-                                'errorMessage': 'Error Message',
-                                'validationRule': 'Validation Rule',
-                                'screenField': 'Screen Field',
-                                'inputParameter': 'Input Parameter',
-                                'outputParameter': 'Output Parameter',
-                                'variable': 'Variable',
-                                'textTemplate': 'Text Template',
-                                'recordLookup': 'Record Lookup',
-                                'recordCreate': 'Record Create',
-                                'recordUpdate': 'Record Update',
-                                'assignment': 'Assignment',
-                                'decision': 'Decision',
-                                'screen': 'Screen',
-                                'subflow': 'Subflow',
-                                'loop': 'Loop',
-                                'wait': 'Wait',
-                                'actionCall': 'Action Call',
-                                'collectionProcessor': 'Collection Processor'
-                              };
-                              
-                              context = flowElementTypes[tagName] || `Flow XML (${tagName})`;
-                            }
-                            
-                            // Include surrounding context for better understanding
-                            const contextLines = [];
-                            if (lineIndex > 0 && xmlLines[lineIndex - 1].trim()) {
-                              contextLines.push(`${lineIndex}: ${xmlLines[lineIndex - 1].trim()}`);
-                            }
-                            contextLines.push(`${lineNumber}: ${line.trim()}`);
-                            if (lineIndex < xmlLines.length - 1 && xmlLines[lineIndex + 1].trim()) {
-                              contextLines.push(`${lineIndex + 2}: ${xmlLines[lineIndex + 1].trim()}`);
-                            }
-                            
-                            flowMatches.push({
-                              line: lineNumber,
-                              content: contextLines.join('\n'),
-                              snippet,
-                              context: `${context} Line ${lineNumber}`
-                            });
-                            totalMatches++;
-                            xmlMatchCount++;
-                          }
-                        }
-                      } else {
-                        console.log(`No matches found in XML for flow: ${flow.MasterLabel}`);
-                      }
-                    } else {
-                      console.warn(`Failed to get XML for flow ${flow.MasterLabel}: ${xmlResponse.status} - ${await xmlResponse.text()}`);
-                    }
-                  } catch (xmlError) {
-                    console.warn(`Error getting XML for flow ${flow.MasterLabel}:`, xmlError);
+                  if (xmlContent.trim().length > 0) {
+                    console.log(`Found matches in flow XML: ${flow.MasterLabel}`);
+                    const xmlMatches = findFlowXmlMatches(xmlContent, query);
+                    flowMatches.push(...xmlMatches);
+                    totalMatches += xmlMatches.length;
+                  }
+                  
+                  if (flowMatches.length === 0 && query.needles.length === 0) {
+                    flowMatches.push(nameOnlyMatch(flow.MasterLabel));
+                    totalMatches++;
                   }
                   
                   // Add flow to results if we found any matches
@@ -866,6 +1856,7 @@ import type {
                   console.warn(`Error processing flow ${flow.MasterLabel}:`, flowError);
                 }
               }));
+              reportProgress('flow', 'flows', Math.min(i + batchSize, flows.length), flows.length);
             }
           } catch (error) {
             console.warn('Flow content search failed:', error);
@@ -877,7 +1868,7 @@ import type {
       );
   
       // 4. Search Lightning Web Components
-      searchPromises.push(
+      if (wantsType('lwc-bundle')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Lightning Web Components...');
@@ -885,9 +1876,8 @@ import type {
               SELECT Id, DeveloperName, MasterLabel, Description
               FROM LightningComponentBundle
               ORDER BY LastModifiedDate DESC
-              LIMIT 30
             `;
-            const { records: lwcBundles } = await toolingQuery(lwcQuery, 8000);
+            const { records: lwcBundles } = await toolingQueryAllPages(client, lwcQuery, 8000);
             console.log(`Found ${lwcBundles.length} LWC bundles to search`);
             
             for (const lwc of lwcBundles) {
@@ -897,11 +1887,11 @@ import type {
                 lwc.Description
               ].filter(Boolean).join(' ');
               
-              if (searchRegex.test(searchableContent)) {
+              if (matchesFile(lwc.DeveloperName, searchableContent)) {
                 console.log(`Found matches in LWC: ${lwc.DeveloperName}`);
                 
                 const matches = [];
-                if (lwc.DeveloperName && searchRegex.test(lwc.DeveloperName)) {
+                if (lwc.DeveloperName && findQueryMatch(query, lwc.DeveloperName)) {
                   matches.push({
                     line: 1,
                     content: `Component Name: ${lwc.DeveloperName}`,
@@ -909,7 +1899,7 @@ import type {
                     context: 'LWC Name'
                   });
                 }
-                if (lwc.MasterLabel && searchRegex.test(lwc.MasterLabel)) {
+                if (lwc.MasterLabel && findQueryMatch(query, lwc.MasterLabel)) {
                   matches.push({
                     line: 2,
                     content: `Label: ${lwc.MasterLabel}`,
@@ -917,7 +1907,7 @@ import type {
                     context: 'LWC Label'
                   });
                 }
-                if (lwc.Description && searchRegex.test(lwc.Description)) {
+                if (lwc.Description && findQueryMatch(query, lwc.Description)) {
                   matches.push({
                     line: 3,
                     content: `Description: ${lwc.Description}`,
@@ -925,6 +1915,9 @@ import type {
                     context: 'LWC Description'
                   });
                 }
+                if (matches.length === 0) {
+                  matches.push(nameOnlyMatch(lwc.DeveloperName));
+                }
                 
                 results.push({
                   id: `lwc-bundle-${lwc.Id}`,
@@ -937,6 +1930,29 @@ import type {
                 });
               }
             }
+            
+            // Scan the source of every bundle file (JS, HTML, CSS, metadata XML);
+            // a name:-only query is fully answered by the bundle names above
+            if (query.needles.length > 0 || query.objects.length > 0) await scanInIdBatches(
+              'lwc-bundle',
+              'Lightning web component files',
+              'SELECT Id FROM LightningComponentResource ORDER BY FilePath',
+              (idList) => `SELECT Id, FilePath, Source, LightningComponentBundle.DeveloperName FROM LightningComponentResource WHERE Id IN (${idList})`,
+              (resource) => {
+                const bundleName = resource.LightningComponentBundle?.DeveloperName || resource.FilePath;
+                if (resource.Source && matchesFile(bundleName, resource.Source)) {
+                  searchInContent(
+                    resource.Source,
+                    resource.FilePath,
+                    'lwc-bundle',
+                    bundleName,
+                    resource.FilePath,
+                    `lwc-resource-${resource.Id}`,
+                    getSourceFileKind(resource.FilePath)
+                  );
+                }
+              }
+            );
           } catch (error) {
             console.warn('LWC search failed:', error);
             if (error instanceof TokenExpiredError) {
@@ -947,7 +1963,7 @@ import type {
       );
   
       // 5. Search Aura Components
-      searchPromises.push(
+      if (wantsType('aura-bundle')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Aura Components...');
@@ -955,9 +1971,8 @@ import type {
               SELECT Id, DeveloperName, MasterLabel, Description
               FROM AuraDefinitionBundle
               ORDER BY LastModifiedDate DESC
-              LIMIT 30
             `;
-            const { records: auraBundles } = await toolingQuery(auraQuery, 8000);
+            const { records: auraBundles } = await toolingQueryAllPages(client, auraQuery, 8000);
             console.log(`Found ${auraBundles.length} Aura bundles to search`);
             
             for (const aura of auraBundles) {
@@ -967,11 +1982,11 @@ import type {
                 aura.Description
               ].filter(Boolean).join(' ');
               
-              if (searchRegex.test(searchableContent)) {
+              if (matchesFile(aura.DeveloperName, searchableContent)) {
                 console.log(`Found matches in Aura component: ${aura.DeveloperName}`);
                 
                 const matches = [];
-                if (aura.DeveloperName && searchRegex.test(aura.DeveloperName)) {
+                if (aura.DeveloperName && findQueryMatch(query, aura.DeveloperName)) {
                   matches.push({
                     line: 1,
                     content: `Component Name: ${aura.DeveloperName}`,
@@ -979,7 +1994,7 @@ import type {
                     context: 'Aura Name'
                   });
                 }
-                if (aura.MasterLabel && searchRegex.test(aura.MasterLabel)) {
+                if (aura.MasterLabel && findQueryMatch(query, aura.MasterLabel)) {
                   matches.push({
                     line: 2,
                     content: `Label: ${aura.MasterLabel}`,
@@ -987,7 +2002,7 @@ import type {
                     context: 'Aura Label'
                   });
                 }
-                if (aura.Description && searchRegex.test(aura.Description)) {
+                if (aura.Description && findQueryMatch(query, aura.Description)) {
                   matches.push({
                     line: 3,
                     content: `Description: ${aura.Description}`,
@@ -995,6 +2010,9 @@ import type {
                     context: 'Aura Description'
                   });
                 }
+                if (matches.length === 0) {
+                  matches.push(nameOnlyMatch(aura.DeveloperName));
+                }
                 
                 results.push({
                   id: `aura-bundle-${aura.Id}`,
@@ -1007,6 +2025,29 @@ import type {
                 });
               }
             }
+            
+            // Scan the source of every bundle file (markup, controller, helper, renderer, CSS...)
+            if (query.needles.length > 0 || query.objects.length > 0) await scanInIdBatches(
+              'aura-bundle',
+              'Aura component files',
+              'SELECT Id FROM AuraDefinition ORDER BY AuraDefinitionBundleId',
+              (idList) => `SELECT Id, DefType, Source, AuraDefinitionBundle.DeveloperName FROM AuraDefinition WHERE Id IN (${idList})`,
+              (definition) => {
+                const bundleName = definition.AuraDefinitionBundle?.DeveloperName || 'aura';
+                if (definition.Source && matchesFile(bundleName, definition.Source)) {
+                  const fileName = getAuraFileName(bundleName, definition.DefType);
+                  searchInContent(
+                    definition.Source,
+                    fileName,
+                    'aura-bundle',
+                    bundleName,
+                    fileName,
+                    `aura-definition-${definition.Id}`,
+                    getSourceFileKind(fileName)
+                  );
+                }
+              }
+            );
           } catch (error) {
             console.warn('Aura component search failed:', error);
             if (error instanceof TokenExpiredError) {
@@ -1017,18 +2058,18 @@ import type {
       );
   
       // 6. Search Validation Rules and other metadata
-      searchPromises.push(
+      if (wantsType('validation-rule')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Validation Rules...');
             const validationQuery = `
-              SELECT Id, ValidationName, ErrorMessage, ErrorDisplayField, Active
+              SELECT Id, ValidationName, ErrorMessage, ErrorDisplayField, Active, EntityDefinition.QualifiedApiName
               FROM ValidationRule
               ORDER BY LastModifiedDate DESC
-              LIMIT 30
             `;
-            const { records: validationRules } = await toolingQuery(validationQuery, 6000);
+            const { records: validationRules } = await toolingQueryAllPages(client, validationQuery, 6000);
             console.log(`Found ${validationRules.length} validation rules to search`);
+            reportProgress('validation-rule', 'validation rules', validationRules.length, validationRules.length);
             
             for (const rule of validationRules) {
               const searchableContent = [
@@ -1037,11 +2078,11 @@ import type {
                 rule.ErrorDisplayField
               ].filter(Boolean).join(' ');
               
-              if (searchRegex.test(searchableContent)) {
+              if (matchesFile(rule.ValidationName, searchableContent, rule.EntityDefinition?.QualifiedApiName)) {
                 console.log(`Found matches in validation rule: ${rule.ValidationName}`);
                 
                 const matches = [];
-                if (rule.ValidationName && searchRegex.test(rule.ValidationName)) {
+                if (rule.ValidationName && findQueryMatch(query, rule.ValidationName)) {
                   matches.push({
                     line: 1,
                     content: `Rule Name: ${rule.ValidationName}`,
@@ -1049,7 +2090,7 @@ import type {
                     context: 'Validation Rule Name'
                   });
                 }
-                if (rule.ErrorMessage && searchRegex.test(rule.ErrorMessage)) {
+                if (rule.ErrorMessage && findQueryMatch(query, rule.ErrorMessage)) {
                   matches.push({
                     line: 2,
                     content: `Error Message: ${rule.ErrorMessage}`,
@@ -1057,6 +2098,9 @@ import type {
                     context: 'Error Message'
                   });
                 }
+                if (matches.length === 0) {
+                  matches.push(nameOnlyMatch(rule.ValidationName));
+                }
                 
                 results.push({
                   id: `validation-rule-${rule.Id}`,
@@ -1079,29 +2123,31 @@ import type {
       );
   
       // 7. Search Page Layouts
-      searchPromises.push(
+      if (wantsType('page-layout')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Page Layouts...');
             const layoutQuery = `
-              SELECT Id, Name, TableEnumOrId
+              SELECT Id, Name, TableEnumOrId, EntityDefinition.QualifiedApiName
               FROM Layout
               ORDER BY LastModifiedDate DESC
-              LIMIT 30
             `;
-            const { records: layouts } = await toolingQuery(layoutQuery, 6000);
+            const { records: layouts } = await toolingQueryAllPages(client, layoutQuery, 6000);
             console.log(`Found ${layouts.length} page layouts to search`);
+            reportProgress('page-layout', 'page layouts', layouts.length, layouts.length);
             
             for (const layout of layouts) {
-              if (layout.Name && searchRegex.test(layout.Name)) {
+              // Custom objects' layouts carry the object's durable id in TableEnumOrId
+              const objectName = layout.EntityDefinition?.QualifiedApiName || layout.TableEnumOrId;
+              if (layout.Name && matchesFile(layout.Name, layout.Name, objectName)) {
                 console.log(`Found matches in page layout: ${layout.Name}`);
                 
                 results.push({
                   id: `page-layout-${layout.Id}`,
                   type: 'page-layout',
                   name: layout.Name,
-                  label: `${layout.Name} (${layout.TableEnumOrId})`,
-                  fileName: `${layout.TableEnumOrId}.${layout.Name}.layout`,
+                  label: `${layout.Name} (${objectName})`,
+                  fileName: `${objectName}.${layout.Name}.layout`,
                   matches: [{
                     line: 1,
                     content: `Layout Name: ${layout.Name}`,
@@ -1122,21 +2168,21 @@ import type {
       );
   
       // 8. Search Record Types
-      searchPromises.push(
+      if (wantsType('record-type')) searchPromises.push(
         (async () => {
           try {
             console.log('Searching Record Types...');
             // Use standard REST API for RecordType as Tooling API has field limitations
-            const recordTypeUrl = `${cleanInstanceUrl}/services/data/${API_VERSION}/query/?q=${encodeURIComponent(
-              'SELECT Id, Name, SobjectType, Description FROM RecordType ORDER BY LastModifiedDate DESC LIMIT 30'
-            )}`;
-            const recordTypeResponse = await fetch(recordTypeUrl, { headers });
-            if (!recordTypeResponse.ok) {
-              console.warn('RecordType query failed:', await recordTypeResponse.text());
-              return;
-            }
-            const { records: recordTypes } = await recordTypeResponse.json();
+            const { records: recordTypes } = await queryAllPages(
+              client,
+              `SELECT Id, Name, SobjectType, Description FROM RecordType${toSoqlWhere([
+                toSoqlNameCondition(query, 'Name'),
+                toSoqlObjectCondition(query, 'SobjectType'),
+              ])} ORDER BY LastModifiedDate DESC`,
+              6000
+            );
             console.log(`Found ${recordTypes.length} record types to search`);
+            reportProgress('record-type', 'record types', recordTypes.length, recordTypes.length);
             
             for (const recordType of recordTypes) {
               const searchableContent = [
@@ -1144,11 +2190,11 @@ import type {
                 recordType.Description
               ].filter(Boolean).join(' ');
               
-              if (searchRegex.test(searchableContent)) {
+              if (matchesFile(recordType.Name, searchableContent, recordType.SobjectType)) {
                 console.log(`Found matches in record type: ${recordType.Name}`);
                 
                 const matches = [];
-                if (recordType.Name && searchRegex.test(recordType.Name)) {
+                if (recordType.Name && findQueryMatch(query, recordType.Name)) {
                   matches.push({
                     line: 1,
                     content: `Record Type Name: ${recordType.Name}`,
@@ -1156,7 +2202,7 @@ import type {
                     context: 'Record Type Name'
                   });
                 }
-                if (recordType.Description && searchRegex.test(recordType.Description)) {
+                if (recordType.Description && findQueryMatch(query, recordType.Description)) {
                   matches.push({
                     line: 2,
                     content: `Description: ${recordType.Description}`,
@@ -1164,6 +2210,9 @@ import type {
                     context: 'Record Type Description'
                   });
                 }
+                if (matches.length === 0) {
+                  matches.push(nameOnlyMatch(recordType.Name));
+                }
                 
                 results.push({
                   id: `record-type-${recordType.Id}`,
@@ -1187,15 +2236,29 @@ import type {
   
   
   
-      // 10. Search using SOSL for broader compatibility (fallback with proper escaping)
-      searchPromises.push(
+      // 10. Search using SOSL for broader compatibility (fallback with proper escaping).
+      //     SOSL cannot check regexes, exclusions, case, whole words or objects, so it only
+      //     backs up plain term searches where its hits can be trusted
+      const soslTerm = query.terms.join(' ');
+      const soslTypes = [
+        ...(wantsType('apex-class') ? ['ApexClass'] : []),
+        ...(wantsType('apex-trigger') ? ['ApexTrigger'] : []),
+      ];
+      const soslApplies = query.terms.length > 0
+        && query.patterns.length === 0
+        && query.excludes.length === 0
+        && query.objects.length === 0
+        && !query.caseSensitive
+        && !query.wholeWord
+        && soslTypes.length > 0;
+      if (soslApplies) searchPromises.push(
         (async () => {
           try {
             console.log('Searching using SOSL fallback...');
             // Use SOSL to search across multiple object types as fallback with proper escaping
-            const searchUrl = buildSearchUrl(cleanInstanceUrl, searchTerm, ['ApexClass', 'ApexTrigger']);
+            const searchUrl = buildSearchUrl(client.dataPath, soslTerm, soslTypes);
             
-            const response = await fetch(searchUrl, { headers });
+            const response = await client.send(searchUrl);
             if (response.ok) {
               const data = await response.json();
               console.log(`SOSL fallback returned ${data.searchRecords?.length || 0} records`);
@@ -1206,7 +2269,7 @@ import type {
                   const existingId = type === 'ApexClass' ? `apex-class-${record.Id}` : `apex-trigger-${record.Id}`;
                   
                   // Only add if we don't already have this result from detailed search
-                  if (!results.find(r => r.id === existingId)) {
+                  if (!results.find(r => r.id === existingId) && matchesQueryName(query, record.Name)) {
                     if (type === 'ApexClass') {
                       results.push({
                         id: existingId,
@@ -1216,8 +2279,8 @@ import type {
                         fileName: `${record.Name}.cls`,
                         matches: [{
                           line: 1,
-                          content: `Found via SOSL search - contains "${searchTerm}"`,
-                          snippet: `Contains "${searchTerm}"`,
+                          content: `Found via SOSL search - contains "${soslTerm}"`,
+                          snippet: `Contains "${soslTerm}"`,
                           context: 'SOSL Search Result'
                         }],
                         totalMatches: 1
@@ -1231,8 +2294,8 @@ import type {
                         fileName: `${record.Name}.trigger`,
                         matches: [{
                           line: 1,
-                          content: `Found via SOSL search - contains "${searchTerm}"`,
-                          snippet: `Contains "${searchTerm}"`,
+                          content: `Found via SOSL search - contains "${soslTerm}"`,
+                          snippet: `Contains "${soslTerm}"`,
                           context: 'SOSL Search Result'
                         }],
                         totalMatches: 1
@@ -1244,11 +2307,12 @@ import type {
             } else {
               const errorText = await response.text();
               console.warn('SOSL fallback search failed:', errorText);
+              client.reportPartialFailure('SOSL search', `HTTP ${response.status}`);
               
               // Check if it's a malformed search error and provide helpful info
               if (errorText.includes('MALFORMED_SEARCH') || errorText.includes('mismatched character')) {
-                console.warn('SOSL search term contains reserved characters. Search term:', searchTerm);
-                console.warn('Escaped search term would be:', escapeSOSL(searchTerm));
+                console.warn('SOSL search term contains reserved characters. Search term:', soslTerm);
+                console.warn('Escaped search term would be:', escapeSOSL(soslTerm));
               }
             }
           } catch (error) {
@@ -1277,57 +2341,7 @@ import type {
         }
       });
   
-      // Deduplicate results by name and type (especially important for Flows)
-      const uniqueResults = results.reduce((acc, current) => {
-        const key = `${current.type}-${current.name}`;
-        const existingIndex = acc.findIndex(item => `${item.type}-${item.name}` === key);
-        
-        if (existingIndex === -1) {
-          acc.push(current);
-        } else {
-          // Merge matches from duplicate entries
-          const existing = acc[existingIndex];
-          const combinedMatches = [...existing.matches, ...current.matches];
-          
-          // Remove duplicate matches based on line number and content
-          const uniqueMatches = combinedMatches.reduce((matchAcc, match) => {
-            const matchKey = `${match.line}-${match.snippet}`;
-            if (!matchAcc.find(m => `${m.line}-${m.snippet}` === matchKey)) {
-              matchAcc.push(match);
-            }
-            return matchAcc;
-          }, [] as CodeSearchResult['matches']);
-          
-          acc[existingIndex] = {
-            ...existing,
-            matches: uniqueMatches,
-            totalMatches: uniqueMatches.length
-          };
-        }
-        return acc;
-      }, [] as CodeSearchResult[]);
-      
-      // Sort results by relevance (total matches and recency)
-      uniqueResults.sort((a, b) => {
-        // Primary sort: total matches
-        const matchDiff = (b.totalMatches || 0) - (a.totalMatches || 0);
-        if (matchDiff !== 0) return matchDiff;
-        
-        // Secondary sort: alphabetical by name
-        return a.name.localeCompare(b.name);
-      });
-      
-      console.log(`Found ${uniqueResults.length} unique files with matches for "${searchTerm}"`);
-      console.log(`Total matches across all files: ${uniqueResults.reduce((sum, r) => sum + (r.totalMatches || 0), 0)}`);
-      
-      // Log breakdown by type for debugging
-      const typeBreakdown = uniqueResults.reduce((acc, result) => {
-        acc[result.type] = (acc[result.type] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      console.log('Search results by type:', typeBreakdown);
-      
-      return uniqueResults.slice(0, 50); // Limit results for better performance
+      return rankResults(results, query.text);
       
     } catch (error) {
       console.error('Code content search error:', error);
@@ -1336,10 +2350,11 @@ import type {
   }
   
   export async function searchSalesforce(
-    instanceUrl: string,
-    accessToken: string,
-    query: string
+    client: SalesforceClient,
+    query: SearchQuery | string,
+    options: CodeSearchOptions = {}
   ): Promise<any[]> {
     // Use the new code content search instead of the old metadata search
-    return searchCodeContent(instanceUrl, accessToken, query);
+    const parsedQuery = typeof query === 'string' ? parseSearchQuery(query) : query;
+    return searchCodeContent(client, parsedQuery, options);
   }
\ No newline at end of file
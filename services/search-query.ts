@@ -0,0 +1,333 @@
+// Small query language for the metadata search screen, e.g.
+//   type:apex-class object:Account name:*Handler "exact phrase" -exclude regex:/Acc(ount)?Id/
+
+export const SEARCH_TYPE_KEYS = [
+  'apex-class',
+  'apex-trigger',
+  'flow',
+  'validation-rule',
+  'lwc-bundle',
+  'aura-bundle',
+  'page-layout',
+  'record-type',
+] as const;
+
+// Short forms accepted after type:, on top of the full keys above
+const TYPE_ALIASES: Record<string, string> = {
+  apex: 'apex-class',
+  class: 'apex-class',
+  cls: 'apex-class',
+  trigger: 'apex-trigger',
+  lwc: 'lwc-bundle',
+  aura: 'aura-bundle',
+  layout: 'page-layout',
+  validation: 'validation-rule',
+  vr: 'validation-rule',
+  recordtype: 'record-type',
+};
+
+const QUALIFIERS = ['type', 'object', 'name', 'regex'];
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+export interface SearchQueryOptions {
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+}
+
+export interface SearchQuery {
+  text: string;
+  // Words and "quoted phrases" that must all appear in a file
+  terms: string[];
+  // -words that must not appear anywhere in a file
+  excludes: string[];
+  // regex:/.../ sources as typed
+  patterns: string[];
+  // Metadata type keys to scan; empty means every type
+  types: string[];
+  objects: string[];
+  // name: globs (* and ?), matched case-insensitively like Salesforce API names
+  names: string[];
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // One regex per term and pattern. Never global, so they are safe to reuse with test()
+  needles: RegExp[];
+  excludeNeedles: RegExp[];
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+interface QueryToken {
+  negated: boolean;
+  qualifier: string | null;
+  value: string;
+  flags: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let qualifier: string | null = null;
+    const prefix = /^([a-zA-Z]+):/.exec(input.slice(i));
+    if (prefix && QUALIFIERS.includes(prefix[1].toLowerCase())) {
+      qualifier = prefix[1].toLowerCase();
+      i += prefix[0].length;
+    }
+
+    let value = '';
+    let flags = '';
+    if (qualifier === 'regex' && input[i] === '/') {
+      // Read up to the closing unescaped slash, then any trailing flags
+      i++;
+      while (i < input.length && input[i] !== '/') {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          value += input[i] + input[i + 1];
+          i += 2;
+        } else {
+          value += input[i++];
+        }
+      }
+      if (i >= input.length) {
+        throw new SearchQueryError('regex: is missing its closing "/"');
+      }
+      i++;
+      while (i < input.length && /[a-z]/.test(input[i])) {
+        flags += input[i++];
+      }
+    } else if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      value = input.slice(i + 1, end === -1 ? input.length : end);
+      i = end === -1 ? input.length : end + 1;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) {
+        value += input[i++];
+      }
+    }
+
+    tokens.push({ negated, qualifier, value, flags });
+  }
+
+  return tokens;
+}
+
+function resolveType(value: string): string {
+  const key = value.toLowerCase();
+  if ((SEARCH_TYPE_KEYS as readonly string[]).includes(key)) return key;
+  if (TYPE_ALIASES[key]) return TYPE_ALIASES[key];
+  throw new SearchQueryError(`Unknown type "${value}". Use one of: ${SEARCH_TYPE_KEYS.join(', ')}`);
+}
+
+function termToRegExp(term: string, caseSensitive: boolean, wholeWord: boolean): RegExp {
+  let source = escapeRegExp(term);
+  if (wholeWord) {
+    // \b only means something next to a word character
+    if (/^\w/.test(term)) source = `\\b${source}`;
+    if (/\w$/.test(term)) source = `${source}\\b`;
+  }
+  return new RegExp(source, caseSensitive ? '' : 'i');
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : escapeRegExp(char)))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function parseSearchQuery(input: string, options: SearchQueryOptions = {}): SearchQuery {
+  const caseSensitive = !!options.caseSensitive;
+  const wholeWord = !!options.wholeWord;
+  const query: SearchQuery = {
+    text: input.trim(),
+    terms: [],
+    excludes: [],
+    patterns: [],
+    types: [],
+    objects: [],
+    names: [],
+    caseSensitive,
+    wholeWord,
+    needles: [],
+    excludeNeedles: [],
+  };
+  const excludedTypes: string[] = [];
+
+  for (const token of tokenize(input)) {
+    if (!token.value) {
+      if (token.qualifier) {
+        throw new SearchQueryError(`${token.qualifier}: needs a value`);
+      }
+      continue;
+    }
+
+    switch (token.qualifier) {
+      case 'type':
+        (token.negated ? excludedTypes : query.types).push(resolveType(token.value));
+        break;
+      case 'object':
+      case 'name':
+      case 'regex':
+        if (token.negated) {
+          throw new SearchQueryError(`-${token.qualifier}: is not supported, only -word and -type: can be negated`);
+        }
+        if (token.qualifier === 'object') {
+          query.objects.push(token.value);
+        } else if (token.qualifier === 'name') {
+          query.names.push(token.value);
+        } else {
+          const flags = token.flags.replace(/[^imsu]/g, '') + (caseSensitive || token.flags.includes('i') ? '' : 'i');
+          try {
+            query.needles.push(new RegExp(token.value, flags));
+          } catch (error) {
+            throw new SearchQueryError(`Invalid regex /${token.value}/: ${error instanceof Error ? error.message : error}`);
+          }
+          query.patterns.push(token.value);
+        }
+        break;
+      default:
+        if (token.value.length < 2) {
+          throw new SearchQueryError(`"${token.value}" is too short, search terms need at least 2 characters`);
+        }
+        if (token.negated) {
+          query.excludes.push(token.value);
+          query.excludeNeedles.push(termToRegExp(token.value, caseSensitive, wholeWord));
+        } else {
+          query.terms.push(token.value);
+          query.needles.push(termToRegExp(token.value, caseSensitive, wholeWord));
+        }
+    }
+  }
+
+  if (excludedTypes.length > 0) {
+    const included = query.types.length > 0 ? query.types : [...SEARCH_TYPE_KEYS];
+    query.types = included.filter(type => !excludedTypes.includes(type));
+    if (query.types.length === 0) {
+      throw new SearchQueryError('Every metadata type is excluded by -type:');
+    }
+  }
+  query.types = Array.from(new Set(query.types));
+
+  if (query.needles.length === 0 && query.names.length === 0 && query.objects.length === 0) {
+    throw new SearchQueryError('Add a search term, "phrase", name:, object: or regex: to search for');
+  }
+
+  return query;
+}
+
+// Every term and pattern appears somewhere in the content, and no excluded word does
+export function matchesQueryContent(query: SearchQuery, content: string): boolean {
+  return query.needles.every(needle => needle.test(content))
+    && !query.excludeNeedles.some(needle => needle.test(content));
+}
+
+export function matchesQueryName(query: SearchQuery, name: string): boolean {
+  if (query.names.length === 0) return true;
+  return query.names.some(glob => globToRegExp(glob).test(name || ''));
+}
+
+// Components that belong to an object (triggers, layouts...) are matched on that object;
+// everything else (classes, flows, components) must mention the object in its source
+export function matchesQueryObject(query: SearchQuery, objectName: string | undefined, content: string): boolean {
+  if (query.objects.length === 0) return true;
+  if (objectName !== undefined) {
+    return query.objects.some(object => object.toLowerCase() === (objectName || '').toLowerCase());
+  }
+  return query.objects.some(object => new RegExp(`\\b${escapeRegExp(object)}\\b`, 'i').test(content));
+}
+
+// Position of the first term or pattern found in a line, or null when the line does not match
+export function findQueryMatch(query: SearchQuery, line: string): { index: number; length: number } | null {
+  for (const needle of query.needles) {
+    const match = needle.exec(line);
+    if (match && match[0].length > 0) {
+      return { index: match.index, length: match[0].length };
+    }
+  }
+  return null;
+}
+
+// Split text into plain and highlighted runs for every term and pattern occurrence
+export function splitQueryHighlights(query: SearchQuery | null, text: string): HighlightPart[] {
+  if (!query || !text || query.needles.length === 0) return [{ text, highlighted: false }];
+
+  const ranges: [number, number][] = [];
+  for (const needle of query.needles) {
+    const global = new RegExp(needle.source, needle.flags + 'g');
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        global.lastIndex++;
+        continue;
+      }
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+  if (ranges.length === 0) return [{ text, highlighted: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const parts: HighlightPart[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) continue;
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push({ text: text.slice(cursor, from), highlighted: false });
+    parts.push({ text: text.slice(from, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), highlighted: false });
+  return parts;
+}
+
+function toSoqlString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// name: globs as a SOQL condition, e.g. "(Name LIKE '%Handler')"
+export function toSoqlNameCondition(query: SearchQuery, field: string): string | null {
+  if (query.names.length === 0) return null;
+  const conditions = query.names.map(glob => {
+    const like = glob
+      .replace(/[\\'%_]/g, char => `\\${char}`)
+      .replace(/\*/g, '%')
+      .replace(/\?/g, '_');
+    return `${field} LIKE '${like}'`;
+  });
+  return `(${conditions.join(' OR ')})`;
+}
+
+// object: values as a SOQL condition, e.g. "SobjectType IN ('Account')"
+export function toSoqlObjectCondition(query: SearchQuery, field: string): string | null {
+  if (query.objects.length === 0) return null;
+  return `${field} IN (${query.objects.map(toSoqlString).join(', ')})`;
+}
+
+export function toSoqlWhere(conditions: (string | null)[]): string {
+  const present = conditions.filter(Boolean);
+  return present.length > 0 ? ` WHERE ${present.join(' AND ')}` : '';
+}
@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { captureOrgSchema, type CaptureOptions } from '@/services/org-compare';
+import { getOrgKey } from '@/services/cache';
+import type { SalesforceClient, PartialFailure } from '@/services/salesforce-client';
+import type { OrgSchema, MetadataSnapshotSummary, SearchProgress } from '@/types/salesforce';
+
+const SNAPSHOT_KEY_PREFIX = 'snapshot_';
+
+// AsyncStorage rows are size-limited on Android, so each snapshot is written in chunks
+const MAX_CHUNK_CHARS = 512 * 1024;
+
+interface StoredSnapshotSummary extends MetadataSnapshotSummary {
+  chunkCount: number;
+}
+
+const getTimelineKey = (instanceUrl: string) => `${SNAPSHOT_KEY_PREFIX}${getOrgKey(instanceUrl)}`;
+
+const getChunkKey = (instanceUrl: string, snapshotId: string, chunk: number) =>
+  `${getTimelineKey(instanceUrl)}_${snapshotId}_${chunk}`;
+
+const toSummary = ({ id, label, capturedAt, counts }: StoredSnapshotSummary): MetadataSnapshotSummary =>
+  ({ id, label, capturedAt, counts });
+
+async function loadTimeline(instanceUrl: string): Promise<StoredSnapshotSummary[]> {
+  try {
+    const raw = await AsyncStorage.getItem(getTimelineKey(instanceUrl));
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.warn('Error reading snapshot timeline:', error);
+    return [];
+  }
+}
+
+// Newest first
+export async function listSnapshots(instanceUrl: string): Promise<MetadataSnapshotSummary[]> {
+  const timeline = await loadTimeline(instanceUrl);
+  return timeline
+    .map(toSummary)
+    .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+}
+
+export async function loadSnapshot(instanceUrl: string, snapshotId: string): Promise<OrgSchema | null> {
+  const summary = (await loadTimeline(instanceUrl)).find(item => item.id === snapshotId);
+  if (!summary) return null;
+
+  try {
+    const chunkKeys = Array.from({ length: summary.chunkCount }, (_, i) => getChunkKey(instanceUrl, snapshotId, i));
+    const chunks = await AsyncStorage.multiGet(chunkKeys);
+    if (chunks.some(([, value]) => value === null)) {
+      console.warn('Snapshot chunk missing:', snapshotId);
+      return null;
+    }
+    return JSON.parse(chunks.map(([, value]) => value).join(''));
+  } catch (error) {
+    console.error('Error loading snapshot:', error);
+    return null;
+  }
+}
+
+async function saveSnapshot(schema: OrgSchema, label: string): Promise<MetadataSnapshotSummary> {
+  const serialized = JSON.stringify(schema);
+  const chunks: string[] = [];
+  for (let i = 0; i < serialized.length; i += MAX_CHUNK_CHARS) {
+    chunks.push(serialized.slice(i, i + MAX_CHUNK_CHARS));
+  }
+
+  const summary: StoredSnapshotSummary = {
+    id: Date.now().toString(36),
+    label,
+    capturedAt: schema.capturedAt,
+    counts: {
+      objects: Object.keys(schema.objects).length,
+      fields: Object.values(schema.fields).reduce((total, fields) => total + Object.keys(fields).length, 0),
+      validationRules: Object.keys(schema.validationRules).length,
+      apexClasses: Object.keys(schema.apexClasses).length,
+      flows: Object.keys(schema.flows).length,
+    },
+    chunkCount: chunks.length,
+  };
+
+  const timeline = await loadTimeline(schema.instanceUrl);
+  // Chunks first, so the timeline never lists a snapshot that is only partly written
+  await AsyncStorage.multiSet(
+    chunks.map((chunk, i) => [getChunkKey(schema.instanceUrl, summary.id, i), chunk] as [string, string])
+  );
+  await AsyncStorage.setItem(getTimelineKey(schema.instanceUrl), JSON.stringify([...timeline, summary]));
+
+  return toSummary(summary);
+}
+
+export async function deleteSnapshot(instanceUrl: string, snapshotId: string): Promise<void> {
+  const timeline = await loadTimeline(instanceUrl);
+  const summary = timeline.find(item => item.id === snapshotId);
+  if (!summary) return;
+
+  await AsyncStorage.setItem(
+    getTimelineKey(instanceUrl),
+    JSON.stringify(timeline.filter(item => item.id !== snapshotId))
+  );
+  await AsyncStorage.multiRemove(
+    Array.from({ length: summary.chunkCount }, (_, i) => getChunkKey(instanceUrl, snapshotId, i))
+  );
+}
+
+// Capture the org's schema, class body hashes included, and add it to the timeline. A snapshot is
+// a baseline for every later diff, so one with reads that failed is not saved at all
+export async function takeSnapshot(
+  client: SalesforceClient,
+  label: string,
+  options: CaptureOptions = {},
+  onProgress?: (progress: SearchProgress) => void
+): Promise<MetadataSnapshotSummary> {
+  const failures: PartialFailure[] = [];
+  const schema = await captureOrgSchema(
+    client.withPartialFailureListener(failure => failures.push(failure)),
+    { ...options, includeClassBodies: true },
+    onProgress
+  );
+  if (failures.length > 0) {
+    const sources = Array.from(new Set(failures.map(failure => failure.source)));
+    throw new Error(`Snapshot not saved, as some metadata could not be read (${sources.join(', ')}). Try again.`);
+  }
+  return saveSnapshot(schema, label);
+}
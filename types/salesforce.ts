@@ -3,6 +3,7 @@ export interface SalesforceObject {
     label: string;
     custom: boolean;
     queryable: boolean;
+    // Approximate count from /limits/recordCount; undefined when the org does not report one
     recordCount?: number;
   }
   
@@ -17,11 +18,8 @@ export interface SalesforceObject {
     nillable?: boolean;
     referenceTo?: string[];
     relationshipName?: string;
-    childRelationships?: {
-      childSObject: string;
-      field: string;
-      relationshipName: string;
-    }[];
+    // 0 or 1 on master-detail fields, undefined on lookups
+    relationshipOrder?: number;
     restrictedPicklist?: boolean;
     cascadeDelete?: boolean;
     picklistValues?: {
@@ -31,10 +29,88 @@ export interface SalesforceObject {
     }[];
   }
   
+  // One edge of the entity-relationship diagram, seen from the described object
+  export interface ObjectRelationship {
+    // parent: the described object has a lookup to objectName; child: objectName looks up to it
+    direction: 'parent' | 'child';
+    kind: 'lookup' | 'master-detail';
+    objectName: string;
+    // Reference field, always on the child side
+    field: string;
+    relationshipName?: string;
+  }
+  
+  export interface ObjectRelationships {
+    objectName: string;
+    label: string;
+    relationships: ObjectRelationship[];
+  }
+  
+  // A lookup or master-detail on another object that points at the described object
+  export interface ChildRelationship {
+    childSObject: string;
+    field: string;
+    // Missing for relationships that cannot be used in SOQL subqueries
+    relationshipName?: string;
+    cascadeDelete: boolean;
+    restrictedDelete: boolean;
+  }
+  
+  export interface RecordTypeInfo {
+    recordTypeId: string;
+    name: string;
+    developerName: string;
+    active: boolean;
+    available: boolean;
+    defaultRecordTypeMapping: boolean;
+    master: boolean;
+  }
+  
+  export interface SalesforceObjectDescribe {
+    name: string;
+    label: string;
+    labelPlural: string;
+    keyPrefix: string | null;
+    custom: boolean;
+    customSetting: boolean;
+    queryable: boolean;
+    searchable: boolean;
+    createable: boolean;
+    updateable: boolean;
+    deletable: boolean;
+    triggerable: boolean;
+    feedEnabled: boolean;
+    // From EntityDefinition, e.g. "Private", "Read", "ControlledByParent"
+    internalSharingModel?: string;
+    externalSharingModel?: string;
+    // REST resource paths by name (sobject, describe, rowTemplate, compactLayouts...)
+    urls: Record<string, string>;
+    fields: SalesforceField[];
+    childRelationships: ChildRelationship[];
+    recordTypes: RecordTypeInfo[];
+  }
+  
+  export interface FieldPopulationStats {
+    totalRecords: number;
+    populatedRecords: number;
+    // aggregate: COUNT(Id) vs COUNT(field); filter: COUNT() WHERE field != null (or = true);
+    // sample: recent records only, for fields SOQL cannot filter (long and rich text areas)
+    method: 'aggregate' | 'filter' | 'sample';
+    sampleSize?: number;
+    // Most recent LastModifiedDate of a record that has a value
+    lastPopulatedDate: string | null;
+  }
+  
+  // confirmed: reported by the MetadataComponentDependency API
+  // parsed: an `Object.Field` token was found in the source
+  // possible: only the bare field name was found
+  export type ReferenceConfidence = 'confirmed' | 'parsed' | 'possible';
+  
   export interface MetadataReference {
     id: string;
     fileName: string;
     type: string;
+    confidence: ReferenceConfidence;
     references: {
       line: number;
       snippet: string;
@@ -61,4 +137,143 @@ export interface SalesforceObject {
     description?: string;
     status?: string;
     objectName?: string;
-  }
\ No newline at end of file
+  }
+
+  export interface SearchProgress {
+    type: string;
+    label: string;
+    scanned: number;
+    total: number;
+  }
+
+  export interface MetadataIndexEntry {
+    id: string;
+    sourceId: string;
+    type: string;
+    name: string;
+    label: string;
+    fileName: string;
+    content: string;
+    lastModifiedDate: string;
+    // Owning object for triggers, validation rules, layouts and record types
+    objectName?: string;
+  }
+
+  export interface MetadataIndex {
+    instanceUrl: string;
+    lastSync: string | null;
+    entries: MetadataIndexEntry[];
+  }
+  
+  // Comparable slice of an org's schema, kept to plain JSON so it can be stored
+  export interface OrgSchema {
+    instanceUrl: string;
+    capturedAt: string;
+    objects: Record<string, { label: string; custom: boolean }>;
+    // Only for the objects whose fields were described
+    fields: Record<string, Record<string, SchemaField>>;
+    validationRules: Record<string, { active: boolean; errorMessage: string; errorDisplayField: string | null }>;
+    // bodyHash is a SHA-256 of the class body, only captured for snapshots
+    apexClasses: Record<string, { apiVersion: number; status: string; length: number; bodyHash?: string }>;
+    flows: Record<string, { label: string; activeVersion: number | null; latestVersion: number | null }>;
+    // Categories whose reads failed, so their records are unknown rather than absent; never compared
+    unavailable?: MetadataDiffCategory[];
+  }
+  
+  export interface SchemaField {
+    label: string;
+    type: string;
+    length: number;
+    required: boolean;
+    // Active picklist values, empty for other field types
+    picklistValues: string[];
+  }
+  
+  export type MetadataDiffCategory = 'object' | 'field' | 'validationRule' | 'apexClass' | 'flow';
+  
+  // added: only in the target org; removed: only in the source org
+  export type MetadataDiffStatus = 'added' | 'removed' | 'changed';
+  
+  export interface MetadataDiffChange {
+    property: string;
+    source: string;
+    target: string;
+  }
+  
+  export interface MetadataDiffItem {
+    category: MetadataDiffCategory;
+    status: MetadataDiffStatus;
+    // Object.Field or Object.Rule for members of an object
+    name: string;
+    changes: MetadataDiffChange[];
+  }
+  
+  export interface MetadataDiffResult {
+    sourceName: string;
+    targetName: string;
+    comparedAt: string;
+    items: MetadataDiffItem[];
+    // Left out because either side could not read them
+    skippedCategories: MetadataDiffCategory[];
+  }
+  
+  // Timeline entry for a stored schema snapshot; the schema itself is loaded on demand
+  export interface MetadataSnapshotSummary {
+    id: string;
+    label: string;
+    capturedAt: string;
+    counts: {
+      objects: number;
+      fields: number;
+      validationRules: number;
+      apexClasses: number;
+      flows: number;
+    };
+  }
+  
+  export interface SetupAuditEntry {
+    id: string;
+    createdDate: string;
+    action: string;
+    section: string | null;
+    // Human-readable description, e.g. "Changed Account field Industry from Text to Picklist"
+    display: string;
+    createdBy: string | null;
+    // Set when someone logged in as another user made the change
+    delegateUser: string | null;
+  }
+  
+  export interface SetupAuditFilters {
+    // Partial, case-insensitive matches
+    user?: string;
+    section?: string;
+    // Only entries created at or after this ISO datetime
+    since?: string;
+  }
+  
+  export interface SetupAuditPage {
+    entries: SetupAuditEntry[];
+    nextRecordsUrl: string | null;
+  }
+  
+  export interface OrgLimit {
+    // Key in the limits resource, e.g. DailyApiRequests
+    name: string;
+    label: string;
+    max: number;
+    remaining: number;
+    // Storage limits are in MB, the rest are counts
+    unit: 'MB' | null;
+  }
+  
+  export interface OrgLimitGroup {
+    title: string;
+    note?: string;
+    limits: OrgLimit[];
+  }
+  
+  export interface ApiBudgetCheck {
+    estimatedCalls: number;
+    remaining: number;
+    max: number;
+  }